@@ -0,0 +1,125 @@
+// Benchmark: listing 1,000 encrypted conversations must not stall the main process event loop
+// Times the indexed listing the list handlers use: the first page while the index is built from
+// the items, a cursor page, and the first page again once the index is read back from disk.
+// Run with `npm run bench:listing`. Exits non-zero if the loop is blocked for too long.
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { monitorEventLoopDelay, performance } from 'perf_hooks';
+import { encrypt, generateKey } from '../encryption';
+import { writeItem, StorageKeys } from '../storage';
+import { listIndexed, clearIndexCache, IndexedSummary } from '../itemIndex';
+import { shutdownCryptoPool } from '../cryptoPool';
+
+const ITEM_COUNT = 1000;
+// Password-encrypted items from before the vault, each needing a full PBKDF2 derivation
+const LEGACY_ITEM_COUNT = 20;
+const MESSAGES_PER_CONVERSATION = 20;
+const LEGACY_PASSWORD = 'benchmark-password';
+// Page size the list views ask for
+const PAGE_SIZE = 50;
+
+// Longest the event loop may go without running - anything above this is a visible UI stall
+const MAX_EVENT_LOOP_DELAY_MS = 100;
+
+const createConversation = (index: number) => ({
+  id: `conversation_${index}`,
+  title: `Conversation ${index}`,
+  created: new Date().toISOString(),
+  lastModified: new Date(Date.now() - index * 1000).toISOString(),
+  messages: Array.from({ length: MESSAGES_PER_CONVERSATION }, (_, messageIndex) => ({
+    id: `message_${messageIndex}`,
+    role: messageIndex % 2 === 0 ? 'user' : 'assistant',
+    content: 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(8),
+    timestamp: new Date().toISOString()
+  }))
+});
+
+const populate = async (dirPath: string, keys: StorageKeys) => {
+  for (let i = 0; i < ITEM_COUNT; i++) {
+    await writeItem(path.join(dirPath, `conversation_${i}.json`), createConversation(i), keys);
+  }
+
+  for (let i = ITEM_COUNT; i < ITEM_COUNT + LEGACY_ITEM_COUNT; i++) {
+    const legacyEnvelope = {
+      encrypted: true,
+      version: 1,
+      data: await encrypt(JSON.stringify(createConversation(i)), LEGACY_PASSWORD)
+    };
+    await fs.writeFile(path.join(dirPath, `conversation_${i}.json`), JSON.stringify(legacyEnvelope));
+  }
+};
+
+// Mirrors the conversation summary kept in the index
+const summarize = (item: any): IndexedSummary & { title: string } => ({
+  id: item.id,
+  title: item.title,
+  lastModified: item.lastModified
+});
+
+const toMs = (nanoseconds: number) => (nanoseconds / 1e6).toFixed(1);
+
+// Time one listing call and check it returned a full page
+const timePage = async (label: string, list: () => ReturnType<typeof listIndexed>) => {
+  const start = performance.now();
+  const page = await list();
+  console.log(`${label}: ${page.items.length} items in ${(performance.now() - start).toFixed(0)}ms`);
+  if (page.items.length !== PAGE_SIZE || !page.nextCursor) {
+    throw new Error(`${label}: expected a full page of ${PAGE_SIZE} items with a cursor, got ${page.items.length}`);
+  }
+  return { items: page.items, nextCursor: page.nextCursor };
+};
+
+const run = async () => {
+  const dirPath = await fs.mkdtemp(path.join(os.tmpdir(), 'temenos-bench-'));
+  const keys: StorageKeys = {
+    key: generateKey(),
+    resolveLegacyPassword: async () => LEGACY_PASSWORD
+  };
+
+  try {
+    console.log(`Writing ${ITEM_COUNT} items and ${LEGACY_ITEM_COUNT} legacy items to ${dirPath}`);
+    await populate(dirPath, keys);
+
+    const histogram = monitorEventLoopDelay({ resolution: 10 });
+    histogram.enable();
+
+    const firstPage = await timePage('First page, building the index', () => listIndexed(dirPath, keys, summarize, { limit: PAGE_SIZE }));
+    const cursorPage = await timePage('Cursor page', () => listIndexed(dirPath, keys, summarize, { cursor: firstPage.nextCursor, limit: PAGE_SIZE }));
+    clearIndexCache();
+    const reloadedPage = await timePage('First page, reading the index', () => listIndexed(dirPath, keys, summarize, { limit: PAGE_SIZE }));
+
+    histogram.disable();
+
+    const maxDelayMs = histogram.max / 1e6;
+    console.log(`Event loop delay: mean ${toMs(histogram.mean)}ms, p99 ${toMs(histogram.percentile(99))}ms, max ${toMs(histogram.max)}ms`);
+
+    // Legacy items must be indexed too
+    const { items } = await listIndexed(dirPath, keys, summarize);
+    if (items.length !== ITEM_COUNT + LEGACY_ITEM_COUNT) {
+      throw new Error(`Expected ${ITEM_COUNT + LEGACY_ITEM_COUNT} items in the index, got ${items.length}`);
+    }
+
+    // Newest first, so the pages follow on from each other and the reloaded index lists the same items
+    const expectedIds = (start: number) => Array.from({ length: PAGE_SIZE }, (_, i) => `conversation_${start + i}`).join();
+    if (firstPage.items.map(item => item.id).join() !== expectedIds(0)
+      || cursorPage.items.map(item => item.id).join() !== expectedIds(PAGE_SIZE)
+      || reloadedPage.items.map(item => item.id).join() !== expectedIds(0)) {
+      throw new Error('Pages did not list the newest items in order');
+    }
+
+    if (maxDelayMs > MAX_EVENT_LOOP_DELAY_MS) {
+      throw new Error(`Event loop was blocked for ${maxDelayMs.toFixed(1)}ms (limit ${MAX_EVENT_LOOP_DELAY_MS}ms)`);
+    }
+
+    console.log('PASS: listing stayed interactive');
+  } finally {
+    await shutdownCryptoPool();
+    await fs.rm(dirPath, { recursive: true, force: true });
+  }
+};
+
+run().catch((error) => {
+  console.error('FAIL:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,88 @@
+// Check: with MOCK_LLM=1 the healing handler's provider resolution reaches the mock provider, whose
+// models stream the expected replies, report usage worked out from the text and fail on purpose.
+// Run with `npm run check:mock-provider`. Exits non-zero if any model does not behave as expected.
+import * as assert from 'assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { getProviders, readProviderSettings, resolveModel, LlmProvider } from '../providers';
+import type { ChatRole } from '../shared/ipcContract';
+
+const SYSTEM_PROMPT = 'Be kind';
+const SCRIPT = ['First scripted reply', 'Second scripted reply'] as const;
+
+type Message = { role: ChatRole; content: string };
+
+const user = (content: string): Message => ({ role: 'user', content });
+const assistant = (content: string): Message => ({ role: 'assistant', content });
+
+// Resolves the model and completes the conversation the way the send-healing-message handler does
+const send = async (providers: LlmProvider[], model: string, messages: Message[]) => {
+  const resolved = await resolveModel(providers, [], model);
+  if (!resolved) {
+    throw new Error(`Model '${model}' is not offered by any configured provider`);
+  }
+  assert.equal(resolved.provider.id, 'mock');
+
+  const deltas: string[] = [];
+  try {
+    const result = await resolved.provider.complete({
+      model: resolved.model.model,
+      settings: resolved.model,
+      systemPrompt: SYSTEM_PROMPT,
+      messages,
+      signal: new AbortController().signal,
+      onDelta: delta => deltas.push(delta)
+    });
+    return { deltas, result };
+  } catch (error) {
+    return { deltas, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const run = async () => {
+  const dirPath = await fs.mkdtemp(path.join(os.tmpdir(), 'temenos-mock-'));
+  const scriptPath = path.join(dirPath, 'replies.json');
+
+  try {
+    await fs.writeFile(scriptPath, JSON.stringify(SCRIPT));
+    process.env['MOCK_LLM'] = '1';
+    process.env['MOCK_LLM_SCRIPT'] = scriptPath;
+    const providers = getProviders(await readProviderSettings(name => process.env[name] || undefined));
+
+    // Usage is a token for every four characters of the system prompt, messages and reply
+    const echo = await send(providers, 'mock:echo', [user('hello there')]);
+    assert.deepEqual(echo.deltas, ['Echo:', ' hello', ' there']);
+    assert.deepEqual(echo.result, {
+      response: 'Echo: hello there',
+      usage: { prompt_tokens: 2 + 3, completion_tokens: 5, total_tokens: 10 }
+    });
+    console.log('PASS: echo streams the last message back with usage');
+
+    // Replies are taken in turn by the number of user messages
+    const first = await send(providers, 'mock:scripted', [user('one')]);
+    const second = await send(providers, 'mock:scripted', [user('one'), assistant(SCRIPT[0]), user('two')]);
+    const third = await send(providers, 'mock:scripted', [user('one'), assistant(SCRIPT[0]), user('two'), assistant(SCRIPT[1]), user('three')]);
+    assert.deepEqual(first.deltas, ['First', ' scripted', ' reply']);
+    assert.deepEqual([first.result?.response, second.result?.response, third.result?.response], [SCRIPT[0], SCRIPT[1], SCRIPT[0]]);
+    console.log('PASS: scripted replies from MOCK_LLM_SCRIPT in turn');
+
+    const rateLimit = await send(providers, 'mock:rate-limit', [user('hello')]);
+    assert.deepEqual(rateLimit, { deltas: [], error: 'Mock API error: 429 Too Many Requests' });
+    const serverError = await send(providers, 'mock:server-error', [user('hello')]);
+    assert.deepEqual(serverError, { deltas: [], error: 'Mock API error: 500 Internal Server Error' });
+    console.log('PASS: rate limit and server error fail before streaming');
+
+    // Half of "Echo: one two three" is streamed before the stall
+    const timeout = await send(providers, 'mock:timeout', [user('one two three')]);
+    assert.deepEqual(timeout, { deltas: ['Echo:', ' one'], error: 'Mock API error: request timed out' });
+    console.log('PASS: timeout streams half its reply, then fails');
+  } finally {
+    await fs.rm(dirPath, { recursive: true, force: true });
+  }
+};
+
+run().catch((error) => {
+  console.error('FAIL:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,166 @@
+// Worker thread pool for encryption and key derivation
+// Keeps PBKDF2 and bulk AES-GCM off the main process thread so IPC stays responsive.
+import { Worker } from 'worker_threads';
+import * as os from 'os';
+import * as path from 'path';
+
+export type CryptoRequest =
+  | { op: 'encrypt-with-key'; data: Uint8Array; key: Uint8Array }
+  | { op: 'decrypt-with-key'; data: Uint8Array; key: Uint8Array }
+  | { op: 'decrypt-with-password'; data: string; password: string };
+
+export type CryptoWorkerMessage =
+  | { type: 'task'; id: number; request: CryptoRequest }
+  | { type: 'clear-cache' };
+
+export interface CryptoWorkerResponse {
+  id: number;
+  result?: Uint8Array | string;
+  error?: string;
+}
+
+interface PendingTask {
+  id: number;
+  request: CryptoRequest;
+  resolve: (result: Uint8Array | string) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PendingTask | null;
+}
+
+const POOL_SIZE = Math.max(1, Math.min(4, os.cpus().length - 1));
+const WORKER_PATH = path.join(__dirname, 'cryptoWorker.js');
+
+let workers: PoolWorker[] = [];
+const queue: PendingTask[] = [];
+let nextTaskId = 1;
+
+// Structured clone copies the whole backing ArrayBuffer, and small Buffers share
+// a pooled one, so always hand workers a tightly sized copy
+const toOwnedBytes = (bytes: Uint8Array): Uint8Array => new Uint8Array(bytes);
+
+const toBuffer = (bytes: Uint8Array): Buffer => Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const createPoolWorker = (): PoolWorker => {
+  const poolWorker: PoolWorker = { worker: new Worker(WORKER_PATH), task: null };
+
+  const settle = (callback: (task: PendingTask) => void) => {
+    const task = poolWorker.task;
+    poolWorker.task = null;
+    if (task) {
+      callback(task);
+    }
+  };
+
+  poolWorker.worker.on('message', (response: CryptoWorkerResponse) => {
+    settle(task => {
+      if (response.error !== undefined || response.result === undefined) {
+        task.reject(new Error(response.error || 'Crypto worker returned no result'));
+      } else {
+        task.resolve(response.result);
+      }
+    });
+    dispatch();
+  });
+
+  poolWorker.worker.on('error', (error) => {
+    settle(task => task.reject(error));
+  });
+
+  poolWorker.worker.on('exit', () => {
+    settle(task => task.reject(new Error('Crypto worker exited')));
+    workers = workers.filter(candidate => candidate !== poolWorker);
+    // Replace the worker if work is still waiting
+    dispatch();
+  });
+
+  return poolWorker;
+};
+
+const dispatch = () => {
+  while (queue.length > 0) {
+    let idle = workers.find(candidate => candidate.task === null);
+    if (!idle && workers.length < POOL_SIZE) {
+      idle = createPoolWorker();
+      workers.push(idle);
+    }
+    if (!idle) {
+      return;
+    }
+
+    const task = queue.shift();
+    if (!task) {
+      return;
+    }
+
+    idle.task = task;
+    const message: CryptoWorkerMessage = { type: 'task', id: task.id, request: task.request };
+    idle.worker.postMessage(message);
+  }
+};
+
+const runTask = (request: CryptoRequest): Promise<Uint8Array | string> => {
+  return new Promise((resolve, reject) => {
+    queue.push({ id: nextTaskId++, request, resolve, reject });
+    dispatch();
+  });
+};
+
+/**
+ * Encrypt data with an already derived key on a worker thread
+ */
+export async function encryptWithKeyInPool(data: Buffer, key: Buffer): Promise<Buffer> {
+  const result = await runTask({ op: 'encrypt-with-key', data: toOwnedBytes(data), key: toOwnedBytes(key) });
+  if (typeof result === 'string') {
+    throw new Error('Unexpected crypto worker result');
+  }
+  return toBuffer(result);
+}
+
+/**
+ * Decrypt data with an already derived key on a worker thread
+ */
+export async function decryptWithKeyInPool(data: Buffer, key: Buffer): Promise<Buffer> {
+  const result = await runTask({ op: 'decrypt-with-key', data: toOwnedBytes(data), key: toOwnedBytes(key) });
+  if (typeof result === 'string') {
+    throw new Error('Unexpected crypto worker result');
+  }
+  return toBuffer(result);
+}
+
+/**
+ * Decrypt password-encrypted data on a worker thread, deriving the key there
+ */
+export async function decryptInPool(encryptedData: string, password: string): Promise<string> {
+  const result = await runTask({ op: 'decrypt-with-password', data: encryptedData, password });
+  if (typeof result !== 'string') {
+    throw new Error('Unexpected crypto worker result');
+  }
+  return result;
+}
+
+/**
+ * Drop the password-derived keys each worker has cached
+ */
+export function clearCryptoPoolCaches(): void {
+  const message: CryptoWorkerMessage = { type: 'clear-cache' };
+  for (const { worker } of workers) {
+    worker.postMessage(message);
+  }
+}
+
+/**
+ * Stop all workers, failing any queued work
+ */
+export async function shutdownCryptoPool(): Promise<void> {
+  for (const task of queue.splice(0)) {
+    task.reject(new Error('Crypto pool shut down'));
+  }
+
+  const stopping = workers;
+  workers = [];
+  await Promise.all(stopping.map(({ worker }) => worker.terminate()));
+}
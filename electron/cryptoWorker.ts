@@ -0,0 +1,43 @@
+// Crypto pool worker - runs on its own thread, see cryptoPool.ts
+import { parentPort } from 'worker_threads';
+import { decrypt, encryptWithKey, decryptWithKey, clearKeyCache } from './encryption';
+import type { CryptoRequest, CryptoWorkerMessage, CryptoWorkerResponse } from './cryptoPool';
+
+const toBuffer = (bytes: Uint8Array): Buffer => Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const runRequest = async (request: CryptoRequest): Promise<Uint8Array | string> => {
+  switch (request.op) {
+    case 'encrypt-with-key':
+      return encryptWithKey(toBuffer(request.data), toBuffer(request.key));
+    case 'decrypt-with-key':
+      return decryptWithKey(toBuffer(request.data), toBuffer(request.key));
+    case 'decrypt-with-password':
+      return decrypt(request.data, request.password);
+  }
+};
+
+parentPort?.on('message', async (message: CryptoWorkerMessage) => {
+  if (message.type === 'clear-cache') {
+    clearKeyCache();
+    return;
+  }
+
+  let response: CryptoWorkerResponse;
+  const transfer: ArrayBuffer[] = [];
+
+  try {
+    const result = await runRequest(message.request);
+    if (typeof result === 'string') {
+      response = { id: message.id, result };
+    } else {
+      // Copy out of any pooled Buffer so the result can be transferred rather than cloned
+      const bytes = new Uint8Array(result);
+      transfer.push(bytes.buffer);
+      response = { id: message.id, result: bytes };
+    }
+  } catch (error) {
+    response = { id: message.id, error: error instanceof Error ? error.message : 'Crypto operation failed' };
+  }
+
+  parentPort?.postMessage(response, transfer);
+});
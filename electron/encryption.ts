@@ -1,17 +1,108 @@
 // Node.js compatible encryption utilities using crypto module
 import * as crypto from 'crypto';
+import {
+  hasEnvelopeHeader,
+  parseEnvelope,
+  serializeEnvelope,
+  Envelope,
+  KDF_NONE,
+  KDF_PBKDF2_SHA256
+} from './shared/envelope';
 
 const ALGORITHM = 'aes-256-gcm';
 const KEY_LENGTH = 32; // 256 bits
-const IV_LENGTH = 16; // 128 bits
+const IV_LENGTH = 12; // 96 bits, recommended for GCM
 const SALT_LENGTH = 16; // 128 bits
 const TAG_LENGTH = 16; // 128 bits
+const PBKDF2_ITERATIONS = 100000;
+
+// Headerless layouts written before the shared envelope existed
+const LEGACY_IV_LENGTH = 16;
+
+// Password-derived keys by salt and iteration count, so re-reading an item skips PBKDF2
+const KEY_CACHE_LIMIT = 256;
+const keyCache = new Map<string, Buffer>();
 
 /**
  * Derive a key from a password using PBKDF2
  */
-function deriveKey(password: string, salt: Buffer): Buffer {
-  return crypto.pbkdf2Sync(password, salt, 100000, KEY_LENGTH, 'sha256');
+function deriveKey(password: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Buffer {
+  return crypto.pbkdf2Sync(password, salt, iterations, KEY_LENGTH, 'sha256');
+}
+
+/**
+ * Derive a key from a password, reusing the result for a salt seen before
+ */
+function deriveKeyCached(password: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Buffer {
+  const cacheKey = crypto.createHmac('sha256', salt).update(`${iterations}:${password}`).digest('hex');
+  const cached = keyCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const key = deriveKey(password, salt, iterations);
+
+  if (keyCache.size >= KEY_CACHE_LIMIT) {
+    // Evict the oldest entry - Map iterates in insertion order
+    const oldest = keyCache.keys().next();
+    if (!oldest.done) {
+      keyCache.get(oldest.value)?.fill(0);
+      keyCache.delete(oldest.value);
+    }
+  }
+  keyCache.set(cacheKey, key);
+
+  return key;
+}
+
+/**
+ * Forget all cached password-derived keys
+ */
+export function clearKeyCache(): void {
+  for (const key of keyCache.values()) {
+    key.fill(0);
+  }
+  keyCache.clear();
+}
+
+/**
+ * AES-256-GCM encrypt, returning the pieces needed for an envelope
+ */
+function seal(data: Buffer, key: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+/**
+ * AES-256-GCM decrypt
+ */
+function open(ciphertext: Uint8Array, key: Buffer, iv: Uint8Array, tag: Uint8Array): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Decrypt a parsed envelope, deriving the key from a password if the envelope asks for it
+ */
+function openEnvelope(envelope: Envelope, secret: { password: string } | { key: Buffer }): Buffer {
+  let key: Buffer;
+
+  if (envelope.kdf.id === KDF_PBKDF2_SHA256) {
+    if (!('password' in secret)) {
+      throw new Error('Envelope requires a password');
+    }
+    key = deriveKeyCached(secret.password, envelope.salt, envelope.kdf.iterations);
+  } else {
+    if (!('key' in secret)) {
+      throw new Error('Envelope requires a key');
+    }
+    key = secret.key;
+  }
+
+  return open(envelope.ciphertext, key, envelope.iv, envelope.tag);
 }
 
 /**
@@ -19,27 +110,19 @@ function deriveKey(password: string, salt: Buffer): Buffer {
  */
 export async function encrypt(data: string, password: string): Promise<string> {
   try {
-    // Generate random salt and IV
     const salt = crypto.randomBytes(SALT_LENGTH);
-    const iv = crypto.randomBytes(IV_LENGTH);
-    
-    // Derive key from password
     const key = deriveKey(password, salt);
-    
-    // Create cipher - Node.js crypto.createCipher is deprecated, use createCipheriv
-    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-    
-    // Encrypt data
-    let encrypted = cipher.update(data, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    
-    // Get authentication tag
-    const tag = cipher.getAuthTag();
-    
-    // Combine salt + IV + tag + encrypted data
-    const result = Buffer.concat([salt, iv, tag, Buffer.from(encrypted, 'hex')]);
-    
-    return result.toString('base64');
+    const { iv, tag, ciphertext } = seal(Buffer.from(data, 'utf8'), key);
+
+    const envelope = serializeEnvelope({
+      kdf: { id: KDF_PBKDF2_SHA256, iterations: PBKDF2_ITERATIONS },
+      salt,
+      iv,
+      tag,
+      ciphertext
+    });
+
+    return Buffer.from(envelope).toString('base64');
   } catch (error) {
     throw new Error('Encryption failed');
   }
@@ -50,28 +133,80 @@ export async function encrypt(data: string, password: string): Promise<string> {
  */
 export async function decrypt(encryptedData: string, password: string): Promise<string> {
   try {
-    // Decode base64
     const data = Buffer.from(encryptedData, 'base64');
-    
-    // Extract components
+
+    if (hasEnvelopeHeader(data)) {
+      return openEnvelope(parseEnvelope(data), { password }).toString('utf8');
+    }
+
+    // Legacy layout: salt + 16-byte IV + tag + encrypted data
     const salt = data.subarray(0, SALT_LENGTH);
-    const iv = data.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-    const tag = data.subarray(SALT_LENGTH + IV_LENGTH, SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
-    const encrypted = data.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
-    
-    // Derive key from password
-    const key = deriveKey(password, salt);
-    
-    // Create decipher - Node.js crypto.createDecipher is deprecated, use createDecipheriv
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(tag);
-    
-    // Decrypt data
-    let decrypted = decipher.update(encrypted);
-    decrypted = Buffer.concat([decrypted, decipher.final()]);
-    
-    return decrypted.toString('utf8');
+    const iv = data.subarray(SALT_LENGTH, SALT_LENGTH + LEGACY_IV_LENGTH);
+    const tag = data.subarray(SALT_LENGTH + LEGACY_IV_LENGTH, SALT_LENGTH + LEGACY_IV_LENGTH + TAG_LENGTH);
+    const encrypted = data.subarray(SALT_LENGTH + LEGACY_IV_LENGTH + TAG_LENGTH);
+
+    return open(encrypted, deriveKeyCached(password, salt), iv, tag).toString('utf8');
   } catch (error) {
     throw new Error('Decryption failed');
   }
 }
+
+/**
+ * Derive a key from a password using PBKDF2 without blocking the event loop
+ */
+export function deriveKeyAsync(password: string, salt: Buffer, iterations: number = PBKDF2_ITERATIONS): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.pbkdf2(password, salt, iterations, KEY_LENGTH, 'sha256', (error, key) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(key);
+      }
+    });
+  });
+}
+
+/**
+ * Generate a random 256-bit key
+ */
+export function generateKey(): Buffer {
+  return crypto.randomBytes(KEY_LENGTH);
+}
+
+/**
+ * Generate a random salt for key derivation
+ */
+export function generateSalt(): Buffer {
+  return crypto.randomBytes(SALT_LENGTH);
+}
+
+/**
+ * Encrypt data with AES-256-GCM using an already derived key
+ */
+export function encryptWithKey(data: Buffer, key: Buffer): Buffer {
+  const { iv, tag, ciphertext } = seal(data, key);
+
+  return Buffer.from(serializeEnvelope({
+    kdf: { id: KDF_NONE },
+    salt: new Uint8Array(0),
+    iv,
+    tag,
+    ciphertext
+  }));
+}
+
+/**
+ * Decrypt data with AES-256-GCM using an already derived key
+ */
+export function decryptWithKey(data: Buffer, key: Buffer): Buffer {
+  if (hasEnvelopeHeader(data)) {
+    return openEnvelope(parseEnvelope(data), { key });
+  }
+
+  // Legacy layout: 16-byte IV + tag + encrypted data
+  const iv = data.subarray(0, LEGACY_IV_LENGTH);
+  const tag = data.subarray(LEGACY_IV_LENGTH, LEGACY_IV_LENGTH + TAG_LENGTH);
+  const encrypted = data.subarray(LEGACY_IV_LENGTH + TAG_LENGTH);
+
+  return open(encrypted, key, iv, tag);
+}
@@ -0,0 +1,321 @@
+// Import pipeline for images entering the vault
+// Photos carry metadata such as GPS location and camera details. JPEG and PNG images are decoded
+// and re-encoded, which drops all of it, with their EXIF orientation applied to the pixels and an
+// optional downscale. GIF and WebP images have their metadata blocks cut out byte by byte.
+import { nativeImage, NativeImage } from 'electron';
+import { Worker } from 'worker_threads';
+import * as path from 'path';
+import { detectImageType, ImageImportError } from './images';
+import type { ImageImportReport } from './shared/ipcContract';
+
+const JPEG_QUALITY = 90;
+
+const ORIENTATION_TAG = 0x0112;
+const ORIENTATION_WORKER_PATH = path.join(__dirname, 'orientationWorker.js');
+
+// EXIF tags in the first directory, reported by what they reveal
+const EXIF_TAG_LABELS: Record<number, string> = {
+  0x8825: 'GPS location',
+  0x010f: 'camera make and model',
+  0x0110: 'camera make and model',
+  0x8769: 'camera settings and capture time',
+  0x0132: 'date and time',
+  0x013b: 'author',
+  0x8298: 'copyright',
+  0x0131: 'software',
+  0x010e: 'description'
+};
+
+// GIF application extensions that control playback rather than describe the image
+const GIF_PLAYBACK_EXTENSIONS = ['NETSCAPE2.0', 'ANIMEXTS1.0'];
+
+export interface ImportOptions {
+  // Longest side allowed, in pixels; larger JPEG and PNG images are scaled down. 0 keeps full size.
+  maxDimension: number;
+}
+
+export interface ImportedImage {
+  data: Buffer;
+  mimeType: string;
+  report: ImageImportReport;
+}
+
+// Pixels to reorient, as 32-bit RGBA values in rows
+export interface OrientationRequest {
+  bitmap: Uint8Array;
+  width: number;
+  height: number;
+  orientation: number;
+}
+
+interface MetadataFound {
+  labels: Set<string>;
+  orientation: number;
+}
+
+const startsWithText = (data: Buffer, text: string, offset = 0) =>
+  data.toString('latin1', offset, offset + text.length) === text;
+
+// Reads the first directory of a TIFF-structured EXIF block. A truncated block reports what was read.
+const readExif = (tiff: Buffer, found: MetadataFound) => {
+  found.labels.add('EXIF data');
+  try {
+    const littleEndian = startsWithText(tiff, 'II');
+    const readUInt16 = (offset: number) => littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+    const readUInt32 = (offset: number) => littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+    const directory = readUInt32(4);
+    const count = readUInt16(directory);
+    for (let i = 0; i < count; i++) {
+      const entry = directory + 2 + i * 12;
+      const tag = readUInt16(entry);
+      if (tag === ORIENTATION_TAG) {
+        const orientation = readUInt16(entry + 8);
+        found.orientation = orientation >= 1 && orientation <= 8 ? orientation : 1;
+      }
+      const label = EXIF_TAG_LABELS[tag];
+      if (label) {
+        found.labels.add(label);
+      }
+    }
+  } catch (error) {
+    // Truncated EXIF block
+  }
+};
+
+const inspectJpeg = (data: Buffer): MetadataFound => {
+  const found: MetadataFound = { labels: new Set(), orientation: 1 };
+
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // Image data starts at the start-of-scan marker; no metadata segments follow it
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+
+    const length = data.readUInt16BE(offset + 2);
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1 && startsWithText(segment, 'Exif\0\0')) {
+      readExif(segment.subarray(6), found);
+    } else if (marker === 0xe1 && startsWithText(segment, 'http://ns.adobe.com/xap/1.0/')) {
+      found.labels.add('XMP metadata');
+    } else if (marker === 0xe2 && startsWithText(segment, 'ICC_PROFILE')) {
+      found.labels.add('color profile');
+    } else if (marker === 0xed) {
+      found.labels.add('IPTC metadata');
+    } else if (marker === 0xfe) {
+      found.labels.add('comment');
+    }
+    offset += 2 + length;
+  }
+
+  return found;
+};
+
+const inspectPng = (data: Buffer): MetadataFound => {
+  const found: MetadataFound = { labels: new Set(), orientation: 1 };
+
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'eXIf') {
+      readExif(body, found);
+    } else if (type === 'iTXt' && startsWithText(body, 'XML:com.adobe.xmp')) {
+      found.labels.add('XMP metadata');
+    } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      found.labels.add('text metadata');
+    } else if (type === 'tIME') {
+      found.labels.add('modification time');
+    } else if (type === 'iCCP') {
+      found.labels.add('color profile');
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  return found;
+};
+
+// Rearranges the pixels for EXIF orientations 2-8 so the image displays upright without them.
+// A large photo has millions of pixels, so they are moved on a worker thread.
+const applyOrientation = (image: NativeImage, orientation: number): Promise<NativeImage> => {
+  const { width, height } = image.getSize();
+  // Copy into a fresh buffer so it can be transferred and read as aligned 32-bit pixels
+  const bitmap = new Uint8Array(image.toBitmap());
+  const request: OrientationRequest = { bitmap, width, height, orientation };
+  const transposed = orientation >= 5;
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(ORIENTATION_WORKER_PATH);
+    worker.once('message', (oriented: Uint8Array) => {
+      resolve(nativeImage.createFromBitmap(Buffer.from(oriented.buffer, oriented.byteOffset, oriented.byteLength), {
+        width: transposed ? height : width,
+        height: transposed ? width : height
+      }));
+      worker.terminate().catch(() => undefined);
+    });
+    worker.once('error', reject);
+    // Only settles the promise if the worker stopped without answering
+    worker.once('exit', () => reject(new Error('Orientation worker exited')));
+    worker.postMessage(request, [bitmap.buffer]);
+  });
+};
+
+const reencode = async (data: Buffer, mimeType: string, found: MetadataFound, options: ImportOptions): Promise<ImportedImage> => {
+  let image = nativeImage.createFromBuffer(data);
+  if (image.isEmpty()) {
+    throw new ImageImportError('The image could not be read');
+  }
+
+  const report: ImageImportReport = { removedMetadata: [...found.labels], metadataChecked: true };
+
+  // Scale first so there are fewer pixels to reorient; the longest side is the same either way
+  const { width, height } = image.getSize();
+  const longestSide = Math.max(width, height);
+  if (options.maxDimension > 0 && longestSide > options.maxDimension) {
+    const scale = options.maxDimension / longestSide;
+    image = image.resize({
+      width: Math.max(1, Math.round(width * scale)),
+      height: Math.max(1, Math.round(height * scale)),
+      quality: 'best'
+    });
+    report.resizedFrom = { width, height };
+  }
+
+  if (found.orientation !== 1) {
+    image = await applyOrientation(image, found.orientation);
+    report.appliedOrientation = found.orientation;
+  }
+
+  return {
+    data: mimeType === 'image/jpeg' ? image.toJPEG(JPEG_QUALITY) : image.toPNG(),
+    mimeType,
+    report
+  };
+};
+
+const stripWebp = (data: Buffer): ImportedImage => {
+  const found: MetadataFound = { labels: new Set(), orientation: 1 };
+  const kept: Buffer[] = [];
+
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const type = data.toString('latin1', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    // Chunks are padded to an even length
+    const end = Math.min(data.length, offset + 8 + size + (size % 2));
+    const body = data.subarray(offset + 8, offset + 8 + size);
+
+    if (type === 'EXIF') {
+      readExif(startsWithText(body, 'Exif\0\0') ? body.subarray(6) : body, found);
+    } else if (type === 'XMP ') {
+      found.labels.add('XMP metadata');
+    } else if (type === 'VP8X') {
+      // Clear the flags announcing EXIF and XMP chunks
+      const chunk = Buffer.from(data.subarray(offset, end));
+      chunk[8] = (chunk[8] ?? 0) & ~0x0c;
+      kept.push(chunk);
+    } else {
+      kept.push(data.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const body = Buffer.concat(kept);
+  const header = Buffer.from('RIFF\0\0\0\0WEBP', 'latin1');
+  header.writeUInt32LE(4 + body.length, 4);
+
+  return {
+    data: Buffer.concat([header, body]),
+    mimeType: 'image/webp',
+    report: { removedMetadata: [...found.labels], metadataChecked: true }
+  };
+};
+
+const stripGif = (data: Buffer): ImportedImage => {
+  const labels = new Set<string>();
+
+  // Sub-blocks end at a zero-length block; returns the offset after it
+  const skipSubBlocks = (start: number) => {
+    let offset = start;
+    while (offset < data.length && data[offset] !== 0) {
+      offset += (data[offset] ?? 0) + 1;
+    }
+    return offset + 1;
+  };
+
+  // Header and logical screen descriptor, followed by the global color table if there is one
+  const screenFlags = data[10] ?? 0;
+  let offset = 13 + (screenFlags & 0x80 ? 3 * (2 << (screenFlags & 0x07)) : 0);
+  const kept: Buffer[] = [data.subarray(0, offset)];
+
+  while (offset < data.length) {
+    const introducer = data[offset];
+    if (introducer === 0x3b) {
+      kept.push(data.subarray(offset, offset + 1));
+      break;
+    }
+
+    if (introducer === 0x21) {
+      const label = data[offset + 1];
+      const end = skipSubBlocks(offset + 2);
+      const identifier = data.toString('latin1', offset + 3, offset + 14);
+
+      if (label === 0xfe) {
+        labels.add('comment');
+      } else if (label === 0xff && !GIF_PLAYBACK_EXTENSIONS.includes(identifier)) {
+        labels.add(identifier.startsWith('XMP Data') ? 'XMP metadata' : 'application data');
+      } else {
+        kept.push(data.subarray(offset, end));
+      }
+      offset = end;
+    } else if (introducer === 0x2c) {
+      // Image descriptor, local color table, LZW code size, then the image data
+      const imageFlags = data[offset + 9] ?? 0;
+      const dataStart = offset + 10 + (imageFlags & 0x80 ? 3 * (2 << (imageFlags & 0x07)) : 0) + 1;
+      const end = skipSubBlocks(dataStart);
+      kept.push(data.subarray(offset, end));
+      offset = end;
+    } else {
+      throw new ImageImportError('The GIF image is damaged');
+    }
+  }
+
+  return {
+    data: Buffer.concat(kept),
+    mimeType: 'image/gif',
+    report: { removedMetadata: [...labels], metadataChecked: true }
+  };
+};
+
+/**
+ * Remove metadata from an image and normalize it for storage.
+ * The type is taken from the image's content, never from its name or a declared MIME type.
+ */
+export async function importImage(data: Buffer, options: ImportOptions): Promise<ImportedImage> {
+  const mimeType = detectImageType(data);
+
+  switch (mimeType) {
+    case 'image/jpeg':
+      return reencode(data, mimeType, inspectJpeg(data), options);
+    case 'image/png':
+      return reencode(data, mimeType, inspectPng(data), options);
+    case 'image/webp':
+      return stripWebp(data);
+    case 'image/gif':
+      return stripGif(data);
+    case 'image/bmp':
+      // Bitmaps have nowhere to keep metadata
+      return { data, mimeType, report: { removedMetadata: [], metadataChecked: true } };
+    case 'image/avif':
+      // Stored unchanged - its metadata cannot be inspected here
+      return { data, mimeType, report: { removedMetadata: [], metadataChecked: false } };
+    default:
+      throw new ImageImportError('Only PNG, JPEG, GIF, WebP, BMP and AVIF images can be added');
+  }
+}
@@ -0,0 +1,282 @@
+// Image files and the temenos-img:// protocol that serves them
+// Image items hold only metadata. The image itself is stored next to the item as an encrypted
+// blob, `<id>.image.bin`, with a downscaled copy in `<id>.thumb.bin`. The renderer loads both
+// through temenos-img://images/<id> and temenos-img://images/<id>/thumbnail, decrypted per request.
+import { nativeImage, protocol } from 'electron';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readBlob, writeBlob, StorageKeys, BLOB_SUFFIX, TEMP_SUFFIX } from './storage';
+import { ITEM_ID_PATTERN } from './shared/validation';
+
+// How long a remote image may take to download
+const REMOTE_IMAGE_TIMEOUT_MS = 30 * 1000;
+
+export const IMAGE_PROTOCOL = 'temenos-img';
+
+// Thumbnails are scaled down to this width; narrower images keep their size
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_JPEG_QUALITY = 80;
+
+export type ImageVariant = 'image' | 'thumbnail';
+
+/**
+ * The MIME types of an image's stored files
+ */
+export interface ImageFileTypes {
+  type: string;
+  // Absent when no thumbnail could be made; the full image is served in its place
+  thumbnailType?: string;
+}
+
+export interface ImageFile {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface RemoteImage extends ImageFile {
+  // File name taken from the URL
+  name: string;
+}
+
+/**
+ * Thrown when a remote image cannot be imported, with a message that can be shown to the user
+ */
+export class ImageImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageImportError';
+  }
+}
+
+const getImageFilePath = (dirPath: string, id: string, variant: ImageVariant) =>
+  path.join(dirPath, `${id}.${variant === 'image' ? 'image' : 'thumb'}${BLOB_SUFFIX}`);
+
+/**
+ * URL the renderer loads an image from
+ */
+export function getImageUrl(id: string): string {
+  return `${IMAGE_PROTOCOL}://images/${id}`;
+}
+
+/**
+ * URL the renderer loads an image's thumbnail from
+ */
+export function getThumbnailUrl(id: string): string {
+  return `${IMAGE_PROTOCOL}://images/${id}/thumbnail`;
+}
+
+// Returns null for formats nativeImage cannot decode
+const createThumbnail = (data: Buffer, mimeType: string): ImageFile | null => {
+  const image = nativeImage.createFromBuffer(data);
+  if (image.isEmpty()) {
+    return null;
+  }
+
+  const { width } = image.getSize();
+  const thumbnail = width > THUMBNAIL_WIDTH ? image.resize({ width: THUMBNAIL_WIDTH, quality: 'good' }) : image;
+
+  // PNG keeps transparency; photos are far smaller as JPEG
+  if (mimeType === 'image/jpeg') {
+    return { data: thumbnail.toJPEG(THUMBNAIL_JPEG_QUALITY), mimeType: 'image/jpeg' };
+  }
+  return { data: thumbnail.toPNG(), mimeType: 'image/png' };
+};
+
+const hasBytes = (data: Buffer, offset: number, bytes: number[] | string) =>
+  data.subarray(offset, offset + bytes.length).equals(typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes));
+
+/**
+ * Identify an image by its leading bytes, returning its MIME type or null for anything else
+ */
+export function detectImageType(data: Buffer): string | null {
+  if (hasBytes(data, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (hasBytes(data, 0, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (hasBytes(data, 0, 'GIF87a') || hasBytes(data, 0, 'GIF89a')) return 'image/gif';
+  if (hasBytes(data, 0, 'RIFF') && hasBytes(data, 8, 'WEBP')) return 'image/webp';
+  if (hasBytes(data, 0, 'BM')) return 'image/bmp';
+  if (hasBytes(data, 4, 'ftypavif') || hasBytes(data, 4, 'ftypavis')) return 'image/avif';
+  return null;
+}
+
+// Reads the body, giving up as soon as it passes maxBytes rather than after downloading it all
+const readLimitedBody = async (response: Response, maxBytes: number): Promise<Buffer> => {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks);
+    }
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new ImageImportError(`The image is larger than ${Math.round(maxBytes / (1024 * 1024))}MB`);
+    }
+    chunks.push(value);
+  }
+};
+
+/**
+ * Download an image, checking its size and that its content really is an image
+ */
+export async function fetchRemoteImage(url: string, maxBytes: number): Promise<RemoteImage> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    throw new ImageImportError('The image URL is not valid');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ImageImportError('Only http and https image URLs can be imported');
+  }
+
+  let data: Buffer;
+  try {
+    const response = await fetch(parsed, { signal: AbortSignal.timeout(REMOTE_IMAGE_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new ImageImportError(`The image could not be downloaded (HTTP ${response.status})`);
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > maxBytes) {
+      throw new ImageImportError(`The image is larger than ${Math.round(maxBytes / (1024 * 1024))}MB`);
+    }
+
+    data = await readLimitedBody(response, maxBytes);
+  } catch (error) {
+    if (error instanceof ImageImportError) {
+      throw error;
+    }
+    throw new ImageImportError('The image could not be downloaded');
+  }
+
+  // The server's Content-Type is not trusted - only the bytes decide what is stored
+  const mimeType = detectImageType(data);
+  if (!mimeType) {
+    throw new ImageImportError('The URL does not point to a PNG, JPEG, GIF, WebP, BMP or AVIF image');
+  }
+
+  return { data, mimeType, name: path.posix.basename(parsed.pathname) || parsed.hostname };
+}
+
+/**
+ * Encrypt and store an image and a thumbnail generated from it
+ */
+export async function storeImageFiles(
+  dirPath: string,
+  id: string,
+  data: Buffer,
+  mimeType: string,
+  keys: StorageKeys
+): Promise<ImageFileTypes> {
+  await fs.mkdir(dirPath, { recursive: true });
+  await writeBlob(getImageFilePath(dirPath, id, 'image'), data, keys);
+
+  let thumbnail: ImageFile | null = null;
+  try {
+    thumbnail = createThumbnail(data, mimeType);
+  } catch (error) {
+    console.error('Failed to create thumbnail:', id, error);
+  }
+
+  if (!thumbnail) {
+    return { type: mimeType };
+  }
+  await writeBlob(getImageFilePath(dirPath, id, 'thumbnail'), thumbnail.data, keys);
+  return { type: mimeType, thumbnailType: thumbnail.mimeType };
+}
+
+/**
+ * Read and decrypt one of an image's files
+ */
+export async function readImageFile(
+  dirPath: string,
+  id: string,
+  variant: ImageVariant,
+  types: ImageFileTypes,
+  keys: StorageKeys
+): Promise<ImageFile> {
+  if (variant === 'thumbnail' && types.thumbnailType) {
+    return { data: await readBlob(getImageFilePath(dirPath, id, 'thumbnail'), keys), mimeType: types.thumbnailType };
+  }
+  return { data: await readBlob(getImageFilePath(dirPath, id, 'image'), keys), mimeType: types.type };
+}
+
+/**
+ * Delete an image's files. Missing files are ignored.
+ */
+export async function deleteImageFiles(dirPath: string, id: string): Promise<void> {
+  for (const variant of ['image', 'thumbnail'] as const) {
+    const filePath = getImageFilePath(dirPath, id, variant);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}${TEMP_SUFFIX}`, { force: true });
+  }
+}
+
+/**
+ * Move an image's files to another directory, under another id. Files that are already gone are
+ * skipped, so an interrupted move can be repeated.
+ */
+export async function moveImageFiles(fromDir: string, fromId: string, toDir: string, toId: string): Promise<void> {
+  await fs.mkdir(toDir, { recursive: true });
+  for (const variant of ['image', 'thumbnail'] as const) {
+    try {
+      await fs.rename(getImageFilePath(fromDir, fromId, variant), getImageFilePath(toDir, toId, variant));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Register the image scheme as standard and secure. Must be called before the app is ready.
+ */
+export function registerImageScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    { scheme: IMAGE_PROTOCOL, privileges: { standard: true, secure: true, supportFetchAPI: true } }
+  ]);
+}
+
+const notFound = () => new Response('Not found', { status: 404 });
+
+/**
+ * Serve temenos-img:// requests. `resolve` loads the requested file, throwing if it
+ * does not exist or the vault is locked.
+ */
+export function handleImageProtocol(resolve: (id: string, variant: ImageVariant) => Promise<ImageFile>): void {
+  protocol.handle(IMAGE_PROTOCOL, async (request) => {
+    const url = new URL(request.url);
+    const [id, variantName, ...rest] = url.pathname.split('/').filter(Boolean);
+    if (url.hostname !== 'images' || !id || !ITEM_ID_PATTERN.test(id) || rest.length > 0) {
+      return notFound();
+    }
+    if (variantName !== undefined && variantName !== 'thumbnail') {
+      return notFound();
+    }
+
+    try {
+      const file = await resolve(id, variantName === 'thumbnail' ? 'thumbnail' : 'image');
+      return new Response(new Uint8Array(file.data), {
+        headers: {
+          // Only image types are served as-is so stored files can never render as a page
+          'Content-Type': file.mimeType.startsWith('image/') ? file.mimeType : 'application/octet-stream',
+          'Content-Length': String(file.data.length),
+          // Decrypted images must not be written to the disk cache
+          'Cache-Control': 'no-store',
+          'X-Content-Type-Options': 'nosniff'
+        }
+      });
+    } catch (error) {
+      return notFound();
+    }
+  });
+}
@@ -0,0 +1,98 @@
+// Validation for IPC requests from the renderer
+// Every handler is registered through handleChannel, which checks the sending frame
+// and each argument against the channel contract before the handler runs.
+// Nothing a handler receives is unchecked.
+import { ipcMain, IpcMainInvokeEvent, WebContents } from 'electron';
+import { ipcRequests, IpcChannel, IpcRequest, IpcResponse, IpcEvent, IpcEvents } from './shared/ipcContract';
+import { FieldValidationError, Validator } from './shared/validation';
+
+/**
+ * Thrown when a request's arguments do not match the channel's schema
+ */
+export class IpcValidationError extends Error {
+  constructor(channel: string, detail: string) {
+    super(`Invalid request to ${channel}: ${detail}`);
+    this.name = 'IpcValidationError';
+  }
+}
+
+/**
+ * Thrown when a request comes from a frame other than the app's own top-level page
+ */
+export class IpcSenderError extends Error {
+  constructor(channel: string) {
+    super(`Rejected request to ${channel} from an untrusted sender`);
+    this.name = 'IpcSenderError';
+  }
+}
+
+let allowedOrigins: string[] = [];
+
+/**
+ * Set the origins the app's own page is served from
+ */
+export function configureIpcValidation(origins: string[]): void {
+  allowedOrigins = origins;
+}
+
+const assertTrustedSender = (event: IpcMainInvokeEvent, channel: string) => {
+  const frame = event.senderFrame;
+
+  // Only the top-level page may call handlers - never an iframe or a frame that has gone away
+  if (!frame || frame.parent !== null) {
+    throw new IpcSenderError(channel);
+  }
+
+  let origin: string;
+  try {
+    origin = new URL(frame.url).origin;
+  } catch (error) {
+    throw new IpcSenderError(channel);
+  }
+
+  if (!allowedOrigins.includes(origin)) {
+    throw new IpcSenderError(channel);
+  }
+};
+
+/**
+ * Register the handler for a channel. The sender and arguments are checked before it runs,
+ * and its result must match the channel's response type.
+ */
+export function handleChannel<C extends IpcChannel>(
+  channel: C,
+  handler: (event: IpcMainInvokeEvent, ...args: IpcRequest<C>) => Promise<IpcResponse<C>>
+): void {
+  const validators: readonly Validator<unknown>[] = ipcRequests[channel];
+
+  ipcMain.handle(channel, async (event, ...rawArgs: unknown[]) => {
+    assertTrustedSender(event, channel);
+
+    if (rawArgs.length > validators.length) {
+      throw new IpcValidationError(channel, `expected at most ${validators.length} arguments`);
+    }
+
+    let args: unknown[];
+    try {
+      args = validators.map((validator, index) => validator(rawArgs[index], `argument ${index + 1}`));
+    } catch (error) {
+      if (error instanceof FieldValidationError) {
+        throw new IpcValidationError(channel, error.message);
+      }
+      throw error;
+    }
+
+    return handler(event, ...(args as IpcRequest<C>));
+  });
+}
+
+/**
+ * Push an event to the renderer
+ */
+export function sendIpcEvent<E extends IpcEvent>(
+  contents: WebContents | undefined,
+  event: E,
+  ...payload: IpcEvents[E] extends void ? [] : [IpcEvents[E]]
+): void {
+  contents?.send(event, ...payload);
+}
@@ -0,0 +1,205 @@
+// Per-directory index of item summaries
+// List views read summaries from `.index.json` instead of decrypting every item. The index is
+// encrypted and written like an item, updated on every save and delete, and reconciled with
+// the directory listing when first loaded so items written without it are picked up.
+import * as path from 'path';
+import { readItem, writeItem, listItemIds, StorageKeys, READ_CONCURRENCY } from './storage';
+
+export const INDEX_FILE = '.index.json';
+// Bump when a summary's shape changes so existing indexes are rebuilt
+const INDEX_VERSION = 2;
+
+/**
+ * The fields every summary needs for ordering and paging
+ */
+export interface IndexedSummary {
+  id: string;
+  lastModified: string;
+}
+
+/**
+ * Builds the summary stored in the index from a full item
+ */
+export type Summarize<S extends IndexedSummary> = (item: any) => S;
+
+export interface IndexPage<S> {
+  items: S[];
+  // Pass back to get the next page; null when this was the last one
+  nextCursor: string | null;
+}
+
+interface IndexFile {
+  version: typeof INDEX_VERSION;
+  entries: Record<string, IndexedSummary>;
+}
+
+// Loaded indexes, keyed by directory. Cleared when the vault locks.
+const loadedIndexes = new Map<string, Map<string, IndexedSummary>>();
+// Bumped on clear, so a load that was already running when the vault locked is not cached
+let cacheGeneration = 0;
+
+// Index operations for each directory run one at a time so concurrent saves cannot drop entries
+const pendingOperations = new Map<string, Promise<unknown>>();
+
+const serialize = <T>(dirPath: string, operation: () => Promise<T>): Promise<T> => {
+  const previous = pendingOperations.get(dirPath) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(operation);
+  pendingOperations.set(dirPath, next);
+  return next;
+};
+
+const writeIndex = async (dirPath: string, entries: Map<string, IndexedSummary>, keys: StorageKeys) => {
+  const file: IndexFile = { version: INDEX_VERSION, entries: Object.fromEntries(entries) };
+  // The index can always be rebuilt from the items, so no backup is kept
+  await writeItem(path.join(dirPath, INDEX_FILE), file, keys, { keepBackup: false });
+};
+
+const loadIndex = async (
+  dirPath: string,
+  keys: StorageKeys,
+  summarize: Summarize<IndexedSummary>
+): Promise<Map<string, IndexedSummary>> => {
+  const loaded = loadedIndexes.get(dirPath);
+  if (loaded) {
+    return loaded;
+  }
+  const generation = cacheGeneration;
+
+  let entries = new Map<string, IndexedSummary>();
+  try {
+    const file = await readItem<IndexFile>(path.join(dirPath, INDEX_FILE), keys);
+    if (file.version === INDEX_VERSION) {
+      entries = new Map(Object.entries(file.entries));
+    }
+  } catch (error) {
+    // Missing or unreadable - rebuilt from the items below
+  }
+
+  let ids: string[];
+  try {
+    ids = await listItemIds(dirPath);
+  } catch (error) {
+    // Missing directory - nothing to index
+    ids = [];
+  }
+
+  // Drop entries for items that are gone and summarize items the index does not know about
+  const present = new Set(ids);
+  let changed = false;
+  for (const id of entries.keys()) {
+    if (!present.has(id)) {
+      entries.delete(id);
+      changed = true;
+    }
+  }
+
+  const missing = ids.filter(id => !entries.has(id));
+  for (let i = 0; i < missing.length; i += READ_CONCURRENCY) {
+    const batch = missing.slice(i, i + READ_CONCURRENCY);
+    await Promise.all(batch.map(async (id) => {
+      try {
+        const item = await readItem(path.join(dirPath, `${id}.json`), keys);
+        entries.set(id, summarize(item));
+        changed = true;
+      } catch (error) {
+        console.error('Failed to index item:', id, error);
+      }
+    }));
+  }
+
+  if (changed) {
+    await writeIndex(dirPath, entries, keys);
+  }
+
+  if (generation === cacheGeneration) {
+    loadedIndexes.set(dirPath, entries);
+  }
+  return entries;
+};
+
+// Newest first, with the id breaking ties so the order is stable across pages
+const compareSummaries = (a: IndexedSummary, b: IndexedSummary) => {
+  const byDate = new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime();
+  return byDate !== 0 ? byDate : a.id.localeCompare(b.id);
+};
+
+// A cursor is the position of the last summary returned: its lastModified and id
+const encodeCursor = (summary: IndexedSummary) => `${summary.lastModified}|${summary.id}`;
+
+const decodeCursor = (cursor: string): IndexedSummary | null => {
+  const separator = cursor.lastIndexOf('|');
+  if (separator < 0) {
+    return null;
+  }
+  return { lastModified: cursor.slice(0, separator), id: cursor.slice(separator + 1) };
+};
+
+/**
+ * List summaries newest first. Without a limit every summary is returned in one page.
+ */
+export function listIndexed<S extends IndexedSummary>(
+  dirPath: string,
+  keys: StorageKeys,
+  summarize: Summarize<S>,
+  options: { cursor?: string | undefined; limit?: number | undefined } = {}
+): Promise<IndexPage<S>> {
+  return serialize(dirPath, async () => {
+    const entries = await loadIndex(dirPath, keys, summarize);
+    let sorted = [...entries.values()].sort(compareSummaries);
+
+    const after = options.cursor ? decodeCursor(options.cursor) : null;
+    if (after) {
+      sorted = sorted.filter(summary => compareSummaries(summary, after) > 0);
+    }
+
+    if (options.limit === undefined || sorted.length <= options.limit) {
+      return { items: sorted as S[], nextCursor: null };
+    }
+
+    const items = sorted.slice(0, Math.max(1, Math.floor(options.limit)));
+    const last = items[items.length - 1];
+    return { items: items as S[], nextCursor: last ? encodeCursor(last) : null };
+  });
+}
+
+/**
+ * Add or replace an item's summary after it has been saved
+ */
+export function updateIndexed<S extends IndexedSummary>(
+  dirPath: string,
+  keys: StorageKeys,
+  summarize: Summarize<S>,
+  item: unknown
+): Promise<void> {
+  return serialize(dirPath, async () => {
+    const entries = await loadIndex(dirPath, keys, summarize);
+    const summary = summarize(item);
+    entries.set(summary.id, summary);
+    await writeIndex(dirPath, entries, keys);
+  });
+}
+
+/**
+ * Remove an item's summary after it has been deleted
+ */
+export function removeIndexed<S extends IndexedSummary>(
+  dirPath: string,
+  keys: StorageKeys,
+  summarize: Summarize<S>,
+  id: string
+): Promise<void> {
+  return serialize(dirPath, async () => {
+    const entries = await loadIndex(dirPath, keys, summarize);
+    if (entries.delete(id)) {
+      await writeIndex(dirPath, entries, keys);
+    }
+  });
+}
+
+/**
+ * Forget loaded indexes so no summaries stay in memory while the vault is locked
+ */
+export function clearIndexCache(): void {
+  loadedIndexes.clear();
+  cacheGeneration++;
+}
@@ -1,7 +1,17 @@
-import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron';
+import { app, BrowserWindow, dialog, shell, powerMonitor } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { encrypt, decrypt } from './encryption';
+import { encryptWithKeyInPool, decryptWithKeyInPool, clearCryptoPoolCaches, shutdownCryptoPool } from './cryptoPool';
+import { readItem, writeItem, writeFileAtomic, StorageKeys } from './storage';
+import { listIndexed, updateIndexed, removeIndexed, clearIndexCache, IndexPage, Summarize } from './itemIndex';
+import { configureIpcValidation, handleChannel, sendIpcEvent } from './ipcValidation';
+import { importImage, ImportedImage } from './imageImport';
+import { HISTORY_DIRECTORY, recordSnapshot, listSnapshots, readSnapshot, deleteHistory, clearHistoryCache, SnapshotSource } from './narrativeHistory';
+import { TRASH_DIRECTORY, TrashRecord, getTrashEntryId, moveToTrash, restoreFromTrash, purgeFromTrash } from './trash';
+import { getProviders, readProviderSettings, listModels, resolveModel, LlmProvider } from './providers';
+import { IMAGE_PROTOCOL, getImageUrl, getThumbnailUrl, storeImageFiles, readImageFile, deleteImageFiles, moveImageFiles, registerImageScheme, handleImageProtocol, fetchRemoteImage, ImageImportError, ImageVariant, ImageFile } from './images';
+import { Narrative, Context, SystemPrompt, Image, Conversation, ModelRegistryEntry, modelRegistry, ItemSummary, ConversationSummary, NarrativeSummary, ImageSummary, TrashSummary, TrashItemType, PageOptions, MAX_IMAGE_BYTES, MAX_IMAGE_UPLOAD_BYTES } from './shared/ipcContract';
+import { configureVault, isVaultInitialized, isVaultUnlocked, setupVault, unlockVault, lockVault, getVaultKey, onVaultLocked, hasPendingRotation, resumeKeyRotation, changePassphrase, recoverVault, RotationOptions } from './vault';
 import * as dotenv from 'dotenv';
 import * as https from 'https';
 import * as http from 'http';
@@ -26,24 +36,144 @@ let mainWindow: BrowserWindow | null = null;
 const isDev = process.env['NODE_ENV'] === 'development' || !app.isPackaged;
 
 // Proper resource path handling for data
-const getDataPath = (dataDir: string) => {
+const getDataRoot = () => {
   if (app.isPackaged) {
-    // In production: ~/Library/Application Support/temenos-electron/data/{dataDir}
+    // In production: ~/Library/Application Support/temenos-electron/data
     const userDataPath = app.getPath('userData');
-    return path.join(userDataPath, 'data', dataDir);
+    return path.join(userDataPath, 'data');
   } else {
-    // In development: /Users/rit/Desktop/code/2025/temenos-electron/data/{dataDir}
-    return path.join(process.cwd(), 'data', dataDir);
+    // In development: /Users/rit/Desktop/code/2025/temenos-electron/data
+    return path.join(process.cwd(), 'data');
   }
 };
 
+const getDataPath = (dataDir: string) => path.join(getDataRoot(), dataDir);
+
+// Item directories under the data root
+const DATA_TYPES = ['narratives', 'contexts', 'conversations', 'system-prompts', 'images', TRASH_DIRECTORY, HISTORY_DIRECTORY];
+
+// Read the user config file, returning an empty object if it is missing or invalid
+const readUserConfig = async (): Promise<Record<string, any>> => {
+  try {
+    const userConfigPath = path.join(app.getPath('userData'), 'config.json');
+    if (await fs.access(userConfigPath).then(() => true).catch(() => false)) {
+      const configContent = await fs.readFile(userConfigPath, 'utf-8');
+      return JSON.parse(configContent);
+    }
+  } catch (error) {
+    // Silent error handling
+  }
+  return {};
+};
+
+// Password that items were encrypted with before the vault existed.
+// Only used to migrate those items to the vault key.
+const getLegacyEncryptionPassword = async (): Promise<string> => {
+  const userConfig = await readUserConfig();
+  return process.env['ENCRYPTION_PASSWORD'] || userConfig['ENCRYPTION_PASSWORD'] || 'default-password-change-me';
+};
+
+// Providers the chat can use, with API keys from the environment or the user config file,
+// and the model registry from the user config file
+const getModelSetup = async (): Promise<{ providers: LlmProvider[]; registry: ModelRegistryEntry[] }> => {
+  const userConfig = await readUserConfig();
+  const setting = (name: string): string | undefined => process.env[name] || userConfig[name] || undefined;
+
+  let registry: ModelRegistryEntry[] = [];
+  try {
+    registry = modelRegistry(userConfig['models'] ?? [], 'models');
+  } catch (error) {
+    // Silent error handling - a registry that does not validate is ignored
+  }
+
+  return {
+    providers: getProviders(await readProviderSettings(setting)),
+    registry
+  };
+};
+
+// Change the model registry in the user config file, keeping its other settings as they are.
+// Unlike readUserConfig this refuses a config file or registry it cannot read, so nothing in it
+// is written over; other entries are written back untouched.
+const updateModelRegistry = async (update: (entries: unknown[]) => unknown[]) => {
+  const userConfigPath = path.join(app.getPath('userData'), 'config.json');
+
+  let userConfig: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(userConfigPath, 'utf-8'));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+    userConfig = parsed as Record<string, unknown>;
+  } catch (error) {
+    if (!(error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT')) {
+      throw new Error('config.json could not be read - fix config.json first');
+    }
+  }
+
+  const entries = userConfig['models'] ?? [];
+  try {
+    modelRegistry(entries, 'models');
+  } catch (error) {
+    throw new Error(`The model registry in config.json is invalid (${error instanceof Error ? error.message : 'Unknown error'}) - fix config.json first`);
+  }
+
+  await writeFileAtomic(userConfigPath, JSON.stringify({ ...userConfig, models: update(entries as unknown[]) }, null, 2));
+};
+
+// Whether a registry entry, as stored, is for the given provider and model
+const isRegistryEntryFor = (entry: unknown, provider: string, model: string) =>
+  (entry as ModelRegistryEntry).provider === provider && (entry as ModelRegistryEntry).model === model;
+
+// Keys for reading and writing items - throws while the vault is locked
+const getStorageKeys = (): StorageKeys => ({
+  key: getVaultKey(),
+  resolveLegacyPassword: getLegacyEncryptionPassword
+});
+
+// Key rotation re-encrypts every item directory and reports progress to the renderer
+const getRotationOptions = (): RotationOptions => ({
+  onProgress: (progress) => {
+    sendIpcEvent(mainWindow?.webContents, 'vault-rotation-progress', progress);
+  },
+  resolveLegacyPassword: getLegacyEncryptionPassword
+});
+
+// Auto-lock the vault after the configured idle period or when the system suspends
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const AUTO_LOCK_CHECK_INTERVAL_MS = 30 * 1000;
+
+const setupAutoLock = () => {
+  setInterval(async () => {
+    if (!isVaultUnlocked()) return;
+
+    const userConfig = await readUserConfig();
+    const autoLockMinutes = typeof userConfig['autoLockMinutes'] === 'number'
+      ? userConfig['autoLockMinutes']
+      : DEFAULT_AUTO_LOCK_MINUTES;
+
+    // 0 disables idle locking
+    if (autoLockMinutes > 0 && powerMonitor.getSystemIdleTime() >= autoLockMinutes * 60) {
+      lockVault();
+    }
+  }, AUTO_LOCK_CHECK_INTERVAL_MS);
+
+  powerMonitor.on('suspend', () => lockVault());
+  powerMonitor.on('lock-screen', () => lockVault());
+
+  onVaultLocked(() => {
+    clearCryptoPoolCaches();
+    clearIndexCache();
+    clearHistoryCache();
+    sendIpcEvent(mainWindow?.webContents, 'vault-locked');
+  });
+};
+
 // Initialize data directories
 const initializeDataDirectories = async () => {
 
   
-  const dataTypes = ['narratives', 'contexts', 'conversations', 'system-prompts', 'images'];
-  
-  for (const dataType of dataTypes) {
+  for (const dataType of DATA_TYPES) {
     const dataPath = getDataPath(dataType);
     try {
       await fs.mkdir(dataPath, { recursive: true });
@@ -81,8 +211,7 @@ const migrateDataFromDevelopment = async () => {
     // Migrating data from development to production
     
     // Copy all data directories
-    const dataTypes = ['narratives', 'contexts', 'conversations', 'system-prompts', 'images'];
-    for (const dataType of dataTypes) {
+    for (const dataType of DATA_TYPES) {
       const sourcePath = path.join(devDataPath, dataType);
       const targetPath = path.join(prodDataPath, dataType);
       
@@ -212,180 +341,449 @@ function createWindow(): void {
   });
 }
 
+// Imported images are scaled down to fit this many pixels on their longest side unless
+// `maxImageDimension` in config.json says otherwise (0 keeps full resolution)
+const DEFAULT_MAX_IMAGE_DIMENSION = 4096;
+
+const getMaxImageDimension = async (): Promise<number> => {
+  const userConfig = await readUserConfig();
+  return typeof userConfig['maxImageDimension'] === 'number'
+    ? userConfig['maxImageDimension']
+    : DEFAULT_MAX_IMAGE_DIMENSION;
+};
+
+// Images uploaded before they were stored as files hold their data inline as a base64 data URL
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.*)$/;
+
+// Summaries kept in each type's index for list views
+const summarizeItem = (item: any): ItemSummary => ({
+  id: item.id,
+  title: item.title ?? '',
+  created: item.created ?? '',
+  lastModified: item.lastModified ?? item.created ?? ''
+});
+
+const summarizeConversation = (item: any): ConversationSummary => ({
+  ...summarizeItem(item),
+  messageCount: item.messageCount ?? (Array.isArray(item.messages) ? item.messages.length : 0)
+});
+
+const summarizeNarrative = (item: any): NarrativeSummary => {
+  const summary: NarrativeSummary = {
+    ...summarizeItem(item),
+    characterCount: typeof item.content === 'string' ? item.content.length : 0
+  };
+  if (item.preferredMode === 'draft' || item.preferredMode === 'main') {
+    summary.preferredMode = item.preferredMode;
+  }
+  return summary;
+};
+
+// Uploaded images, including ones still stored inline, are listed by their temenos-img:// URLs
+const summarizeImage = (item: any): ImageSummary => {
+  const isUploaded = typeof item.url !== 'string' || DATA_URL_PATTERN.test(item.url) || item.url.startsWith(`${IMAGE_PROTOCOL}:`);
+  const url = isUploaded ? getImageUrl(item.id) : item.url;
+  return { ...summarizeItem(item), url, thumbnailUrl: isUploaded ? getThumbnailUrl(item.id) : url };
+};
+
+const summarizeTrashRecord = (record: TrashRecord<any>): TrashSummary => ({
+  id: getTrashEntryId(record.type, record.id),
+  itemId: record.id,
+  type: record.type as TrashItemType,
+  title: record.item?.title ?? '',
+  created: record.item?.created ?? '',
+  // Sorts the trash by when items were deleted
+  lastModified: record.deletedAt,
+  deletedAt: record.deletedAt
+});
+
+// A directory of items, with the label used in error messages and how to summarize its items
+interface ItemCollection<S extends ItemSummary> {
+  dataDir: string;
+  label: string;
+  summarize: Summarize<S>;
+}
+
+const CONVERSATIONS: ItemCollection<ConversationSummary> = { dataDir: 'conversations', label: 'conversation', summarize: summarizeConversation };
+const NARRATIVES: ItemCollection<NarrativeSummary> = { dataDir: 'narratives', label: 'narrative', summarize: summarizeNarrative };
+const CONTEXTS: ItemCollection<ItemSummary> = { dataDir: 'contexts', label: 'context', summarize: summarizeItem };
+const SYSTEM_PROMPTS: ItemCollection<ItemSummary> = { dataDir: 'system-prompts', label: 'system-prompt', summarize: summarizeItem };
+const IMAGES: ItemCollection<ImageSummary> = { dataDir: 'images', label: 'image', summarize: summarizeImage };
+const TRASH: ItemCollection<TrashSummary> = { dataDir: TRASH_DIRECTORY, label: 'trash item', summarize: summarizeTrashRecord };
+
+// Each collection's label is the type its items are recorded under in the trash
+const TRASH_COLLECTIONS: Record<TrashItemType, ItemCollection<any>> = {
+  'conversation': CONVERSATIONS,
+  'narrative': NARRATIVES,
+  'system-prompt': SYSTEM_PROMPTS,
+  'context': CONTEXTS,
+  'image': IMAGES
+};
+
+// Shared implementations behind the per-type item handlers
+const getItemPath = (dataDir: string, id: string) => path.join(getDataPath(dataDir), `${id}.json`);
+
+const listItems = async <S extends ItemSummary>(
+  collection: ItemCollection<S>,
+  options: PageOptions = {}
+): Promise<IndexPage<S>> => {
+  try {
+    return await listIndexed(getDataPath(collection.dataDir), getStorageKeys(), collection.summarize, options);
+  } catch (error) {
+    // Only a collection that has no directory yet is empty; a locked vault refuses the listing
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { items: [], nextCursor: null };
+    }
+    throw error;
+  }
+};
+
+const getItem = async <T>(collection: ItemCollection<ItemSummary>, id: string): Promise<T> => {
+  try {
+    return await readItem<T>(getItemPath(collection.dataDir, id), getStorageKeys());
+  } catch (error) {
+    throw new Error(`${collection.label} not found`);
+  }
+};
+
+// Write an item and record its summary in the index
+const storeItem = async <S extends ItemSummary>(collection: ItemCollection<S>, item: { id: string }): Promise<void> => {
+  const keys = getStorageKeys();
+  await fs.mkdir(getDataPath(collection.dataDir), { recursive: true });
+  await writeItem(getItemPath(collection.dataDir, item.id), item, keys);
+  await updateIndexed(getDataPath(collection.dataDir), keys, collection.summarize, item);
+};
+
+// Returns the saved item's title
+const saveItem = async <S extends ItemSummary>(
+  collection: ItemCollection<S>,
+  id: string,
+  data: { title?: string | undefined; created?: string | undefined }
+): Promise<string> => {
+  try {
+    const now = new Date().toISOString();
+    const item = {
+      ...data,
+      id,
+      lastModified: now,
+      created: data.created || now
+    };
+
+    await storeItem(collection, item);
+    return data.title || id;
+  } catch (error) {
+    throw new Error(`Failed to save ${collection.label}`);
+  }
+};
+
+// Deleted items go to the trash, where they can be restored until they are purged
+const removeItem = async <S extends ItemSummary>(collection: ItemCollection<S>, id: string): Promise<void> => {
+  try {
+    const keys = getStorageKeys();
+    const trashPath = getDataPath(TRASH.dataDir);
+    const record = await moveToTrash(getItemPath(collection.dataDir, id), trashPath, collection.label, id, keys);
+    if (collection.dataDir === IMAGES.dataDir) {
+      await moveImageFiles(getDataPath(IMAGES.dataDir), id, trashPath, getTrashEntryId(collection.label, id));
+    }
+    await removeIndexed(getDataPath(collection.dataDir), keys, collection.summarize, id);
+    await updateIndexed(trashPath, keys, TRASH.summarize, record);
+  } catch (error) {
+    throw new Error(`Failed to delete ${collection.label}`);
+  }
+};
+
+const restoreItem = async (type: TrashItemType, id: string): Promise<void> => {
+  const collection = TRASH_COLLECTIONS[type];
+  try {
+    const keys = getStorageKeys();
+    const trashPath = getDataPath(TRASH.dataDir);
+    const entryId = getTrashEntryId(type, id);
+    // Files first: if this stops part way, the trash entry is still there to restore again
+    if (collection.dataDir === IMAGES.dataDir) {
+      await moveImageFiles(trashPath, entryId, getDataPath(IMAGES.dataDir), id);
+    }
+    await fs.mkdir(getDataPath(collection.dataDir), { recursive: true });
+    const item = await restoreFromTrash(trashPath, getItemPath(collection.dataDir, id), type, id, keys);
+    await updateIndexed(getDataPath(collection.dataDir), keys, collection.summarize, item);
+    await removeIndexed(trashPath, keys, TRASH.summarize, entryId);
+  } catch (error) {
+    throw new Error(`Failed to restore ${collection.label}`);
+  }
+};
+
+const purgeItem = async (type: TrashItemType, id: string): Promise<void> => {
+  try {
+    const keys = getStorageKeys();
+    const trashPath = getDataPath(TRASH.dataDir);
+    const entryId = getTrashEntryId(type, id);
+    await purgeFromTrash(trashPath, type, id);
+    await deleteImageFiles(trashPath, entryId);
+    if (type === 'narrative') {
+      await deleteHistory(getDataPath(HISTORY_DIRECTORY), id);
+    }
+    await removeIndexed(trashPath, keys, TRASH.summarize, entryId);
+  } catch (error) {
+    throw new Error(`Failed to purge ${TRASH_COLLECTIONS[type].label}`);
+  }
+};
+
+// Narratives are snapshotted on save at most every `snapshotIntervalMinutes` from config.json
+// (0 leaves only the snapshots the editor asks for when typing pauses)
+const DEFAULT_SNAPSHOT_INTERVAL_MINUTES = 10;
+
+const recordPeriodicSnapshot = async (id: string, narrative: Omit<SnapshotSource, 'id'>) => {
+  const userConfig = await readUserConfig();
+  const intervalMinutes = typeof userConfig['snapshotIntervalMinutes'] === 'number'
+    ? userConfig['snapshotIntervalMinutes']
+    : DEFAULT_SNAPSHOT_INTERVAL_MINUTES;
+  if (intervalMinutes <= 0) {
+    return;
+  }
+
+  await recordSnapshot(getDataPath(HISTORY_DIRECTORY), { ...narrative, id }, getStorageKeys(), {
+    minIntervalMs: intervalMinutes * 60 * 1000
+  });
+};
+
+// Items stay in the trash for `trashRetentionDays` from config.json (0 keeps them until purged by hand)
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const purgeExpiredTrash = async (): Promise<void> => {
+  const userConfig = await readUserConfig();
+  const retentionDays = typeof userConfig['trashRetentionDays'] === 'number'
+    ? userConfig['trashRetentionDays']
+    : DEFAULT_TRASH_RETENTION_DAYS;
+  if (retentionDays <= 0 || !isVaultUnlocked()) {
+    return;
+  }
+
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const { items } = await listItems(TRASH);
+  for (const entry of items) {
+    if (new Date(entry.deletedAt).getTime() < cutoff) {
+      await purgeItem(entry.type, entry.itemId).catch(error => console.error('Failed to purge expired item:', entry.id, error));
+    }
+  }
+};
+
+const setupTrashPurge = () => {
+  setInterval(() => {
+    purgeExpiredTrash().catch(error => console.error('Failed to purge trash:', error));
+  }, TRASH_PURGE_INTERVAL_MS);
+};
+
+// Healing requests still generating, by request id, so they can be cancelled
+const healingRequests = new Map<string, AbortController>();
+
+// Inline images are moved into image files the first time they are loaded.
+// Loads of the same image share one migration.
+const imageMigrations = new Map<string, Promise<Image>>();
+
+const migrateInlineImage = async (image: Image, mimeType: string, data: string, keys: StorageKeys): Promise<Image> => {
+  const bytes = Buffer.from(data, 'base64');
+  const types = await storeImageFiles(getDataPath(IMAGES.dataDir), image.id, bytes, mimeType, keys);
+  const migrated: Image = {
+    ...image,
+    url: getImageUrl(image.id),
+    thumbnailUrl: getThumbnailUrl(image.id),
+    metadata: { name: image.metadata?.name ?? image.title, size: bytes.length, ...types }
+  };
+  await storeItem(IMAGES, migrated);
+  return migrated;
+};
+
+const loadImage = async (id: string, keys: StorageKeys): Promise<Image> => {
+  const image = await readItem<Image>(getItemPath(IMAGES.dataDir, id), keys);
+  const match = DATA_URL_PATTERN.exec(image.url);
+  if (!match) {
+    return image;
+  }
+
+  let migration = imageMigrations.get(id);
+  if (!migration) {
+    const [, mimeType = '', data = ''] = match;
+    migration = migrateInlineImage(image, mimeType, data, keys).finally(() => imageMigrations.delete(id));
+    imageMigrations.set(id, migration);
+  }
+  return migration;
+};
+
+// Loads the file behind a temenos-img:// request; throws while the vault is locked
+const resolveImageFile = async (id: string, variant: ImageVariant): Promise<ImageFile> => {
+  const keys = getStorageKeys();
+  const image = await loadImage(id, keys);
+  if (!image.metadata || !image.url.startsWith(`${IMAGE_PROTOCOL}:`)) {
+    throw new Error('Image has no stored file');
+  }
+  return readImageFile(getDataPath(IMAGES.dataDir), id, variant, image.metadata, keys);
+};
+
 // Setup all IPC handlers for data operations
 function setupIPCHandlers(): void {
-  // Generic CRUD handler factory
-  const createCRUDHandlers = (dataType: string, dataDir: string) => {
-    // Get all items
-    ipcMain.handle(`get-${dataType}`, async () => {
-      try {
-        const dataPath = getDataPath(dataDir);
-
-        
-        const files = await fs.readdir(dataPath);
-        const items = [];
-        
-        for (const file of files) {
-          if (file.endsWith('.json')) {
-            const filePath = path.join(dataPath, file);
-            const content = await fs.readFile(filePath, 'utf-8');
-            const item = JSON.parse(content);
-            items.push(item);
-          }
-        }
-        
+  // Only the app's own page may call handlers
+  configureIpcValidation([isDev ? 'http://localhost:3000' : 'http://localhost:3001']);
 
-        
-        // Return in the format expected by the frontend
-        if (dataType === 'system-prompts') {
-          return { prompts: items.sort((a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()) };
-        } else if (dataType === 'narratives') {
-          return { narratives: items.sort((a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()) };
-        } else if (dataType === 'contexts') {
-          return { contexts: items.sort((a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()) };
-        } else if (dataType === 'images') {
-          return { images: items.sort((a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()) };
-        } else {
-          return { [dataType]: items.sort((a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()) };
-        }
+  // Narratives, contexts, system prompts and images
+  const createItemHandlers = () => {
+    handleChannel('get-narratives', async (event, options) => {
+      const { items, nextCursor } = await listItems(NARRATIVES, options);
+      return { narratives: items, nextCursor };
+    });
+    handleChannel('get-narrative', (event, id) => getItem<Narrative>(NARRATIVES, id));
+    handleChannel('save-narrative', async (event, id, data) => {
+      const title = await saveItem(NARRATIVES, id, data);
+      // A failed snapshot must not fail the save
+      recordPeriodicSnapshot(id, data).catch(error => console.error('Failed to snapshot narrative:', error));
+      return { success: true, narrativeId: id, title };
+    });
+    handleChannel('delete-narrative', async (event, id) => {
+      await removeItem(NARRATIVES, id);
+      return { success: true };
+    });
+    handleChannel('get-narrative-history', async (event, id) => {
+      try {
+        return { snapshots: await listSnapshots(getDataPath(HISTORY_DIRECTORY), id, getStorageKeys()) };
       } catch (error) {
-        return { [dataType]: [] };
+        throw new Error('Failed to load narrative history');
       }
     });
-
-    // Get single item
-    ipcMain.handle(`get-${dataType.slice(0, -1)}`, async (event, id: string) => {
+    handleChannel('get-narrative-snapshot', async (event, id, snapshotId) => {
       try {
-        const dataPath = getDataPath(dataDir);
-        const filePath = path.join(dataPath, `${id}.json`);
-        const content = await fs.readFile(filePath, 'utf-8');
-        return JSON.parse(content);
+        return await readSnapshot(getDataPath(HISTORY_DIRECTORY), id, snapshotId, getStorageKeys());
       } catch (error) {
-        throw new Error(`${dataType.slice(0, -1)} not found`);
+        throw new Error('Snapshot not found');
       }
     });
-
-    // Save item
-    ipcMain.handle(`save-${dataType.slice(0, -1)}`, async (event, id: string, data: any) => {
+    handleChannel('snapshot-narrative', async (event, id) => {
+      const narrative = await getItem<Narrative>(NARRATIVES, id);
       try {
-        const dataPath = getDataPath(dataDir);
-        await fs.mkdir(dataPath, { recursive: true });
-        
-        const now = new Date().toISOString();
-        const item = {
-          id,
-          ...data,
-          lastModified: now,
-          created: data.created || now
-        };
-        
-        const filePath = path.join(dataPath, `${id}.json`);
-        await fs.writeFile(filePath, JSON.stringify(item, null, 2));
-        
-
-        
-        return { 
-          success: true, 
-          [`${dataType.slice(0, -1)}Id`]: id, 
-          title: data.title || id 
-        };
+        await recordSnapshot(getDataPath(HISTORY_DIRECTORY), narrative, getStorageKeys());
+        return { success: true };
       } catch (error) {
-        throw new Error(`Failed to save ${dataType.slice(0, -1)}`);
+        throw new Error('Failed to snapshot narrative');
       }
     });
 
-    // Delete item
-    ipcMain.handle(`delete-${dataType.slice(0, -1)}`, async (event, id: string) => {
+    handleChannel('get-contexts', async (event, options) => {
+      const { items, nextCursor } = await listItems(CONTEXTS, options);
+      return { contexts: items, nextCursor };
+    });
+    handleChannel('get-context', (event, id) => getItem<Context>(CONTEXTS, id));
+    handleChannel('save-context', async (event, id, data) => ({
+      success: true,
+      contextId: id,
+      title: await saveItem(CONTEXTS, id, data)
+    }));
+    handleChannel('delete-context', async (event, id) => {
+      await removeItem(CONTEXTS, id);
+      return { success: true };
+    });
+
+    handleChannel('get-system-prompts', async (event, options) => {
+      const { items, nextCursor } = await listItems(SYSTEM_PROMPTS, options);
+      return { prompts: items, nextCursor };
+    });
+    handleChannel('get-system-prompt', (event, id) => getItem<SystemPrompt>(SYSTEM_PROMPTS, id));
+    handleChannel('save-system-prompt', async (event, id, data) => ({
+      success: true,
+      promptId: id,
+      title: await saveItem(SYSTEM_PROMPTS, id, data)
+    }));
+    handleChannel('delete-system-prompt', async (event, id) => {
+      await removeItem(SYSTEM_PROMPTS, id);
+      return { success: true };
+    });
+
+    handleChannel('get-images', async (event, options) => {
+      const { items, nextCursor } = await listItems(IMAGES, options);
+      return { images: items, nextCursor };
+    });
+    handleChannel('get-image', async (event, id) => {
       try {
-        const dataPath = getDataPath(dataDir);
-        const filePath = path.join(dataPath, `${id}.json`);
-        await fs.unlink(filePath);
-        return { success: true };
+        return await loadImage(id, getStorageKeys());
       } catch (error) {
-        throw new Error(`Failed to delete ${dataType.slice(0, -1)}`);
+        throw new Error('image not found');
+      }
+    });
+    handleChannel('save-image', async (event, id, data) => ({
+      success: true,
+      imageId: id,
+      title: await saveItem(IMAGES, id, data)
+    }));
+    handleChannel('delete-image', async (event, id) => {
+      await removeItem(IMAGES, id);
+      return { success: true };
+    });
+
+    handleChannel('get-trash', async (event, options) => {
+      const { items, nextCursor } = await listItems(TRASH, options);
+      return { items, nextCursor };
+    });
+    handleChannel('restore-trash-item', async (event, type, id) => {
+      await restoreItem(type, id);
+      return { success: true };
+    });
+    handleChannel('purge-trash-item', async (event, type, id) => {
+      await purgeItem(type, id);
+      return { success: true };
+    });
+    handleChannel('empty-trash', async () => {
+      const { items } = await listItems(TRASH);
+      for (const entry of items) {
+        await purgeItem(entry.type, entry.itemId);
       }
+      return { success: true };
     });
   };
 
   // Special handlers for specific data types
   const createSpecialHandlers = () => {
     // Conversations - special handling for messages
-    ipcMain.handle('get-conversations', async () => {
-      try {
-        const dataPath = getDataPath('conversations');
-
-        
-        await fs.mkdir(dataPath, { recursive: true });
-        
-        const files = await fs.readdir(dataPath);
-        const conversations = [];
-        
-        for (const file of files) {
-          if (file.endsWith('.json')) {
-            const filePath = path.join(dataPath, file);
-            const content = await fs.readFile(filePath, 'utf-8');
-            const conversation = JSON.parse(content);
-            conversations.push(conversation);
-          }
-        }
-        
-        // Sort by last modified (newest first)
-        const sortedConversations = conversations.sort((a, b) => 
-          new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()
-        );
-        
-        return { conversations: sortedConversations };
-      } catch (error) {
-        return { conversations: [] };
-      }
+    handleChannel('get-conversations', async (event, options) => {
+      // Summaries only, newest first - messages are loaded when a conversation is opened
+      const { items, nextCursor } = await listItems(CONVERSATIONS, options);
+      return { conversations: items, nextCursor };
     });
 
-    ipcMain.handle('get-conversation', async (event, id: string) => {
+    handleChannel('get-conversation', async (event, id) => {
       try {
         const dataPath = getDataPath('conversations');
         const filePath = path.join(dataPath, `${id}.json`);
-        const content = await fs.readFile(filePath, 'utf-8');
-        const conversation = JSON.parse(content);
-        
-        return conversation;
+        return await readItem<Conversation>(filePath, getStorageKeys());
       } catch (error) {
         throw new Error(`Conversation not found: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     });
 
-    ipcMain.handle('delete-conversation', async (event, id: string) => {
+    handleChannel('delete-conversation', async (event, id) => {
       try {
-        const dataPath = getDataPath('conversations');
-        const filePath = path.join(dataPath, `${id}.json`);
-        await fs.unlink(filePath);
-        
+        await removeItem(CONVERSATIONS, id);
         return { success: true };
       } catch (error) {
         throw new Error(`Failed to delete conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     });
 
-    ipcMain.handle('save-conversation', async (event, id: string, messages: any[]) => {
+    handleChannel('save-conversation', async (event, id, messages) => {
       try {
         const dataPath = getDataPath('conversations');
         console.log('💾 Saving conversation to path:', dataPath);
         
-        await fs.mkdir(dataPath, { recursive: true });
-        
         const now = new Date().toISOString();
-        const title = messages.length > 0 ? messages[0].content.slice(0, 50) + '...' : 'New Conversation';
+        const firstMessage = messages[0];
+        const title = firstMessage ? firstMessage.content.slice(0, 50) + '...' : 'New Conversation';
         
-        const conversation = {
+        const conversation: Conversation = {
           id,
           title,
-          messages,
+          messages: messages.map(({ role, content, interrupted }) => ({ role, content, ...(interrupted ? { interrupted } : {}) })),
           created: now,
           lastModified: now,
           messageCount: messages.length
         };
         
-        const filePath = path.join(dataPath, `${id}.json`);
-        await fs.writeFile(filePath, JSON.stringify(conversation, null, 2));
+        await storeItem(CONVERSATIONS, conversation);
         
         return { success: true, conversationId: id, title };
       } catch (error) {
@@ -393,159 +791,160 @@ function setupIPCHandlers(): void {
       }
     });
 
-    // Images - special handling for file uploads
-    ipcMain.handle('upload-image', async (event, imageData: any) => {
+    // Images - uploaded files and images imported from a URL are stored as encrypted image files with a thumbnail
+    handleChannel('upload-image', async (event, imageData) => {
+      const id = `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const now = new Date().toISOString();
+      const imagesPath = getDataPath(IMAGES.dataDir);
+
+      // Metadata is stripped and the image normalized before anything is written
+      let source: { name: string; sourceUrl?: string };
+      let imported: ImportedImage;
       try {
-        const dataPath = getDataPath('images');
-        await fs.mkdir(dataPath, { recursive: true });
-        
-        const id = `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        const now = new Date().toISOString();
-        
-        let imageUrl = '';
+        let data: Buffer;
         if (imageData.imageFile) {
-          // Save base64 image data
-          const imagePath = path.join(dataPath, `${id}.json`);
-          const imageItem = {
-            id,
-            title: imageData.title,
-            created: now,
-            lastModified: now,
-            url: `data:${imageData.imageFile.type};base64,${imageData.imageFile.data}`,
-            metadata: {
-              name: imageData.imageFile.name,
-              type: imageData.imageFile.type,
-              size: imageData.imageFile.size
-            }
-          };
-          await fs.writeFile(imagePath, JSON.stringify(imageItem, null, 2));
-          imageUrl = imageItem.url;
+          const file = imageData.imageFile.data;
+          source = { name: imageData.imageFile.name };
+          data = Buffer.from(file.buffer, file.byteOffset, file.byteLength);
         } else if (imageData.imageUrl) {
-          imageUrl = imageData.imageUrl;
+          // Remote images are downloaded so they stay available offline
+          const remote = await fetchRemoteImage(imageData.imageUrl, MAX_IMAGE_UPLOAD_BYTES);
+          source = { name: remote.name, sourceUrl: imageData.imageUrl };
+          data = remote.data;
+        } else {
+          return { success: false, error: 'No image file or URL was given' };
         }
-        
-        const image = {
+
+        imported = await importImage(data, { maxDimension: await getMaxImageDimension() });
+        if (imported.data.length > MAX_IMAGE_BYTES) {
+          throw new ImageImportError('The image is larger than 10MB even after processing; lower maxImageDimension to add it');
+        }
+      } catch (error) {
+        return { success: false, error: error instanceof ImageImportError ? error.message : 'Failed to import image' };
+      }
+
+      try {
+        const types = await storeImageFiles(imagesPath, id, imported.data, imported.mimeType, getStorageKeys());
+        const image: Image = {
           id,
           title: imageData.title,
           created: now,
           lastModified: now,
-          url: imageUrl
+          url: getImageUrl(id),
+          thumbnailUrl: getThumbnailUrl(id),
+          metadata: {
+            name: source.name,
+            size: imported.data.length,
+            ...types,
+            ...(source.sourceUrl ? { sourceUrl: source.sourceUrl } : {}),
+            import: imported.report
+          }
         };
-        
+        await storeItem(IMAGES, image);
+
         return { success: true, image };
       } catch (error) {
-        throw new Error('Failed to upload image');
+        // Don't leave image files behind without an item
+        await deleteImageFiles(imagesPath, id).catch(() => undefined);
+        return { success: false, error: 'Failed to save image' };
       }
     });
 
     // Healing API - special handling for AI responses
-    ipcMain.handle('send-healing-message', async (event, messages: any[], model: string, systemPrompt: string) => {
+    // The reply is streamed to the sender as healing-message-delta events while it is generated
+    handleChannel('send-healing-message', async (event, requestId, messages, model, systemPrompt) => {
+      const controller = new AbortController();
+      healingRequests.set(requestId, controller);
+      let aiResponse = '';
+      let usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
       try {
-        // Get xAI API key from multiple sources (build-time env vars, runtime config, or user config)
-        let xaiApiKey = process.env['XAI_API_KEY'];
-        
-        // If not in environment, try to load from user config file
-        if (!xaiApiKey) {
-          try {
-            const userConfigPath = path.join(app.getPath('userData'), 'config.json');
-            
-            if (await fs.access(userConfigPath).then(() => true).catch(() => false)) {
-              const configContent = await fs.readFile(userConfigPath, 'utf-8');
-              const userConfig = JSON.parse(configContent);
-              
-              xaiApiKey = xaiApiKey || userConfig.XAI_API_KEY;
-            }
-          } catch (error) {
-            // Silent error handling
-          }
+        const { providers, registry } = await getModelSetup();
+        const resolved = await resolveModel(providers, registry, model);
+        if (!resolved) {
+          throw new Error(`Model '${model}' is not offered by any configured provider`);
         }
-        
-        if (!xaiApiKey) {
-          throw new Error('No xAI API key configured. Please set XAI_API_KEY in your environment or user config.');
-        }
-        
-        console.log('🔑 Final xAI API key status:', xaiApiKey ? 'Available' : 'Missing');
-        
-        let aiResponse = '';
-        let usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
-        
-        // Prepare the conversation context
-        const conversationContext = messages.map(msg => `${msg.role}: ${msg.content}`).join('\n');
-        const fullPrompt = `${systemPrompt}\n\nConversation:\n${conversationContext}\n\nAssistant:`;
-        
-        if ((model === 'grok' || model === 'grok-4-0709') && xaiApiKey) {
-          // Use xAI (Grok) API
-          console.log('🔌 Using xAI (Grok) API...');
-          const response = await fetch('https://api.x.ai/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${xaiApiKey}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-              model: 'grok-4-0709',
-              messages: [
-                { role: 'system', content: systemPrompt },
-                ...messages
-              ],
-              max_tokens: 1000,
-              temperature: 0.7
-            })
-          });
-          
-          if (!response.ok) {
-            throw new Error(`xAI API error: ${response.status} ${response.statusText}`);
+
+        console.log(`🔌 Using ${resolved.provider.name} (${resolved.model.model})...`);
+        const result = await resolved.provider.complete({
+          model: resolved.model.model,
+          settings: resolved.model,
+          systemPrompt,
+          messages,
+          signal: controller.signal,
+          onDelta: delta => {
+            aiResponse += delta;
+            sendIpcEvent(event.sender, 'healing-message-delta', { requestId, delta });
           }
-          
-          const data = await response.json() as any;
-          aiResponse = data.choices[0].message.content;
-          usage = {
-            prompt_tokens: data.usage.prompt_tokens,
-            completion_tokens: data.usage.completion_tokens,
-            total_tokens: data.usage.total_tokens
-          };
-          
-        } else {
-          throw new Error(`Model '${model}' not supported. Supported models: 'grok', 'grok-4-0709'`);
-        }
-        
+        });
+        usage = result.usage;
+
         return {
           response: aiResponse,
           usage
         };
       } catch (error) {
+        // A cancelled request keeps what was generated before it stopped
+        if (controller.signal.aborted) {
+          return { response: aiResponse, usage, interrupted: true };
+        }
         throw new Error(`Failed to send healing message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        healingRequests.delete(requestId);
       }
     });
 
-    // Get image content
-    ipcMain.handle('get-image-content', async (event, id: string) => {
+    handleChannel('cancel-healing-message', async (event, requestId) => {
+      healingRequests.get(requestId)?.abort();
+      return { success: true };
+    });
+
+    handleChannel('list-models', async () => {
+      const { providers, registry } = await getModelSetup();
+      return listModels(providers, registry);
+    });
+
+    handleChannel('list-providers', async () => {
+      const { providers } = await getModelSetup();
+      return providers.map(({ id, name, capabilities }) => ({ id, name, capabilities }));
+    });
+
+    handleChannel('save-model-registry-entry', async (event, entry) => {
       try {
-        const dataPath = getDataPath('images');
-        const filePath = path.join(dataPath, `${id}.json`);
-        const content = await fs.readFile(filePath, 'utf-8');
-        const image = JSON.parse(content);
-        
-        return image;
+        await updateModelRegistry(entries => [
+          ...entries.filter(existing => !isRegistryEntryFor(existing, entry.provider, entry.model)),
+          entry
+        ]);
+        return { success: true };
       } catch (error) {
-        throw new Error(`Image not found: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw new Error(`Failed to save model: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    handleChannel('delete-model-registry-entry', async (event, provider, model) => {
+      try {
+        await updateModelRegistry(entries => entries.filter(entry => !isRegistryEntryFor(entry, provider, model)));
+        return { success: true };
+      } catch (error) {
+        throw new Error(`Failed to delete model: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     });
 
     // Test encryption
-    ipcMain.handle('test-encryption', async () => {
+    handleChannel('test-encryption', async () => {
       try {
         const testData = { message: 'Hello, encryption test!' };
-        const encrypted = await encrypt(JSON.stringify(testData), process.env['ENCRYPTION_PASSWORD'] || 'default-password-change-me');
-        const decrypted = await decrypt(encrypted, process.env['ENCRYPTION_PASSWORD'] || 'default-password-change-me');
-        return { success: true, encrypted, decrypted: JSON.parse(decrypted) };
+        const { key } = getStorageKeys();
+        const encrypted = await encryptWithKeyInPool(Buffer.from(JSON.stringify(testData), 'utf8'), key);
+        const decrypted = (await decryptWithKeyInPool(encrypted, key)).toString('utf8');
+        return { success: true, encrypted: encrypted.toString('base64'), decrypted: JSON.parse(decrypted) };
       } catch (error) {
         return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
       }
     });
 
     // Configuration management
-    ipcMain.handle('get-user-config', async () => {
+    handleChannel('get-user-config', async () => {
       try {
         const userConfigPath = path.join(app.getPath('userData'), 'config.json');
         if (await fs.access(userConfigPath).then(() => true).catch(() => false)) {
@@ -558,10 +957,10 @@ function setupIPCHandlers(): void {
       }
     });
 
-    ipcMain.handle('save-user-config', async (event, config: any) => {
+    handleChannel('save-user-config', async (event, config) => {
       try {
         const userConfigPath = path.join(app.getPath('userData'), 'config.json');
-        await fs.writeFile(userConfigPath, JSON.stringify(config, null, 2));
+        await writeFileAtomic(userConfigPath, JSON.stringify(config, null, 2));
         return { success: true };
       } catch (error) {
         throw new Error(`Failed to save config: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -569,24 +968,94 @@ function setupIPCHandlers(): void {
     });
   };
 
+  // Vault lifecycle
+  const createVaultHandlers = () => {
+    handleChannel('get-vault-status', async () => {
+      return {
+        initialized: await isVaultInitialized(),
+        unlocked: isVaultUnlocked()
+      };
+    });
+
+    handleChannel('setup-vault', async (event, passphrase, recoveryKey) => {
+      try {
+        await setupVault(passphrase, recoveryKey);
+        return { success: true };
+      } catch (error) {
+        throw new Error(`Failed to set up vault: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    handleChannel('unlock-vault', async (event, passphrase) => {
+      try {
+        const unlocked = await unlockVault(passphrase);
+        if (!unlocked) {
+          return { success: false, error: 'Incorrect passphrase' };
+        }
+
+        // Finish a passphrase change that was interrupted before it completed
+        if (hasPendingRotation()) {
+          await resumeKeyRotation(getRotationOptions());
+        }
+
+        purgeExpiredTrash().catch(error => console.error('Failed to purge trash:', error));
+        return { success: true };
+      } catch (error) {
+        if (hasPendingRotation()) {
+          lockVault();
+        }
+        throw new Error(`Failed to unlock vault: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    handleChannel('recover-vault', async (event, recoveryKey, newPassphrase) => {
+      try {
+        const recovered = await recoverVault(recoveryKey, newPassphrase, getRotationOptions());
+        return recovered ? { success: true } : { success: false, error: 'Incorrect recovery key' };
+      } catch (error) {
+        throw new Error(`Failed to recover vault: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    handleChannel('change-vault-passphrase', async (event, currentPassphrase, newPassphrase) => {
+      try {
+        const changed = await changePassphrase(currentPassphrase, newPassphrase, getRotationOptions());
+        return changed ? { success: true } : { success: false, error: 'Incorrect passphrase' };
+      } catch (error) {
+        // An interrupted rotation is resumed on the next unlock
+        if (hasPendingRotation()) {
+          lockVault();
+        }
+        throw new Error(`Failed to change passphrase: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    handleChannel('lock-vault', async () => {
+      lockVault();
+      return { success: true };
+    });
+  };
+
   // Create handlers for all data types
-  createCRUDHandlers('narratives', 'narratives');
-  createCRUDHandlers('contexts', 'contexts');
-  createCRUDHandlers('system-prompts', 'system-prompts');
-  createCRUDHandlers('images', 'images');
-  // Note: conversations handled by special handlers below
-  
-  // Create special handlers
+  createItemHandlers();
   createSpecialHandlers();
+  createVaultHandlers();
 }
 
+// Custom schemes have to be registered before the app is ready
+registerImageScheme();
+
 // This method will be called when Electron has finished initialization
 app.whenReady().then(async () => {
   // Initialize data directories first
   await initializeDataDirectories();
+  configureVault(getDataRoot(), DATA_TYPES);
   
+  handleImageProtocol(resolveImageFile);
   createWindow();
   setupIPCHandlers();
+  setupAutoLock();
+  setupTrashPurge();
 });
 
 // Quit when all windows are closed
@@ -598,6 +1067,10 @@ app.on('window-all-closed', () => {
   }
 });
 
+app.on('will-quit', () => {
+  shutdownCryptoPool();
+});
+
 app.on('activate', () => {
   // On macOS it's common to re-create a window in the app when the
   // dock icon is clicked and there are no other windows open
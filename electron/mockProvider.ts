@@ -0,0 +1,101 @@
+// Mock LLM provider for working on the chat without a network
+// Replies are deterministic: the same conversation always gets the same reply, streamed in the
+// same chunks, with usage worked out from the text. Some models fail on purpose, so error
+// handling can be tried out too.
+
+import type { LlmProvider, ProviderModel } from './providers';
+
+// Pause between streamed chunks, so streaming can be seen
+const CHUNK_DELAY_MS = 30;
+
+// How long the timeout model stalls before failing
+const TIMEOUT_MS = 5000;
+
+const MODEL_SETTINGS = {
+  contextWindow: 8192,
+  maxOutputTokens: 1000,
+  temperature: 0.7,
+  // Synthetic prices, so the cost of a reply is shown
+  pricing: { input: 1, output: 2 }
+};
+
+const MODELS: ProviderModel[] = [
+  { id: 'echo', name: 'Echo', description: 'Repeats the last message', ...MODEL_SETTINGS },
+  { id: 'scripted', name: 'Scripted', description: 'Replies from the mock script, in turn', ...MODEL_SETTINGS },
+  { id: 'rate-limit', name: 'Rate Limit', description: 'Fails as if rate limited', ...MODEL_SETTINGS },
+  { id: 'timeout', name: 'Timeout', description: 'Stalls partway through a reply, then fails', ...MODEL_SETTINGS },
+  { id: 'server-error', name: 'Server Error', description: 'Fails with a server error', ...MODEL_SETTINGS }
+];
+
+// Roughly four characters to a token
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timeout);
+    reject(signal.reason);
+  };
+  const timeout = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+const mockError = (status: number, statusText: string) => new Error(`Mock API error: ${status} ${statusText}`);
+
+/**
+ * A provider that makes up its replies. Scripted replies are taken in turn by the number of user
+ * messages in the conversation, and the echo reply is used when there is no script.
+ */
+export function createMockProvider(script: string[] = []): LlmProvider {
+  return {
+    id: 'mock',
+    name: 'Mock',
+    capabilities: { streaming: true, usage: true },
+
+    async listModels() {
+      return MODELS;
+    },
+
+    async complete({ model, systemPrompt, messages, signal, onDelta }) {
+      if (model === 'rate-limit') throw mockError(429, 'Too Many Requests');
+      if (model === 'server-error') throw mockError(500, 'Internal Server Error');
+
+      const userMessages = messages.filter(message => message.role === 'user');
+      const lastMessage = userMessages[userMessages.length - 1]?.content ?? '';
+      const scripted = model === 'scripted' && script.length > 0
+        ? script[(userMessages.length - 1) % script.length]
+        : undefined;
+      const reply = scripted ?? `Echo: ${lastMessage}`;
+
+      // Words with the whitespace before them, so the chunks join back into the reply
+      const chunks = reply.match(/\s*\S+/g) ?? [];
+      // The timeout model stops halfway
+      const streamed = model === 'timeout' ? chunks.slice(0, Math.ceil(chunks.length / 2)) : chunks;
+
+      let text = '';
+      for (const chunk of streamed) {
+        await wait(CHUNK_DELAY_MS, signal);
+        text += chunk;
+        onDelta(chunk);
+      }
+
+      if (model === 'timeout') {
+        await wait(TIMEOUT_MS, signal);
+        throw new Error('Mock API error: request timed out');
+      }
+
+      const promptTokens = countTokens(systemPrompt) + messages.reduce((total, message) => total + countTokens(message.content), 0);
+      const completionTokens = countTokens(text);
+      return {
+        response: text,
+        usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+      };
+    }
+  };
+}
@@ -0,0 +1,214 @@
+// Version history for narratives
+// Snapshots of a narrative's main and draft text are kept in the history directory, flat so key
+// rotation re-encrypts them like any item:
+//   <narrativeId>.history.json        the list of snapshots, newest first
+//   <narrativeId>.<snapshotId>.json   one snapshot's text
+// Older snapshots are thinned out as they age so history stays bounded.
+import { createHash, randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readItem, writeItem, StorageKeys } from './storage';
+import type { NarrativeSnapshot, NarrativeSnapshotSummary } from './shared/ipcContract';
+
+export const HISTORY_DIRECTORY = 'narrative-history';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Snapshots younger than maxAge are kept at least `spacing` apart
+const RETENTION_TIERS = [
+  { maxAge: DAY_MS, spacing: 0 },
+  { maxAge: 7 * DAY_MS, spacing: HOUR_MS },
+  { maxAge: 90 * DAY_MS, spacing: DAY_MS },
+  { maxAge: Infinity, spacing: 7 * DAY_MS }
+];
+const MAX_SNAPSHOTS = 500;
+
+interface HistoryEntry extends NarrativeSnapshotSummary {
+  // Identifies the text, so a snapshot identical to the latest one is skipped
+  contentHash: string;
+}
+
+interface HistoryFile {
+  snapshots: HistoryEntry[];
+}
+
+export interface SnapshotSource {
+  id: string;
+  title?: string | undefined;
+  content?: string | undefined;
+  draftContent?: string | undefined;
+}
+
+// Loaded histories, keyed by narrative. Cleared when the vault locks.
+const loadedHistories = new Map<string, HistoryEntry[]>();
+// Bumped on clear, so a load that was already running when the vault locked is not cached
+let cacheGeneration = 0;
+
+// Operations on one narrative's history run one at a time
+const pendingOperations = new Map<string, Promise<unknown>>();
+
+const serialize = <T>(key: string, operation: () => Promise<T>): Promise<T> => {
+  const previous = pendingOperations.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(operation);
+  pendingOperations.set(key, next);
+  return next;
+};
+
+const getHistoryPath = (dirPath: string, narrativeId: string) =>
+  path.join(dirPath, `${narrativeId}.history.json`);
+
+const getSnapshotPath = (dirPath: string, narrativeId: string, snapshotId: string) =>
+  path.join(dirPath, `${narrativeId}.${snapshotId}.json`);
+
+const hashContent = (content: string, draftContent: string) =>
+  createHash('sha256').update(JSON.stringify([content, draftContent])).digest('hex');
+
+const loadHistory = async (dirPath: string, narrativeId: string, keys: StorageKeys): Promise<HistoryEntry[]> => {
+  const loaded = loadedHistories.get(narrativeId);
+  if (loaded) {
+    return loaded;
+  }
+  const generation = cacheGeneration;
+
+  let snapshots: HistoryEntry[] = [];
+  try {
+    snapshots = (await readItem<HistoryFile>(getHistoryPath(dirPath, narrativeId), keys)).snapshots;
+  } catch (error) {
+    // No history yet; any other failure must not be mistaken for an empty history and saved over
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  if (generation === cacheGeneration) {
+    loadedHistories.set(narrativeId, snapshots);
+  }
+  return snapshots;
+};
+
+// Returns the snapshots to keep, newest first
+const thinSnapshots = (snapshots: HistoryEntry[], now: number): HistoryEntry[] => {
+  const kept: HistoryEntry[] = [];
+  let lastKept = Infinity;
+
+  for (const snapshot of snapshots) {
+    const time = new Date(snapshot.created).getTime();
+    const age = now - time;
+    const tier = RETENTION_TIERS.find(candidate => age < candidate.maxAge) ?? RETENTION_TIERS[RETENTION_TIERS.length - 1]!;
+    if (lastKept - time >= tier.spacing) {
+      kept.push(snapshot);
+      lastKept = time;
+    }
+  }
+
+  return kept.slice(0, MAX_SNAPSHOTS);
+};
+
+/**
+ * Record a snapshot of a narrative unless its text matches the latest snapshot, or the latest
+ * snapshot is younger than minIntervalMs. Returns the new snapshot, or null if none was taken.
+ */
+export function recordSnapshot(
+  dirPath: string,
+  narrative: SnapshotSource,
+  keys: StorageKeys,
+  options: { minIntervalMs?: number } = {}
+): Promise<NarrativeSnapshotSummary | null> {
+  return serialize(narrative.id, async () => {
+    const content = narrative.content ?? '';
+    const draftContent = narrative.draftContent ?? '';
+    const contentHash = hashContent(content, draftContent);
+    const now = Date.now();
+
+    const snapshots = await loadHistory(dirPath, narrative.id, keys);
+    const latest = snapshots[0];
+    if (latest) {
+      if (latest.contentHash === contentHash) {
+        return null;
+      }
+      if (options.minIntervalMs && now - new Date(latest.created).getTime() < options.minIntervalMs) {
+        return null;
+      }
+    }
+
+    const entry: HistoryEntry = {
+      id: `${now.toString(36)}-${randomBytes(4).toString('hex')}`,
+      created: new Date(now).toISOString(),
+      title: narrative.title ?? '',
+      characterCount: content.length,
+      draftCharacterCount: draftContent.length,
+      contentHash
+    };
+
+    await fs.mkdir(dirPath, { recursive: true });
+    await writeItem(getSnapshotPath(dirPath, narrative.id, entry.id), { content, draftContent }, keys, { keepBackup: false });
+
+    const kept = thinSnapshots([entry, ...snapshots], now);
+    await writeItem(getHistoryPath(dirPath, narrative.id), { snapshots: kept }, keys);
+    loadedHistories.set(narrative.id, kept);
+
+    const keptIds = new Set(kept.map(snapshot => snapshot.id));
+    for (const dropped of snapshots.filter(snapshot => !keptIds.has(snapshot.id))) {
+      // Snapshots are written without backups; one may already be gone if an earlier thinning was cut short
+      await fs.rm(getSnapshotPath(dirPath, narrative.id, dropped.id), { force: true });
+    }
+
+    const { contentHash: _hash, ...summary } = entry;
+    return summary;
+  });
+}
+
+/**
+ * List a narrative's snapshots, newest first
+ */
+export async function listSnapshots(dirPath: string, narrativeId: string, keys: StorageKeys): Promise<NarrativeSnapshotSummary[]> {
+  const snapshots = await serialize(narrativeId, () => loadHistory(dirPath, narrativeId, keys));
+  return snapshots.map(({ contentHash: _hash, ...summary }) => summary);
+}
+
+/**
+ * Read one snapshot with its text
+ */
+export async function readSnapshot(
+  dirPath: string,
+  narrativeId: string,
+  snapshotId: string,
+  keys: StorageKeys
+): Promise<NarrativeSnapshot> {
+  const snapshots = await serialize(narrativeId, () => loadHistory(dirPath, narrativeId, keys));
+  const entry = snapshots.find(snapshot => snapshot.id === snapshotId);
+  if (!entry) {
+    throw new Error('Snapshot not found');
+  }
+
+  const { contentHash: _hash, ...summary } = entry;
+  const text = await readItem<{ content: string; draftContent: string }>(getSnapshotPath(dirPath, narrativeId, snapshotId), keys);
+  return { ...summary, content: text.content, draftContent: text.draftContent };
+}
+
+/**
+ * Delete a narrative's whole history
+ */
+export function deleteHistory(dirPath: string, narrativeId: string): Promise<void> {
+  return serialize(narrativeId, async () => {
+    loadedHistories.delete(narrativeId);
+    let files: string[];
+    try {
+      files = await fs.readdir(dirPath);
+    } catch (error) {
+      return;
+    }
+    // Narrative ids cannot contain '.', so the prefix matches only this narrative's files
+    for (const file of files.filter(name => name.startsWith(`${narrativeId}.`))) {
+      await fs.rm(path.join(dirPath, file), { force: true });
+    }
+  });
+}
+
+/**
+ * Forget loaded histories
+ */
+export function clearHistoryCache(): void {
+  cacheGeneration++;
+  loadedHistories.clear();
+}
@@ -0,0 +1,35 @@
+// Image orientation worker - runs on its own thread, see applyOrientation in imageImport.ts
+import { parentPort } from 'worker_threads';
+import type { OrientationRequest } from './imageImport';
+
+const orient = ({ bitmap, width, height, orientation }: OrientationRequest) => {
+  const source = new Uint32Array(bitmap.buffer, bitmap.byteOffset, bitmap.byteLength / 4);
+  const target = new Uint32Array(source.length);
+
+  const transposed = orientation >= 5;
+  const targetWidth = transposed ? height : width;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let targetX = x;
+      let targetY = y;
+      switch (orientation) {
+        case 2: targetX = width - 1 - x; break;
+        case 3: targetX = width - 1 - x; targetY = height - 1 - y; break;
+        case 4: targetY = height - 1 - y; break;
+        case 5: targetX = y; targetY = x; break;
+        case 6: targetX = height - 1 - y; targetY = x; break;
+        case 7: targetX = height - 1 - y; targetY = width - 1 - x; break;
+        case 8: targetX = y; targetY = width - 1 - x; break;
+      }
+      target[targetY * targetWidth + targetX] = source[y * width + x] ?? 0;
+    }
+  }
+
+  return target;
+};
+
+parentPort?.once('message', (request: OrientationRequest) => {
+  const target = orient(request);
+  parentPort?.postMessage(new Uint8Array(target.buffer), [target.buffer]);
+});
@@ -1,105 +1,92 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { ElectronAPI, IpcChannel, IpcEvent, IpcInvoker, IpcSubscriber } from './shared/ipcContract';
+
+// The sandboxed preload can only import types, so each method is written out here and
+// checked against the contract by the `satisfies` below
+
+const invoke = <C extends IpcChannel>(channel: C): IpcInvoker<C> =>
+  (...args) => ipcRenderer.invoke(channel, ...args);
+
+const subscribe = <E extends IpcEvent>(event: E): IpcSubscriber<E> => (callback) => {
+  const listener = (_event: Electron.IpcRendererEvent, payload: Parameters<typeof callback>[0]) => callback(payload);
+  ipcRenderer.on(event, listener);
+  return () => {
+    ipcRenderer.removeListener(event, listener);
+  };
+};
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld('electronAPI', {
   // Conversations
-  getConversations: () => ipcRenderer.invoke('get-conversations'),
-  getConversation: (id: string) => ipcRenderer.invoke('get-conversation', id),
-  saveConversation: (id: string, messages: any[]) => ipcRenderer.invoke('save-conversation', id, messages),
-  deleteConversation: (id: string) => ipcRenderer.invoke('delete-conversation', id),
-  
+  getConversations: invoke('get-conversations'),
+  getConversation: invoke('get-conversation'),
+  saveConversation: invoke('save-conversation'),
+  deleteConversation: invoke('delete-conversation'),
+
   // Narratives
-  getNarratives: () => ipcRenderer.invoke('get-narratives'),
-  getNarrative: (id: string) => ipcRenderer.invoke('get-narrative', id),
-  saveNarrative: (id: string, narrative: any) => ipcRenderer.invoke('save-narrative', id, narrative),
-  deleteNarrative: (id: string) => ipcRenderer.invoke('delete-narrative', id),
-  
+  getNarratives: invoke('get-narratives'),
+  getNarrative: invoke('get-narrative'),
+  saveNarrative: invoke('save-narrative'),
+  deleteNarrative: invoke('delete-narrative'),
+  getNarrativeHistory: invoke('get-narrative-history'),
+  getNarrativeSnapshot: invoke('get-narrative-snapshot'),
+  snapshotNarrative: invoke('snapshot-narrative'),
+
   // System Prompts
-  getSystemPrompts: () => ipcRenderer.invoke('get-system-prompts'),
-  getSystemPrompt: (id: string) => ipcRenderer.invoke('get-system-prompt', id),
-  saveSystemPrompt: (id: string, prompt: any) => ipcRenderer.invoke('save-system-prompt', id, prompt),
-  deleteSystemPrompt: (id: string) => ipcRenderer.invoke('delete-system-prompt', id),
-  
+  getSystemPrompts: invoke('get-system-prompts'),
+  getSystemPrompt: invoke('get-system-prompt'),
+  saveSystemPrompt: invoke('save-system-prompt'),
+  deleteSystemPrompt: invoke('delete-system-prompt'),
+
   // Contexts
-  getContexts: () => ipcRenderer.invoke('get-contexts'),
-  getContext: (id: string) => ipcRenderer.invoke('get-context', id),
-  saveContext: (id: string, context: any) => ipcRenderer.invoke('save-context', id, context),
-  deleteContext: (id: string) => ipcRenderer.invoke('delete-context', id),
-  
+  getContexts: invoke('get-contexts'),
+  getContext: invoke('get-context'),
+  saveContext: invoke('save-context'),
+  deleteContext: invoke('delete-context'),
+
   // Images
-  getImages: () => ipcRenderer.invoke('get-images'),
-  getImage: (id: string) => ipcRenderer.invoke('get-image', id),
-  saveImage: (id: string, image: any) => ipcRenderer.invoke('save-image', id, image),
-  deleteImage: (id: string) => ipcRenderer.invoke('delete-image', id),
-  uploadImage: (imageData: any) => ipcRenderer.invoke('upload-image', imageData),
-  getImageContent: (id: string) => ipcRenderer.invoke('get-image-content', id),
-  
+  getImages: invoke('get-images'),
+  getImage: invoke('get-image'),
+  saveImage: invoke('save-image'),
+  deleteImage: invoke('delete-image'),
+  uploadImage: invoke('upload-image'),
+
+  // Trash
+  getTrash: invoke('get-trash'),
+  restoreTrashItem: invoke('restore-trash-item'),
+  purgeTrashItem: invoke('purge-trash-item'),
+  emptyTrash: invoke('empty-trash'),
+
+  // Vault
+  getVaultStatus: invoke('get-vault-status'),
+  setupVault: invoke('setup-vault'),
+  unlockVault: invoke('unlock-vault'),
+  recoverVault: invoke('recover-vault'),
+  lockVault: invoke('lock-vault'),
+  changeVaultPassphrase: invoke('change-vault-passphrase'),
+  onVaultRotationProgress: subscribe('vault-rotation-progress'),
+  onVaultLocked: subscribe('vault-locked'),
+
   // Testing
-  testEncryption: () => ipcRenderer.invoke('test-encryption'),
-  
+  testEncryption: invoke('test-encryption'),
+
   // Healing API
-  sendHealingMessage: (messages: any[], model: string, systemPrompt: string) => ipcRenderer.invoke('send-healing-message', messages, model, systemPrompt),
-  
+  sendHealingMessage: invoke('send-healing-message'),
+  cancelHealingMessage: invoke('cancel-healing-message'),
+  listModels: invoke('list-models'),
+  listProviders: invoke('list-providers'),
+  saveModelRegistryEntry: invoke('save-model-registry-entry'),
+  deleteModelRegistryEntry: invoke('delete-model-registry-entry'),
+  onHealingMessageDelta: subscribe('healing-message-delta'),
+
   // Configuration management
-  getUserConfig: () => ipcRenderer.invoke('get-user-config'),
-  saveUserConfig: (config: any) => ipcRenderer.invoke('save-user-config', config),
-  
+  getUserConfig: invoke('get-user-config'),
+  saveUserConfig: invoke('save-user-config'),
+
   // Platform info
   platform: process.platform,
-  
+
   // App version
   appVersion: process.env['npm_package_version'] || '1.0.0'
-});
-
-// Type definitions for the exposed API
-declare global {
-  interface Window {
-    electronAPI: {
-      // Conversations
-      getConversations: () => Promise<{ conversations: Array<{ id: string; title: string; created: string; lastModified: string; messageCount: number }> }>;
-      getConversation: (id: string) => Promise<any>;
-      saveConversation: (id: string, messages: any[]) => Promise<{ success: boolean; conversationId: string; title: string }>;
-      deleteConversation: (id: string) => Promise<{ success: boolean }>;
-      
-      // Narratives
-      getNarratives: () => Promise<{ narratives: Array<{ id: string; title: string; created: string; lastModified: string; characterCount: number; preferredMode?: string }> }>;
-      getNarrative: (id: string) => Promise<any>;
-      saveNarrative: (id: string, narrative: any) => Promise<{ success: boolean; narrativeId: string; title: string }>;
-      deleteNarrative: (id: string) => Promise<{ success: boolean }>;
-      
-      // System Prompts
-      getSystemPrompts: () => Promise<{ prompts: Array<{ id: string; title: string; created: string; lastModified: string }> }>;
-      getSystemPrompt: (id: string) => Promise<any>;
-      saveSystemPrompt: (id: string, prompt: any) => Promise<{ success: boolean; promptId: string; title: string }>;
-      deleteSystemPrompt: (id: string) => Promise<{ success: boolean }>;
-      
-      // Contexts
-      getContexts: () => Promise<{ contexts: Array<{ id: string; title: string; created: string; lastModified: string }> }>;
-      getContext: (id: string) => Promise<any>;
-      saveContext: (id: string, context: any) => Promise<{ success: boolean; contextId: string; title: string }>;
-      deleteContext: (id: string) => Promise<{ success: boolean }>;
-      
-      // Images
-      getImages: () => Promise<{ images: Array<{ id: string; title: string; created: string; lastModified: string; url: string }> }>;
-      getImage: (id: string) => Promise<any>;
-      saveImage: (id: string, image: any) => Promise<{ success: boolean; imageId: string; title: string }>;
-      deleteImage: (id: string) => Promise<{ success: boolean }>;
-      uploadImage: (imageData: any) => Promise<{ success: boolean; image: any }>;
-      getImageContent: (id: string) => Promise<{ success: boolean; data: string; mimeType: string; size: number }>;
-      
-      // Testing
-      testEncryption: () => Promise<{ success: boolean; message: string }>;
-      
-      // Healing API
-      sendHealingMessage: (messages: any[], model: string, systemPrompt: string) => Promise<any>;
-      
-      // Configuration management
-      getUserConfig: () => Promise<any>;
-      saveUserConfig: (config: any) => Promise<{ success: boolean }>;
-      
-      platform: string;
-      appVersion: string;
-    };
-  }
-}
+} satisfies ElectronAPI);
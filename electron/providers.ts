@@ -0,0 +1,388 @@
+// LLM providers the chat can send messages to
+// Each provider declares its models and what it supports, and streams a reply to a conversation.
+// The model registry in config.json adds models and overrides the settings providers give them.
+// Models are picked by a key of the provider id and the provider's model id, as `provider:model`.
+
+import * as fs from 'fs/promises';
+import { readServerSentEvents } from './sse';
+import { createMockProvider } from './mockProvider';
+import type { ChatRole, CompletionUsage, ModelCapabilities, ModelInfo, ModelRegistryEntry, ModelSettings } from './shared/ipcContract';
+
+// How long to wait for a server to list its models
+const LIST_MODELS_TIMEOUT_MS = 5000;
+
+export interface CompletionRequest {
+  // The provider's own model id
+  model: string;
+  settings: ModelSettings;
+  systemPrompt: string;
+  messages: Array<{ role: ChatRole; content: string }>;
+  signal: AbortSignal;
+  // Called with each piece of the reply as it is generated
+  onDelta: (delta: string) => void;
+}
+
+export interface CompletionResult {
+  response: string;
+  usage: CompletionUsage;
+}
+
+export interface ProviderModel extends ModelSettings {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface LlmProvider {
+  id: string;
+  name: string;
+  capabilities: ModelCapabilities;
+  listModels(): Promise<ProviderModel[]>;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * API keys and endpoints, from the environment or config.json
+ */
+export interface ProviderSettings {
+  xaiApiKey?: string | undefined;
+  openAIBaseUrl?: string | undefined;
+  openAIApiKey?: string | undefined;
+  anthropicApiKey?: string | undefined;
+  // Offer the mock provider, with the replies its scripted model takes in turn
+  mock?: boolean;
+  mockScript?: string[];
+}
+
+const EMPTY_USAGE: CompletionUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+// Replies are kept short unless the registry says otherwise
+const REPLY_SETTINGS = { maxOutputTokens: 1000, temperature: 0.7 };
+
+// For models a server lists that the registry has no entry for
+const DEFAULT_MODEL_SETTINGS: ModelSettings = { contextWindow: 8192, ...REPLY_SETTINGS };
+
+// System prompts go in their own field or message, so only the conversation's turns are sent
+const conversationTurns = (messages: CompletionRequest['messages']) =>
+  messages
+    .filter(message => message.role !== 'system')
+    .map(({ role, content }) => ({ role, content }));
+
+const apiError = (providerName: string, response: Response) =>
+  new Error(`${providerName} API error: ${response.status} ${response.statusText}`);
+
+interface OpenAICompatibleOptions {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey?: string | undefined;
+  // The setting the API key comes from, when the provider cannot be used without one
+  apiKeySetting?: string;
+  capabilities: ModelCapabilities;
+  // Models to offer; without them the server is asked for its models
+  models?: ProviderModel[];
+}
+
+/**
+ * A provider speaking the OpenAI chat completions API, such as xAI, OpenAI, or a local
+ * llama.cpp or Ollama server
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LlmProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {})
+  };
+
+  return {
+    id: options.id,
+    name: options.name,
+    capabilities: options.capabilities,
+
+    async listModels() {
+      if (options.models) return options.models;
+      try {
+        const response = await fetch(`${baseUrl}/models`, { headers, signal: AbortSignal.timeout(LIST_MODELS_TIMEOUT_MS) });
+        if (!response.ok) return [];
+        const body = await response.json() as { data?: Array<{ id?: unknown }> };
+        return (body.data ?? [])
+          .filter((model): model is { id: string } => typeof model.id === 'string')
+          .map(model => ({ id: model.id, name: model.id, description: `${options.name} model`, ...DEFAULT_MODEL_SETTINGS }));
+      } catch (error) {
+        // Silent error handling - an unreachable server has no models to offer
+        return [];
+      }
+    },
+
+    async complete({ model, settings, systemPrompt, messages, signal, onDelta }) {
+      if (options.apiKeySetting && !options.apiKey) {
+        throw new Error(`No ${options.name} API key configured. Please set ${options.apiKeySetting} in your environment or user config.`);
+      }
+
+      const { streaming, usage: reportsUsage } = options.capabilities;
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            ...conversationTurns(messages)
+          ],
+          max_tokens: settings.maxOutputTokens,
+          temperature: settings.temperature,
+          ...(settings.topP !== undefined ? { top_p: settings.topP } : {}),
+          stream: streaming,
+          // Usage arrives in a last chunk with no choices
+          ...(streaming && reportsUsage ? { stream_options: { include_usage: true } } : {})
+        }),
+        signal
+      });
+
+      if (!response.ok || !response.body) {
+        throw apiError(options.name, response);
+      }
+
+      let text = '';
+      let usage = EMPTY_USAGE;
+      const takeUsage = (chunk: any) => {
+        if (chunk.usage) {
+          usage = {
+            prompt_tokens: chunk.usage.prompt_tokens,
+            completion_tokens: chunk.usage.completion_tokens,
+            total_tokens: chunk.usage.total_tokens
+          };
+        }
+      };
+
+      if (!streaming) {
+        const body = await response.json() as any;
+        text = body.choices?.[0]?.message?.content ?? '';
+        if (text) onDelta(text);
+        takeUsage(body);
+        return { response: text, usage };
+      }
+
+      for await (const serverEvent of readServerSentEvents(response.body)) {
+        if (serverEvent.data === '[DONE]') break;
+
+        const chunk = JSON.parse(serverEvent.data) as any;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        takeUsage(chunk);
+      }
+      return { response: text, usage };
+    }
+  };
+}
+
+/**
+ * Anthropic's messages API
+ */
+export function createAnthropicProvider(apiKey: string): LlmProvider {
+  const name = 'Anthropic';
+
+  return {
+    id: 'anthropic',
+    name,
+    capabilities: { streaming: true, usage: true },
+
+    async listModels() {
+      return [
+        { id: 'claude-opus-4-1', name: 'Claude Opus 4.1', description: 'Anthropic\'s most capable model', contextWindow: 200000, ...REPLY_SETTINGS, pricing: { input: 15, output: 75 } },
+        { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', description: 'Anthropic\'s balanced model', contextWindow: 200000, ...REPLY_SETTINGS, pricing: { input: 3, output: 15 } },
+        { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5', description: 'Anthropic\'s fastest model', contextWindow: 200000, ...REPLY_SETTINGS, pricing: { input: 1, output: 5 } }
+      ];
+    },
+
+    async complete({ model, settings, systemPrompt, messages, signal, onDelta }) {
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model,
+          system: systemPrompt,
+          messages: conversationTurns(messages),
+          max_tokens: settings.maxOutputTokens,
+          temperature: settings.temperature,
+          ...(settings.topP !== undefined ? { top_p: settings.topP } : {}),
+          stream: true
+        }),
+        signal
+      });
+
+      if (!response.ok || !response.body) {
+        throw apiError(name, response);
+      }
+
+      let text = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      for await (const serverEvent of readServerSentEvents(response.body)) {
+        const data = JSON.parse(serverEvent.data) as any;
+        switch (serverEvent.event) {
+          case 'message_start':
+            inputTokens = data.message?.usage?.input_tokens ?? 0;
+            break;
+          case 'content_block_delta':
+            if (data.delta?.type === 'text_delta' && data.delta.text) {
+              text += data.delta.text;
+              onDelta(data.delta.text);
+            }
+            break;
+          case 'message_delta':
+            outputTokens = data.usage?.output_tokens ?? outputTokens;
+            break;
+          case 'error':
+            throw new Error(`${name} API error: ${data.error?.message ?? 'Unknown error'}`);
+        }
+        if (serverEvent.event === 'message_stop') break;
+      }
+
+      return {
+        response: text,
+        usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens }
+      };
+    }
+  };
+}
+
+/**
+ * Provider settings from a lookup of the environment and config.json
+ */
+export async function readProviderSettings(setting: (name: string) => string | undefined): Promise<ProviderSettings> {
+  // The mock provider is turned on with MOCK_LLM, and its script is a JSON array of replies
+  const mock = ['1', 'true'].includes(String(setting('MOCK_LLM')).toLowerCase());
+  let mockScript: string[] = [];
+  const mockScriptPath = setting('MOCK_LLM_SCRIPT');
+  if (mock && mockScriptPath) {
+    try {
+      const script: unknown = JSON.parse(await fs.readFile(mockScriptPath, 'utf-8'));
+      mockScript = Array.isArray(script) ? script.filter((reply): reply is string => typeof reply === 'string') : [];
+    } catch (error) {
+      // Silent error handling - without a script the scripted model echoes
+    }
+  }
+
+  return {
+    xaiApiKey: setting('XAI_API_KEY'),
+    openAIBaseUrl: setting('OPENAI_BASE_URL'),
+    openAIApiKey: setting('OPENAI_API_KEY'),
+    anthropicApiKey: setting('ANTHROPIC_API_KEY'),
+    mock,
+    mockScript
+  };
+}
+
+/**
+ * The providers that can be used with the given settings. xAI is always offered, as the default;
+ * the others once they are configured.
+ */
+export function getProviders(settings: ProviderSettings): LlmProvider[] {
+  const providers: LlmProvider[] = [
+    createOpenAICompatibleProvider({
+      id: 'xai',
+      name: 'xAI',
+      baseUrl: 'https://api.x.ai/v1',
+      apiKey: settings.xaiApiKey,
+      apiKeySetting: 'XAI_API_KEY',
+      capabilities: { streaming: true, usage: true },
+      models: [
+        { id: 'grok-3', name: 'Grok 3', description: 'xAI\'s powerful model', contextWindow: 131072, ...REPLY_SETTINGS, pricing: { input: 3, output: 15 } },
+        { id: 'grok-4-0709', name: 'Grok 4', description: 'xAI\'s latest model', contextWindow: 256000, ...REPLY_SETTINGS, pricing: { input: 3, output: 15 } }
+      ]
+    })
+  ];
+
+  if (settings.openAIBaseUrl || settings.openAIApiKey) {
+    providers.push(createOpenAICompatibleProvider({
+      id: 'openai',
+      name: 'OpenAI-compatible',
+      baseUrl: settings.openAIBaseUrl || 'https://api.openai.com/v1',
+      apiKey: settings.openAIApiKey,
+      // Local servers do not all report usage while streaming
+      capabilities: { streaming: true, usage: false }
+    }));
+  }
+
+  if (settings.anthropicApiKey) {
+    providers.push(createAnthropicProvider(settings.anthropicApiKey));
+  }
+
+  if (settings.mock) {
+    providers.push(createMockProvider(settings.mockScript));
+  }
+
+  return providers;
+}
+
+// A provider's model with the registry's settings for it, or a model only the registry has
+const registeredModel = (provider: LlmProvider, entry: ModelRegistryEntry, model?: ProviderModel): ProviderModel => ({
+  id: entry.model,
+  name: entry.name ?? model?.name ?? entry.model,
+  description: entry.description ?? model?.description ?? `${provider.name} model`,
+  contextWindow: entry.contextWindow,
+  maxOutputTokens: entry.maxOutputTokens,
+  temperature: entry.temperature,
+  topP: entry.topP,
+  pricing: entry.pricing
+});
+
+/**
+ * Every model of the given providers and the registry, keyed as `provider:model`. Registry
+ * entries for providers that are not configured are left out.
+ */
+export async function listModels(providers: LlmProvider[], registry: ModelRegistryEntry[]): Promise<ModelInfo[]> {
+  const models = await Promise.all(providers.map(async provider => {
+    const entries = registry.filter(entry => entry.provider === provider.id);
+    const ownModels = await provider.listModels();
+
+    const merged = ownModels.map(model => {
+      const entry = entries.find(candidate => candidate.model === model.id);
+      return { model: entry ? registeredModel(provider, entry, model) : model, registered: Boolean(entry) };
+    });
+    for (const entry of entries) {
+      if (!ownModels.some(model => model.id === entry.model)) {
+        merged.push({ model: registeredModel(provider, entry), registered: true });
+      }
+    }
+
+    return merged.map(({ model, registered }): ModelInfo => ({
+      ...model,
+      id: `${provider.id}:${model.id}`,
+      provider: provider.id,
+      model: model.id,
+      providerName: provider.name,
+      capabilities: provider.capabilities,
+      registered
+    }));
+  }));
+  return models.flat();
+}
+
+/**
+ * The provider and model a model key refers to. A bare model id, as saved before models were
+ * keyed by provider, is looked up among every provider's models.
+ */
+export async function resolveModel(
+  providers: LlmProvider[],
+  registry: ModelRegistryEntry[],
+  key: string
+): Promise<{ provider: LlmProvider; model: ModelInfo } | null> {
+  // Only the provider named by the key is asked for its models
+  const providerId = key.slice(0, Math.max(key.indexOf(':'), 0));
+  const keyProviders = providers.filter(provider => provider.id === providerId);
+  const models = await listModels(keyProviders.length > 0 ? keyProviders : providers, registry);
+
+  const model = models.find(candidate => candidate.id === key) ?? models.find(candidate => candidate.model === key);
+  const provider = model && providers.find(candidate => candidate.id === model.provider);
+  return model && provider ? { provider, model } : null;
+}
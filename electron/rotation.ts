@@ -0,0 +1,146 @@
+// Re-encrypting every stored item under a new data key
+// Items are written to a staging tree and only swapped into place once every directory
+// has been re-encrypted, so an interrupted rotation never leaves live data half-converted.
+//
+// Layout under the data root while a rotation is running:
+//   .rotation/journal.json      rotation state, owned by vault.ts
+//   .rotation/staged/<dir>/     re-encrypted copies of <dir>
+//   .rotation/previous/<dir>/   the original <dir>, moved aside during the swap
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readItem, writeItem, readBlob, writeBlob, StorageKeys, BACKUP_SUFFIX, TEMP_SUFFIX, BLOB_SUFFIX } from './storage';
+
+export const ROTATION_DIRECTORY = '.rotation';
+
+export interface RotationProgress {
+  phase: 'reencrypting' | 'swapping' | 'complete';
+  completed: number;
+  total: number;
+}
+
+const exists = (target: string) => fs.access(target).then(() => true).catch(() => false);
+
+const listFiles = async (dirPath: string): Promise<string[]> => {
+  try {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    // Backups hold data under the old key and are dropped rather than carried over
+    return entries
+      .filter(entry => entry.isFile() && !entry.name.endsWith(BACKUP_SUFFIX) && !entry.name.endsWith(TEMP_SUFFIX))
+      .map(entry => entry.name);
+  } catch (error) {
+    // Missing directory - nothing to re-encrypt
+    return [];
+  }
+};
+
+/**
+ * Get the directory holding rotation state for a data root
+ */
+export function getRotationDirectory(dataRoot: string): string {
+  return path.join(dataRoot, ROTATION_DIRECTORY);
+}
+
+/**
+ * Re-encrypt every item into the staging tree.
+ * Staged files are written atomically, so a file that already exists in staging
+ * was fully written and is skipped on resume.
+ */
+export async function stageReencryptedItems(
+  dataRoot: string,
+  dataDirectories: string[],
+  fromKeys: StorageKeys,
+  toKeys: StorageKeys,
+  onProgress?: (progress: RotationProgress) => void
+): Promise<void> {
+  const stagingRoot = path.join(getRotationDirectory(dataRoot), 'staged');
+
+  const work: Array<{ directory: string; files: string[] }> = [];
+  for (const directory of dataDirectories) {
+    work.push({ directory, files: await listFiles(path.join(dataRoot, directory)) });
+  }
+
+  const total = work.reduce((sum, { files }) => sum + files.length, 0);
+  let completed = 0;
+  onProgress?.({ phase: 'reencrypting', completed, total });
+
+  for (const { directory, files } of work) {
+    const sourceDir = path.join(dataRoot, directory);
+    const stagedDir = path.join(stagingRoot, directory);
+    await fs.mkdir(stagedDir, { recursive: true });
+
+    for (const file of files) {
+      const sourcePath = path.join(sourceDir, file);
+      const stagedPath = path.join(stagedDir, file);
+
+      if (!(await exists(stagedPath))) {
+        let reencrypted = false;
+
+        if (file.endsWith('.json')) {
+          try {
+            const item = await readItem(sourcePath, fromKeys);
+            await writeItem(stagedPath, item, toKeys, { keepBackup: false });
+            reencrypted = true;
+          } catch (error) {
+            console.error('Failed to re-encrypt item, keeping it unchanged:', sourcePath, error);
+          }
+        } else if (file.endsWith(BLOB_SUFFIX)) {
+          try {
+            await writeBlob(stagedPath, await readBlob(sourcePath, fromKeys), toKeys);
+            reencrypted = true;
+          } catch (error) {
+            console.error('Failed to re-encrypt file, keeping it unchanged:', sourcePath, error);
+          }
+        }
+
+        // Anything that is not a readable item or blob is carried over as-is so the swap never drops a file
+        if (!reencrypted) {
+          const tempPath = `${stagedPath}${TEMP_SUFFIX}`;
+          await fs.copyFile(sourcePath, tempPath);
+          await fs.rename(tempPath, stagedPath);
+        }
+      }
+
+      completed++;
+      onProgress?.({ phase: 'reencrypting', completed, total });
+    }
+  }
+}
+
+/**
+ * Swap the staged directories into place and remove the rotation state.
+ * Safe to call again after a crash part way through - directories already swapped are skipped.
+ */
+export async function commitStagedItems(
+  dataRoot: string,
+  dataDirectories: string[],
+  onProgress?: (progress: RotationProgress) => void
+): Promise<void> {
+  const rotationDir = getRotationDirectory(dataRoot);
+  const stagingRoot = path.join(rotationDir, 'staged');
+  const previousRoot = path.join(rotationDir, 'previous');
+  await fs.mkdir(previousRoot, { recursive: true });
+
+  const total = dataDirectories.length;
+  let completed = 0;
+  onProgress?.({ phase: 'swapping', completed, total });
+
+  for (const directory of dataDirectories) {
+    const livePath = path.join(dataRoot, directory);
+    const stagedPath = path.join(stagingRoot, directory);
+
+    if (await exists(stagedPath)) {
+      // Each rename is atomic; if we stop between the two, the live directory is
+      // missing and the staged one is still present, so the next attempt finishes the move
+      if (await exists(livePath)) {
+        await fs.rename(livePath, path.join(previousRoot, directory));
+      }
+      await fs.rename(stagedPath, livePath);
+    }
+
+    completed++;
+    onProgress?.({ phase: 'swapping', completed, total });
+  }
+
+  await fs.rm(rotationDir, { recursive: true, force: true });
+  onProgress?.({ phase: 'complete', completed: total, total });
+}
@@ -0,0 +1,165 @@
+// Versioned encryption envelope shared by the main process and the renderer
+// Pure byte handling only - no Node or Web Crypto dependencies.
+//
+// Layout:
+//   magic       4 bytes  "TMNS"
+//   version     1 byte
+//   kdf id      1 byte   (0 = raw key, 1 = PBKDF2-SHA256)
+//   params len  1 byte, followed by KDF parameters
+//   salt len    1 byte, followed by salt
+//   iv len      1 byte, followed by IV
+//   tag len     1 byte, followed by GCM authentication tag
+//   ciphertext  remaining bytes
+
+export const ENVELOPE_MAGIC = new Uint8Array([0x54, 0x4d, 0x4e, 0x53]); // "TMNS"
+export const ENVELOPE_VERSION = 1;
+
+export const KDF_NONE = 0;
+export const KDF_PBKDF2_SHA256 = 1;
+
+export type EnvelopeKdf =
+  | { id: typeof KDF_NONE }
+  | { id: typeof KDF_PBKDF2_SHA256; iterations: number };
+
+export interface Envelope {
+  version: number;
+  kdf: EnvelopeKdf;
+  salt: Uint8Array;
+  iv: Uint8Array;
+  tag: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+const MAX_FIELD_LENGTH = 255;
+
+// Iteration counts accepted from a header, which is not authenticated. Outside this range a
+// damaged or tampered file would hang key derivation or fail it with an unhelpful error.
+const MIN_PBKDF2_ITERATIONS = 10000;
+const MAX_PBKDF2_ITERATIONS = 10000000;
+
+/**
+ * Check whether the bytes start with the envelope magic header
+ */
+export function hasEnvelopeHeader(bytes: Uint8Array): boolean {
+  if (bytes.length < ENVELOPE_MAGIC.length) {
+    return false;
+  }
+
+  for (let i = 0; i < ENVELOPE_MAGIC.length; i++) {
+    if (bytes[i] !== ENVELOPE_MAGIC[i]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+const encodeKdfParams = (kdf: EnvelopeKdf): Uint8Array => {
+  if (kdf.id === KDF_PBKDF2_SHA256) {
+    const params = new Uint8Array(4);
+    new DataView(params.buffer).setUint32(0, kdf.iterations);
+    return params;
+  }
+  return new Uint8Array(0);
+};
+
+const decodeKdf = (id: number, params: Uint8Array): EnvelopeKdf => {
+  if (id === KDF_NONE) {
+    return { id: KDF_NONE };
+  }
+
+  if (id === KDF_PBKDF2_SHA256) {
+    if (params.length !== 4) {
+      throw new Error('Invalid envelope: bad PBKDF2 parameters');
+    }
+    const iterations = new DataView(params.buffer, params.byteOffset, params.byteLength).getUint32(0);
+    if (iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS) {
+      throw new Error('Invalid envelope: bad PBKDF2 parameters');
+    }
+    return { id: KDF_PBKDF2_SHA256, iterations };
+  }
+
+  throw new Error(`Invalid envelope: unknown KDF id ${id}`);
+};
+
+/**
+ * Serialize an envelope to bytes
+ */
+export function serializeEnvelope(envelope: Omit<Envelope, 'version'>): Uint8Array {
+  const params = encodeKdfParams(envelope.kdf);
+  const fields = [params, envelope.salt, envelope.iv, envelope.tag];
+
+  for (const field of fields) {
+    if (field.length > MAX_FIELD_LENGTH) {
+      throw new Error('Envelope field too long');
+    }
+  }
+
+  const headerLength = ENVELOPE_MAGIC.length + 2 + fields.reduce((total, field) => total + 1 + field.length, 0);
+  const result = new Uint8Array(headerLength + envelope.ciphertext.length);
+
+  let offset = 0;
+  result.set(ENVELOPE_MAGIC, offset);
+  offset += ENVELOPE_MAGIC.length;
+  result[offset++] = ENVELOPE_VERSION;
+  result[offset++] = envelope.kdf.id;
+
+  for (const field of fields) {
+    result[offset++] = field.length;
+    result.set(field, offset);
+    offset += field.length;
+  }
+
+  result.set(envelope.ciphertext, offset);
+  return result;
+}
+
+/**
+ * Parse envelope bytes. Throws if the header is missing or malformed.
+ */
+export function parseEnvelope(bytes: Uint8Array): Envelope {
+  if (!hasEnvelopeHeader(bytes)) {
+    throw new Error('Invalid envelope: missing header');
+  }
+
+  let offset = ENVELOPE_MAGIC.length;
+
+  const readByte = (): number => {
+    const value = bytes[offset];
+    if (value === undefined) {
+      throw new Error('Invalid envelope: truncated header');
+    }
+    offset += 1;
+    return value;
+  };
+
+  const readField = (): Uint8Array => {
+    const length = readByte();
+    if (offset + length > bytes.length) {
+      throw new Error('Invalid envelope: truncated header');
+    }
+    const field = bytes.subarray(offset, offset + length);
+    offset += length;
+    return field;
+  };
+
+  const version = readByte();
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Invalid envelope: unsupported version ${version}`);
+  }
+
+  const kdfId = readByte();
+  const kdf = decodeKdf(kdfId, readField());
+  const salt = readField();
+  const iv = readField();
+  const tag = readField();
+
+  return {
+    version,
+    kdf,
+    salt,
+    iv,
+    tag,
+    ciphertext: bytes.subarray(offset)
+  };
+}
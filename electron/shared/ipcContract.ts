@@ -0,0 +1,562 @@
+// The IPC contract between the renderer and the main process
+// Every channel is listed once here with its argument validators and its response type.
+// The main process handlers, the preload bridge and IPCService are all typed from this file,
+// so a handler that returns the wrong shape or a bridge method that calls the wrong channel
+// fails to compile.
+import type { RotationProgress } from '../rotation';
+import { validate, Validated, ValidatedArgs, Validator } from './validation';
+
+export type { RotationProgress };
+
+// Stored items
+
+export type ChatRole = 'user' | 'assistant' | 'system';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  // Set on a reply that was stopped before it finished
+  interrupted?: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  created: string;
+  lastModified: string;
+  messages: ChatMessage[];
+  messageCount: number;
+}
+
+export interface Narrative {
+  id: string;
+  title: string;
+  content: string;
+  draftContent?: string;
+  created: string;
+  lastModified: string;
+  characterCount?: number;
+  preferredMode?: 'draft' | 'main';
+}
+
+/**
+ * A saved version of a narrative's text
+ */
+export interface NarrativeSnapshotSummary {
+  id: string;
+  created: string;
+  title: string;
+  characterCount: number;
+  draftCharacterCount: number;
+}
+
+export interface NarrativeSnapshot extends NarrativeSnapshotSummary {
+  content: string;
+  draftContent: string;
+}
+
+export interface SystemPrompt {
+  id: string;
+  title: string;
+  body: string;
+  created: string;
+  lastModified: string;
+}
+
+export interface Context {
+  id: string;
+  title: string;
+  body: string;
+  created: string;
+  lastModified: string;
+}
+
+export interface Image {
+  id: string;
+  title: string;
+  created: string;
+  lastModified: string;
+  // Uploaded images are served over temenos-img://; other images are external URLs
+  url: string;
+  thumbnailUrl?: string;
+  metadata?: {
+    name: string;
+    type: string;
+    size: number;
+    thumbnailType?: string;
+    // Where an image imported from a URL was downloaded from
+    sourceUrl?: string;
+    import?: ImageImportReport;
+  };
+}
+
+/**
+ * What was changed when an image was imported
+ */
+export interface ImageImportReport {
+  // Kinds of metadata removed, such as 'GPS location'
+  removedMetadata: string[];
+  // False for formats whose metadata cannot be inspected; those are stored unchanged
+  metadataChecked: boolean;
+  // EXIF orientation that was applied to the pixels
+  appliedOrientation?: number;
+  // Size before the image was scaled down
+  resizedFrom?: { width: number; height: number };
+}
+
+// Summaries returned by list channels, read from each type's index rather than the items
+
+export interface ItemSummary {
+  id: string;
+  title: string;
+  created: string;
+  lastModified: string;
+}
+
+export interface ConversationSummary extends ItemSummary {
+  messageCount: number;
+}
+
+export interface NarrativeSummary extends ItemSummary {
+  characterCount?: number;
+  preferredMode?: 'draft' | 'main';
+}
+
+export type SystemPromptSummary = ItemSummary;
+export type ContextSummary = ItemSummary;
+
+export interface ImageSummary extends ItemSummary {
+  url: string;
+  // Same as url for images that were not uploaded
+  thumbnailUrl: string;
+}
+
+// Items in the trash, newest deletion first. `id` identifies the trash entry; `type` and
+// `itemId` identify the item to restore or purge.
+
+export const TRASH_ITEM_TYPES = ['conversation', 'narrative', 'system-prompt', 'context', 'image'] as const;
+export type TrashItemType = (typeof TRASH_ITEM_TYPES)[number];
+
+export interface TrashSummary extends ItemSummary {
+  type: TrashItemType;
+  itemId: string;
+  deletedAt: string;
+}
+
+// Request payloads
+
+const TITLE = validate.optional(validate.string({ maxLength: 1000 }));
+const TIMESTAMP = validate.optional(validate.string({ maxLength: 64 }));
+const LONG_TEXT = validate.optional(validate.string({ maxLength: 10 * 1024 * 1024 }));
+
+const chatMessage = validate.object({
+  role: validate.oneOf(['user', 'assistant', 'system'] as const),
+  content: validate.string(),
+  interrupted: validate.optional(validate.boolean())
+}, { allowUnknown: true });
+
+const narrativeInput = validate.object({
+  title: TITLE,
+  created: TIMESTAMP,
+  content: LONG_TEXT,
+  draftContent: LONG_TEXT,
+  preferredMode: validate.optional(validate.oneOf(['draft', 'main'] as const))
+});
+
+const textItemInput = validate.object({
+  title: TITLE,
+  created: TIMESTAMP,
+  body: LONG_TEXT
+});
+
+const imageInput = validate.object({
+  title: TITLE,
+  created: TIMESTAMP,
+  url: validate.optional(validate.string({ maxLength: 100 * 1024 * 1024 }))
+});
+
+// Largest image file that can be added, and the largest it may be once metadata is removed
+// and it has been scaled down
+export const MAX_IMAGE_UPLOAD_BYTES = 50 * 1024 * 1024;
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const imageUploadInput = validate.object({
+  title: validate.string({ minLength: 1, maxLength: 1000 }),
+  imageFile: validate.optional(validate.object({
+    name: validate.string({ maxLength: 1000 }),
+    type: validate.string({ maxLength: 100 }),
+    size: validate.number({ min: 0 }),
+    data: validate.bytes({ maxLength: MAX_IMAGE_UPLOAD_BYTES })
+  })),
+  imageUrl: validate.optional(validate.string({ maxLength: 8192 }))
+});
+
+// An entry of the model registry in config.json, adding a model or overriding a provider's own settings for it
+const modelRegistryEntry = validate.object({
+  provider: validate.string({ maxLength: 100 }),
+  model: validate.string({ maxLength: 200 }),
+  name: validate.optional(validate.string({ maxLength: 200 })),
+  description: validate.optional(validate.string({ maxLength: 1000 })),
+  contextWindow: validate.number({ min: 1, max: 100 * 1000 * 1000 }),
+  maxOutputTokens: validate.number({ min: 1, max: 10 * 1000 * 1000 }),
+  temperature: validate.number({ min: 0, max: 2 }),
+  topP: validate.optional(validate.number({ min: 0, max: 1 })),
+  pricing: validate.optional(validate.object({
+    input: validate.number({ min: 0 }),
+    output: validate.number({ min: 0 })
+  }))
+});
+
+// Also used to read the registry back from config.json, which may have been edited by hand
+export const modelRegistry = validate.array(modelRegistryEntry, { maxLength: 500 });
+
+const userConfigInput = validate.object({
+  XAI_API_KEY: validate.optional(validate.string({ maxLength: 1000 })),
+  OPENAI_BASE_URL: validate.optional(validate.string({ maxLength: 2048 })),
+  OPENAI_API_KEY: validate.optional(validate.string({ maxLength: 1000 })),
+  ANTHROPIC_API_KEY: validate.optional(validate.string({ maxLength: 1000 })),
+  MOCK_LLM: validate.optional(validate.boolean()),
+  MOCK_LLM_SCRIPT: validate.optional(validate.string({ maxLength: 4096 })),
+  ENCRYPTION_PASSWORD: validate.optional(validate.string({ maxLength: 1000 })),
+  autoLockMinutes: validate.optional(validate.number({ min: 0, max: 24 * 60 })),
+  maxImageDimension: validate.optional(validate.number({ min: 0, max: 65535 })),
+  trashRetentionDays: validate.optional(validate.number({ min: 0, max: 3650 })),
+  snapshotIntervalMinutes: validate.optional(validate.number({ min: 0, max: 24 * 60 })),
+  models: validate.optional(modelRegistry)
+});
+
+// Largest page a list channel returns when a limit is given
+export const MAX_PAGE_SIZE = 200;
+
+const pageOptions = validate.optional(validate.object({
+  cursor: validate.optional(validate.string({ maxLength: 512 })),
+  limit: validate.optional(validate.number({ min: 1, max: MAX_PAGE_SIZE }))
+}));
+
+const trashItemType = validate.oneOf(TRASH_ITEM_TYPES);
+
+const passphrase = validate.string({ maxLength: 1024 });
+const recoveryKey = validate.string({ maxLength: 256 });
+
+export type NarrativeInput = Validated<typeof narrativeInput>;
+export type SystemPromptInput = Validated<typeof textItemInput>;
+export type ContextInput = Validated<typeof textItemInput>;
+export type ImageInput = Validated<typeof imageInput>;
+export type ImageUploadInput = Validated<typeof imageUploadInput>;
+export type UserConfig = Validated<typeof userConfigInput>;
+export type ModelRegistryEntry = Validated<typeof modelRegistryEntry>;
+export type PageOptions = NonNullable<Validated<typeof pageOptions>>;
+
+// Responses
+
+export interface SuccessResult {
+  success: boolean;
+}
+
+export interface ResultWithError {
+  success: boolean;
+  error?: string;
+}
+
+// Without a limit a list channel returns every summary and nextCursor is null
+export interface PageResult {
+  nextCursor: string | null;
+}
+
+export interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface HealingResponse {
+  response: string;
+  usage: CompletionUsage;
+  // The request was cancelled; response holds what had been generated by then
+  interrupted?: boolean;
+}
+
+/**
+ * What a provider supports for all of its models
+ */
+export interface ModelCapabilities {
+  // Replies arrive as they are generated rather than all at once
+  streaming: boolean;
+  // Replies report their token usage
+  usage: boolean;
+}
+
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * How a model is used: its limits, the sampling replies are requested with, and its price
+ */
+export interface ModelSettings {
+  contextWindow: number;
+  // The most tokens a reply is asked to have
+  maxOutputTokens: number;
+  temperature: number;
+  topP?: number | undefined;
+  // US dollars per million tokens
+  pricing?: { input: number; output: number } | undefined;
+}
+
+/**
+ * A model that messages can be sent to. The id is the key a message is sent with, made of the
+ * provider and the provider's model id as `provider:model`.
+ */
+export interface ModelInfo extends ModelSettings {
+  id: string;
+  provider: string;
+  // The provider's own id for the model
+  model: string;
+  name: string;
+  description: string;
+  providerName: string;
+  capabilities: ModelCapabilities;
+  // The model registry in config.json has an entry for it
+  registered: boolean;
+}
+
+/**
+ * Text streamed for a healing message while it is being generated
+ */
+export interface HealingMessageDelta {
+  requestId: string;
+  delta: string;
+}
+
+// Failures carry a message that can be shown to the user
+export type UploadImageResult =
+  | { success: true; image: Image }
+  | { success: false; error: string };
+
+export type EncryptionTestResult =
+  | { success: true; encrypted: string; decrypted: unknown }
+  | { success: false; error: string };
+
+export interface VaultStatus {
+  initialized: boolean;
+  unlocked: boolean;
+}
+
+/**
+ * What each channel's handler resolves with
+ */
+export interface IpcResponses {
+  'get-conversations': { conversations: ConversationSummary[] } & PageResult;
+  'get-conversation': Conversation;
+  'save-conversation': { success: boolean; conversationId: string; title: string };
+  'delete-conversation': SuccessResult;
+
+  'get-narratives': { narratives: NarrativeSummary[] } & PageResult;
+  'get-narrative': Narrative;
+  'save-narrative': { success: boolean; narrativeId: string; title: string };
+  'delete-narrative': SuccessResult;
+  'get-narrative-history': { snapshots: NarrativeSnapshotSummary[] };
+  'get-narrative-snapshot': NarrativeSnapshot;
+  'snapshot-narrative': SuccessResult;
+
+  'get-system-prompts': { prompts: SystemPromptSummary[] } & PageResult;
+  'get-system-prompt': SystemPrompt;
+  'save-system-prompt': { success: boolean; promptId: string; title: string };
+  'delete-system-prompt': SuccessResult;
+
+  'get-contexts': { contexts: ContextSummary[] } & PageResult;
+  'get-context': Context;
+  'save-context': { success: boolean; contextId: string; title: string };
+  'delete-context': SuccessResult;
+
+  'get-images': { images: ImageSummary[] } & PageResult;
+  'get-image': Image;
+  'save-image': { success: boolean; imageId: string; title: string };
+  'delete-image': SuccessResult;
+  'upload-image': UploadImageResult;
+
+  'get-trash': { items: TrashSummary[] } & PageResult;
+  'restore-trash-item': SuccessResult;
+  'purge-trash-item': SuccessResult;
+  'empty-trash': SuccessResult;
+
+  'get-vault-status': VaultStatus;
+  'setup-vault': SuccessResult;
+  'unlock-vault': ResultWithError;
+  'recover-vault': ResultWithError;
+  'change-vault-passphrase': ResultWithError;
+  'lock-vault': SuccessResult;
+
+  'test-encryption': EncryptionTestResult;
+  'send-healing-message': HealingResponse;
+  'cancel-healing-message': SuccessResult;
+  'list-models': ModelInfo[];
+  'list-providers': ProviderInfo[];
+  'save-model-registry-entry': SuccessResult;
+  'delete-model-registry-entry': SuccessResult;
+
+  'get-user-config': UserConfig;
+  'save-user-config': SuccessResult;
+}
+
+export type IpcChannel = keyof IpcResponses;
+
+/**
+ * Validators for each channel's arguments, run by the main process before the handler
+ */
+export const ipcRequests = {
+  'get-conversations': [pageOptions],
+  'get-conversation': [validate.id()],
+  'save-conversation': [validate.id(), validate.array(chatMessage)],
+  'delete-conversation': [validate.id()],
+
+  'get-narratives': [pageOptions],
+  'get-narrative': [validate.id()],
+  'save-narrative': [validate.id(), narrativeInput],
+  'delete-narrative': [validate.id()],
+  'get-narrative-history': [validate.id()],
+  'get-narrative-snapshot': [validate.id(), validate.id()],
+  'snapshot-narrative': [validate.id()],
+
+  'get-system-prompts': [pageOptions],
+  'get-system-prompt': [validate.id()],
+  'save-system-prompt': [validate.id(), textItemInput],
+  'delete-system-prompt': [validate.id()],
+
+  'get-contexts': [pageOptions],
+  'get-context': [validate.id()],
+  'save-context': [validate.id(), textItemInput],
+  'delete-context': [validate.id()],
+
+  'get-images': [pageOptions],
+  'get-image': [validate.id()],
+  'save-image': [validate.id(), imageInput],
+  'delete-image': [validate.id()],
+  'upload-image': [imageUploadInput],
+
+  'get-trash': [pageOptions],
+  'restore-trash-item': [trashItemType, validate.id()],
+  'purge-trash-item': [trashItemType, validate.id()],
+  'empty-trash': [],
+
+  'get-vault-status': [],
+  'setup-vault': [passphrase, recoveryKey],
+  'unlock-vault': [passphrase],
+  'recover-vault': [recoveryKey, passphrase],
+  'change-vault-passphrase': [passphrase, passphrase],
+  'lock-vault': [],
+
+  'test-encryption': [],
+  // The request id tags the healing-message-delta events streamed while it runs
+  'send-healing-message': [validate.id(), validate.array(chatMessage), validate.string({ maxLength: 200 }), validate.string()],
+  'cancel-healing-message': [validate.id()],
+  'list-models': [],
+  'list-providers': [],
+  // An entry replaces any other for the same provider and model
+  'save-model-registry-entry': [modelRegistryEntry],
+  'delete-model-registry-entry': [validate.string({ maxLength: 100 }), validate.string({ maxLength: 200 })],
+
+  'get-user-config': [],
+  'save-user-config': [userConfigInput]
+} as const satisfies { [C in IpcChannel]: readonly Validator<unknown>[] };
+
+export type IpcRequest<C extends IpcChannel> = ValidatedArgs<(typeof ipcRequests)[C]>;
+export type IpcResponse<C extends IpcChannel> = IpcResponses[C];
+
+/**
+ * Events the main process pushes to the renderer, with their payloads
+ */
+export interface IpcEvents {
+  'vault-rotation-progress': RotationProgress;
+  'vault-locked': void;
+  'healing-message-delta': HealingMessageDelta;
+}
+
+export type IpcEvent = keyof IpcEvents;
+
+// Names of the bridge methods exposed to the renderer, and the channel each one uses
+
+export interface IpcInvokeMethods {
+  getConversations: 'get-conversations';
+  getConversation: 'get-conversation';
+  saveConversation: 'save-conversation';
+  deleteConversation: 'delete-conversation';
+
+  getNarratives: 'get-narratives';
+  getNarrative: 'get-narrative';
+  saveNarrative: 'save-narrative';
+  deleteNarrative: 'delete-narrative';
+  getNarrativeHistory: 'get-narrative-history';
+  getNarrativeSnapshot: 'get-narrative-snapshot';
+  snapshotNarrative: 'snapshot-narrative';
+
+  getSystemPrompts: 'get-system-prompts';
+  getSystemPrompt: 'get-system-prompt';
+  saveSystemPrompt: 'save-system-prompt';
+  deleteSystemPrompt: 'delete-system-prompt';
+
+  getContexts: 'get-contexts';
+  getContext: 'get-context';
+  saveContext: 'save-context';
+  deleteContext: 'delete-context';
+
+  getImages: 'get-images';
+  getImage: 'get-image';
+  saveImage: 'save-image';
+  deleteImage: 'delete-image';
+  uploadImage: 'upload-image';
+
+  getTrash: 'get-trash';
+  restoreTrashItem: 'restore-trash-item';
+  purgeTrashItem: 'purge-trash-item';
+  emptyTrash: 'empty-trash';
+
+  getVaultStatus: 'get-vault-status';
+  setupVault: 'setup-vault';
+  unlockVault: 'unlock-vault';
+  recoverVault: 'recover-vault';
+  lockVault: 'lock-vault';
+  changeVaultPassphrase: 'change-vault-passphrase';
+
+  testEncryption: 'test-encryption';
+  sendHealingMessage: 'send-healing-message';
+  cancelHealingMessage: 'cancel-healing-message';
+  listModels: 'list-models';
+  listProviders: 'list-providers';
+  saveModelRegistryEntry: 'save-model-registry-entry';
+  deleteModelRegistryEntry: 'delete-model-registry-entry';
+
+  getUserConfig: 'get-user-config';
+  saveUserConfig: 'save-user-config';
+}
+
+export interface IpcEventMethods {
+  onVaultRotationProgress: 'vault-rotation-progress';
+  onVaultLocked: 'vault-locked';
+  onHealingMessageDelta: 'healing-message-delta';
+}
+
+export type IpcInvoker<C extends IpcChannel> = (...args: IpcRequest<C>) => Promise<IpcResponse<C>>;
+
+// Subscribing returns a function that removes the listener
+export type IpcSubscriber<E extends IpcEvent> = (callback: (payload: IpcEvents[E]) => void) => () => void;
+
+/**
+ * The API the preload script exposes as window.electronAPI
+ */
+export type ElectronAPI = {
+  [M in keyof IpcInvokeMethods]: IpcInvoker<IpcInvokeMethods[M]>;
+} & {
+  [M in keyof IpcEventMethods]: IpcSubscriber<IpcEventMethods[M]>;
+} & {
+  platform: string;
+  appVersion: string;
+};
+
+declare global {
+  interface Window {
+    electronAPI: ElectronAPI;
+  }
+}
@@ -0,0 +1,154 @@
+// Runtime validators for IPC arguments
+// Shared so the channel contract can describe each request with the same validators the
+// main process runs. Pure value checks only - no Node or Electron dependencies.
+
+/**
+ * Checks one value and returns it typed, or throws with a description of the problem
+ */
+export type Validator<T> = (value: unknown, field: string) => T;
+
+/**
+ * The type a validator produces
+ */
+export type Validated<V> = V extends Validator<infer T> ? T : never;
+
+// Trailing arguments that accept undefined can be left out
+type OptionalTail<T extends unknown[]> = T extends [...infer Head, infer Last]
+  ? undefined extends Last ? [...OptionalTail<Head>, Last?] : T
+  : T;
+
+/**
+ * The argument types produced by a list of validators
+ */
+export type ValidatedArgs<V extends readonly Validator<unknown>[]> = OptionalTail<{
+  -readonly [K in keyof V]: Validated<V[K]>;
+}>;
+
+// Fields whose validator accepts undefined are optional in the object type
+type OptionalKeys<S> = { [K in keyof S]: undefined extends Validated<S[K]> ? K : never }[keyof S];
+
+type ValidatedObject<S> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Validated<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Validated<S[K]>;
+};
+
+// Item ids become file names, so only allow characters that cannot form a path
+export const ITEM_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/;
+
+const DEFAULT_MAX_STRING_LENGTH = 1024 * 1024;
+
+/**
+ * Thrown by validators, naming the field that failed
+ */
+export class FieldValidationError extends Error {
+  constructor(field: string, expected: string) {
+    super(`${field} must be ${expected}`);
+    this.name = 'FieldValidationError';
+  }
+}
+
+const fail = (field: string, expected: string): never => {
+  throw new FieldValidationError(field, expected);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Validators for the argument shapes used by the IPC channels
+ */
+export const validate = {
+  id: (): Validator<string> => (value, field) => {
+    if (typeof value !== 'string' || !ITEM_ID_PATTERN.test(value)) {
+      return fail(field, 'a valid id');
+    }
+    return value;
+  },
+
+  string: (options: { maxLength?: number; minLength?: number } = {}): Validator<string> => (value, field) => {
+    const { maxLength = DEFAULT_MAX_STRING_LENGTH, minLength = 0 } = options;
+    if (typeof value !== 'string' || value.length > maxLength || value.length < minLength) {
+      return fail(field, `a string of ${minLength} to ${maxLength} characters`);
+    }
+    return value;
+  },
+
+  oneOf: <T extends string>(allowed: readonly T[]): Validator<T> => (value, field) => {
+    if (typeof value !== 'string' || !(allowed as readonly string[]).includes(value)) {
+      return fail(field, `one of ${allowed.join(', ')}`);
+    }
+    return value as T;
+  },
+
+  number: (options: { min?: number; max?: number } = {}): Validator<number> => (value, field) => {
+    const { min = -Infinity, max = Infinity } = options;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      return fail(field, `a number between ${min} and ${max}`);
+    }
+    return value;
+  },
+
+  boolean: (): Validator<boolean> => (value, field) => {
+    if (typeof value !== 'boolean') {
+      return fail(field, 'a boolean');
+    }
+    return value;
+  },
+
+  bytes: (options: { maxLength?: number } = {}): Validator<Uint8Array> => (value, field) => {
+    const { maxLength = DEFAULT_MAX_STRING_LENGTH } = options;
+    if (!(value instanceof Uint8Array) || value.byteLength > maxLength) {
+      return fail(field, `binary data of at most ${maxLength} bytes`);
+    }
+    return value;
+  },
+
+  optional: <T>(inner: Validator<T>): Validator<T | undefined> => (value, field) => {
+    return value === undefined || value === null ? undefined : inner(value, field);
+  },
+
+  array: <T>(item: Validator<T>, options: { maxLength?: number } = {}): Validator<T[]> => (value, field) => {
+    const { maxLength = 10000 } = options;
+    if (!Array.isArray(value) || value.length > maxLength) {
+      return fail(field, `an array of at most ${maxLength} entries`);
+    }
+    return value.map((entry, index) => item(entry, `${field}[${index}]`));
+  },
+
+  /**
+   * A plain object with the given fields. Unknown fields are rejected unless allowUnknown is set,
+   * in which case they are passed through unchanged.
+   */
+  object: <S extends Record<string, Validator<unknown>>>(
+    shape: S,
+    options: { allowUnknown?: boolean } = {}
+  ): Validator<ValidatedObject<S>> => (value, field) => {
+    if (!isPlainObject(value)) {
+      return fail(field, 'an object');
+    }
+
+    if (!options.allowUnknown) {
+      const unknownKey = Object.keys(value).find(key => !(key in shape));
+      if (unknownKey !== undefined) {
+        return fail(`${field}.${unknownKey}`, 'absent');
+      }
+    }
+
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, validator] of Object.entries(shape)) {
+      const checked = validator(value[key], `${field}.${key}`);
+      if (checked === undefined) {
+        delete result[key];
+      } else {
+        result[key] = checked;
+      }
+    }
+    return result as ValidatedObject<S>;
+  }
+};
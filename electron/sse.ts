@@ -0,0 +1,67 @@
+// Reading server-sent event streams, as returned by streaming completion APIs
+// Follows the event stream format: events are separated by blank lines, `data:` lines are
+// joined with newlines and comment lines starting with `:` are skipped.
+
+/**
+ * One event from a server-sent event stream
+ */
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Yield the events of a stream as they arrive
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  const takeEvent = (): ServerSentEvent | null => {
+    const event = dataLines.length > 0 ? { event: eventName || 'message', data: dataLines.join('\n') } : null;
+    eventName = '';
+    dataLines = [];
+    return event;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      // The stream may end without a blank line after its last event
+      if (done) buffer += '\n\n';
+
+      let lineEnd: number;
+      while ((lineEnd = buffer.search(/\r\n|\r|\n/)) !== -1) {
+        // A trailing \r may be the first half of \r\n
+        if (!done && buffer[lineEnd] === '\r' && lineEnd === buffer.length - 1) break;
+
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + (buffer.startsWith('\r\n', lineEnd) ? 2 : 1));
+
+        if (line === '') {
+          const event = takeEvent();
+          if (event) yield event;
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'data') {
+          dataLines.push(fieldValue);
+        } else if (field === 'event') {
+          eventName = fieldValue;
+        }
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
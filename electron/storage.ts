@@ -0,0 +1,223 @@
+// Encrypted item storage for the main process
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { encryptWithKeyInPool, decryptWithKeyInPool, decryptInPool } from './cryptoPool';
+
+// Files decrypted at once when listing a directory - enough to keep every pool worker busy
+export const READ_CONCURRENCY = 16;
+
+// Sidecar files next to each item: the previous version, and a write in progress
+export const BACKUP_SUFFIX = '.bak';
+export const TEMP_SUFFIX = '.tmp';
+
+// Binary files stored next to items, such as image data, are encrypted whole without a JSON wrapper
+export const BLOB_SUFFIX = '.bin';
+
+/**
+ * On-disk wrapper for an encrypted item.
+ * Version 1 items were encrypted with a password, version 2 items with the vault data key.
+ */
+export interface EncryptedEnvelope {
+  encrypted: true;
+  version: 1 | 2;
+  data: string;
+}
+
+/**
+ * Keys used to read and write items
+ */
+export interface StorageKeys {
+  key: Buffer;
+  // Only needed to migrate version 1 items written before the vault existed
+  resolveLegacyPassword?: () => Promise<string>;
+}
+
+/**
+ * Check whether parsed file content is an encrypted envelope
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  return candidate['encrypted'] === true && typeof candidate['data'] === 'string';
+}
+
+/**
+ * Write a file so that a crash leaves either the old or the new content, never a mix.
+ * The content goes to a temporary file that is fsynced and then renamed over the target.
+ * With keepBackup, the previous version is copied to `<file>.bak` first.
+ */
+export async function writeFileAtomic(filePath: string, content: string | Uint8Array, options: { keepBackup?: boolean } = {}): Promise<void> {
+  const tempPath = `${filePath}${TEMP_SUFFIX}`;
+
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  if (options.keepBackup) {
+    try {
+      await fs.copyFile(filePath, `${filePath}${BACKUP_SUFFIX}`);
+    } catch (error) {
+      // No previous version yet
+    }
+  }
+
+  await fs.rename(tempPath, filePath);
+
+  // Persist the rename itself. Directories cannot be opened for syncing on Windows.
+  try {
+    const dirHandle = await fs.open(path.dirname(filePath), 'r');
+    try {
+      await dirHandle.sync();
+    } finally {
+      await dirHandle.close();
+    }
+  } catch (error) {
+    // Best effort
+  }
+}
+
+/**
+ * Encrypt an item and write it to disk as an envelope, keeping the previous version as a backup
+ */
+export async function writeItem(
+  filePath: string,
+  item: unknown,
+  keys: StorageKeys,
+  options: { keepBackup?: boolean } = {}
+): Promise<void> {
+  const { keepBackup = true } = options;
+  const envelope: EncryptedEnvelope = {
+    encrypted: true,
+    version: 2,
+    data: (await encryptWithKeyInPool(Buffer.from(JSON.stringify(item), 'utf8'), keys.key)).toString('base64')
+  };
+
+  await writeFileAtomic(filePath, JSON.stringify(envelope), { keepBackup });
+}
+
+const migrateItem = async (filePath: string, item: unknown, keys: StorageKeys): Promise<void> => {
+  try {
+    // No backup - it would keep the unencrypted or password-encrypted copy on disk
+    await writeItem(filePath, item, keys, { keepBackup: false });
+  } catch (error) {
+    console.error('Failed to migrate item:', filePath, error);
+  }
+};
+
+const readItemFile = async <T>(filePath: string, keys: StorageKeys): Promise<T> => {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const parsed = JSON.parse(content);
+
+  if (!isEncryptedEnvelope(parsed)) {
+    // Legacy plaintext item - migrate it on first read
+    await migrateItem(filePath, parsed, keys);
+    return parsed as T;
+  }
+
+  if (parsed.version === 2) {
+    const decrypted = await decryptWithKeyInPool(Buffer.from(parsed.data, 'base64'), keys.key);
+    return JSON.parse(decrypted.toString('utf8')) as T;
+  }
+
+  if (!keys.resolveLegacyPassword) {
+    throw new Error('Item was encrypted with a password and no legacy password is available');
+  }
+
+  const item = JSON.parse(await decryptInPool(parsed.data, await keys.resolveLegacyPassword())) as T;
+  await migrateItem(filePath, item, keys);
+  return item;
+};
+
+/**
+ * Read an item from disk and decrypt it.
+ * Plaintext and password-encrypted items are returned as-is and rewritten
+ * with the vault key in place. If the file is damaged, the backup is read instead.
+ */
+export async function readItem<T = any>(filePath: string, keys: StorageKeys): Promise<T> {
+  try {
+    return await readItemFile<T>(filePath, keys);
+  } catch (error) {
+    const backupPath = `${filePath}${BACKUP_SUFFIX}`;
+    let item: T;
+
+    try {
+      item = await readItemFile<T>(backupPath, keys);
+    } catch {
+      // No usable backup - report the original failure
+      throw error;
+    }
+
+    console.error('Item was unreadable, restored it from its backup:', filePath, error);
+    // Put the good copy back so the next save does not back up the damaged file over it
+    await writeFileAtomic(filePath, await fs.readFile(backupPath, 'utf-8'));
+    return item;
+  }
+}
+
+/**
+ * Encrypt binary data and write it to disk atomically. No backup is kept.
+ */
+export async function writeBlob(filePath: string, data: Buffer, keys: StorageKeys): Promise<void> {
+  await writeFileAtomic(filePath, await encryptWithKeyInPool(data, keys.key));
+}
+
+/**
+ * Read binary data written by writeBlob and decrypt it
+ */
+export async function readBlob(filePath: string, keys: StorageKeys): Promise<Buffer> {
+  return decryptWithKeyInPool(await fs.readFile(filePath), keys.key);
+}
+
+/**
+ * Delete an item along with its backup
+ */
+export async function deleteItem(filePath: string): Promise<void> {
+  await fs.unlink(filePath);
+  await fs.rm(`${filePath}${BACKUP_SUFFIX}`, { force: true });
+  await fs.rm(`${filePath}${TEMP_SUFFIX}`, { force: true });
+}
+
+/**
+ * List the ids of the items in a directory without reading them.
+ * Dotfiles such as the item index are not items.
+ */
+export async function listItemIds(dirPath: string): Promise<string[]> {
+  return (await fs.readdir(dirPath))
+    .filter(file => file.endsWith('.json') && !file.startsWith('.'))
+    .map(file => file.slice(0, -'.json'.length));
+}
+
+/**
+ * Read every item in a directory, skipping files that cannot be read or decrypted
+ */
+export async function readAllItems<T = any>(dirPath: string, keys: StorageKeys): Promise<T[]> {
+  const files = (await listItemIds(dirPath)).map(id => `${id}.json`);
+  const items: T[] = [];
+
+  for (let i = 0; i < files.length; i += READ_CONCURRENCY) {
+    const batch = files.slice(i, i + READ_CONCURRENCY);
+    const results = await Promise.all(batch.map(async (file) => {
+      try {
+        return { item: await readItem<T>(path.join(dirPath, file), keys) };
+      } catch (error) {
+        console.error('Failed to read item:', file, error);
+        return null;
+      }
+    }));
+
+    for (const result of results) {
+      if (result) {
+        items.push(result.item);
+      }
+    }
+  }
+
+  return items;
+}
@@ -0,0 +1,74 @@
+// Trash for deleted items
+// Deleting an item moves it into the trash directory as `<type>.<id>.json`, wrapped with the time
+// it was deleted, so it can be restored until it is purged. Files that belong to an item, such as
+// image data, are moved alongside it by the caller.
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readItem, writeItem, deleteItem, StorageKeys } from './storage';
+
+export const TRASH_DIRECTORY = 'trash';
+
+/**
+ * A trashed item as stored in the trash directory
+ */
+export interface TrashRecord<T = unknown> {
+  type: string;
+  id: string;
+  deletedAt: string;
+  item: T;
+}
+
+/**
+ * The id an item is stored under in the trash. Items of different types may share an id.
+ */
+export function getTrashEntryId(type: string, id: string): string {
+  return `${type}.${id}`;
+}
+
+const getRecordPath = (trashDir: string, type: string, id: string) =>
+  path.join(trashDir, `${getTrashEntryId(type, id)}.json`);
+
+/**
+ * Move an item into the trash
+ */
+export async function moveToTrash(
+  itemPath: string,
+  trashDir: string,
+  type: string,
+  id: string,
+  keys: StorageKeys
+): Promise<TrashRecord> {
+  const item = await readItem(itemPath, keys);
+  const record: TrashRecord = { type, id, deletedAt: new Date().toISOString(), item };
+
+  await fs.mkdir(trashDir, { recursive: true });
+  // Written before the item is removed, so a crash in between leaves two copies rather than none
+  await writeItem(getRecordPath(trashDir, type, id), record, keys, { keepBackup: false });
+  await deleteItem(itemPath);
+  return record;
+}
+
+/**
+ * Move an item out of the trash back to its own directory, returning the item
+ */
+export async function restoreFromTrash<T>(
+  trashDir: string,
+  itemPath: string,
+  type: string,
+  id: string,
+  keys: StorageKeys
+): Promise<T> {
+  const recordPath = getRecordPath(trashDir, type, id);
+  const record = await readItem<TrashRecord<T>>(recordPath, keys);
+
+  await writeItem(itemPath, record.item, keys);
+  await deleteItem(recordPath);
+  return record.item;
+}
+
+/**
+ * Permanently delete an item from the trash
+ */
+export async function purgeFromTrash(trashDir: string, type: string, id: string): Promise<void> {
+  await deleteItem(getRecordPath(trashDir, type, id));
+}
@@ -0,0 +1,498 @@
+// Vault lifecycle for the main process
+// The data key is generated once at setup, stored wrapped by a passphrase-derived key
+// and by the recovery key, and only ever held in memory while the vault is unlocked.
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { deriveKeyAsync, generateKey, generateSalt, encryptWithKey, decryptWithKey } from './encryption';
+import { getRotationDirectory, stageReencryptedItems, commitStagedItems, RotationProgress } from './rotation';
+import { writeFileAtomic } from './storage';
+
+const VAULT_FILE = 'vault.json';
+const ROTATION_JOURNAL_FILE = 'journal.json';
+const KDF_ITERATIONS = 100000;
+const MIN_PASSPHRASE_LENGTH = 8;
+const RECOVERY_KEY_LENGTH = 32;
+
+interface VaultFile {
+  version: 1;
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string;
+  wrappedKey: string;
+  created: string;
+  // The data key wrapped by the recovery key, plus the recovery key sealed with the data key
+  // so a key rotation can wrap the new data key without asking for the recovery key
+  recovery?: {
+    wrappedKey: string;
+    sealedKey: string;
+  };
+}
+
+interface RotationJournal {
+  version: 1;
+  state: 'staging' | 'committing';
+  // Vault file for the new passphrase, written over vault.json on commit
+  vault: VaultFile;
+  // Each data key wrapped by the other, so either passphrase can resume the rotation
+  nextKey: string;
+  previousKey: string;
+  started: string;
+}
+
+interface RotationKeys {
+  journal: RotationJournal;
+  previousKey: Buffer;
+  nextKey: Buffer;
+}
+
+/**
+ * Options for running a key rotation
+ */
+export interface RotationOptions {
+  onProgress?: (progress: RotationProgress) => void;
+  // Only needed to re-encrypt version 1 items written before the vault existed
+  resolveLegacyPassword?: () => Promise<string>;
+}
+
+/**
+ * Thrown when data access is attempted while the vault is locked
+ */
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Vault is locked');
+    this.name = 'VaultLockedError';
+  }
+}
+
+/**
+ * Thrown when data access is attempted while the data key is being rotated
+ */
+export class VaultRotationInProgressError extends Error {
+  constructor() {
+    super('Vault key rotation in progress');
+    this.name = 'VaultRotationInProgressError';
+  }
+}
+
+let vaultDirectory: string | null = null;
+let dataDirectories: string[] = [];
+let dataKey: Buffer | null = null;
+let pendingRotation: RotationKeys | null = null;
+let rotationInProgress = false;
+const lockListeners = new Set<() => void>();
+
+const getVaultDirectory = (): string => {
+  if (!vaultDirectory) {
+    throw new Error('Vault directory has not been configured');
+  }
+  return vaultDirectory;
+};
+
+const getVaultFilePath = (): string => path.join(getVaultDirectory(), VAULT_FILE);
+
+const readVaultFile = async (): Promise<VaultFile | null> => {
+  try {
+    const content = await fs.readFile(getVaultFilePath(), 'utf-8');
+    return JSON.parse(content) as VaultFile;
+  } catch (error) {
+    return null;
+  }
+};
+
+const getJournalPath = (): string => path.join(getRotationDirectory(getVaultDirectory()), ROTATION_JOURNAL_FILE);
+
+const readRotationJournal = async (): Promise<RotationJournal | null> => {
+  try {
+    const content = await fs.readFile(getJournalPath(), 'utf-8');
+    return JSON.parse(content) as RotationJournal;
+  } catch (error) {
+    return null;
+  }
+};
+
+// No backup is kept - an old vault file would still open with the previous passphrase
+const writeJsonAtomic = async (filePath: string, value: unknown): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await writeFileAtomic(filePath, JSON.stringify(value, null, 2));
+};
+
+// Wrap a data key with a key derived from the passphrase, and with the recovery key if there is one
+const wrapDataKey = async (key: Buffer, passphrase: string, recoveryKey: Buffer | null): Promise<VaultFile> => {
+  const salt = generateSalt();
+  const passphraseKey = await deriveKeyAsync(passphrase, salt, KDF_ITERATIONS);
+
+  try {
+    const vaultFile: VaultFile = {
+      version: 1,
+      kdf: 'pbkdf2-sha256',
+      iterations: KDF_ITERATIONS,
+      salt: salt.toString('base64'),
+      wrappedKey: encryptWithKey(key, passphraseKey).toString('base64'),
+      created: new Date().toISOString()
+    };
+
+    if (recoveryKey) {
+      vaultFile.recovery = {
+        wrappedKey: encryptWithKey(key, recoveryKey).toString('base64'),
+        sealedKey: encryptWithKey(recoveryKey, key).toString('base64')
+      };
+    }
+
+    return vaultFile;
+  } finally {
+    passphraseKey.fill(0);
+  }
+};
+
+// Unwrap a data key, returning null if the passphrase is wrong
+const unwrapDataKey = async (vaultFile: VaultFile, passphrase: string): Promise<Buffer | null> => {
+  const passphraseKey = await deriveKeyAsync(passphrase, Buffer.from(vaultFile.salt, 'base64'), vaultFile.iterations);
+
+  try {
+    return decryptWithKey(Buffer.from(vaultFile.wrappedKey, 'base64'), passphraseKey);
+  } catch (error) {
+    // Authentication tag mismatch - wrong passphrase
+    return null;
+  } finally {
+    passphraseKey.fill(0);
+  }
+};
+
+// Unwrap a data key with the recovery key, returning null if it is the wrong key
+const unwrapDataKeyWithRecovery = async (vaultFile: VaultFile, recoveryKey: Buffer): Promise<Buffer | null> => {
+  if (!vaultFile.recovery) {
+    return null;
+  }
+
+  try {
+    return decryptWithKey(Buffer.from(vaultFile.recovery.wrappedKey, 'base64'), recoveryKey);
+  } catch (error) {
+    return null;
+  }
+};
+
+// Get the recovery key back out of a vault file using its data key
+const unsealRecoveryKey = (vaultFile: VaultFile, key: Buffer): Buffer | null => {
+  if (!vaultFile.recovery) {
+    return null;
+  }
+  return decryptWithKey(Buffer.from(vaultFile.recovery.sealedKey, 'base64'), key);
+};
+
+// Recovery keys are shown to the user as base64
+const parseRecoveryKey = (recoveryKey: string): Buffer => {
+  const trimmed = typeof recoveryKey === 'string' ? recoveryKey.trim() : '';
+  const key = Buffer.from(trimmed, 'base64');
+
+  // Buffer.from skips invalid characters, so check the key survives a round trip
+  if (key.length !== RECOVERY_KEY_LENGTH || key.toString('base64') !== trimmed) {
+    throw new Error('Invalid recovery key');
+  }
+  return key;
+};
+
+// Recover both keys of an interrupted rotation from whichever secret was entered
+const recoverRotationKeys = async (
+  journal: RotationJournal,
+  vaultFile: VaultFile,
+  unwrap: (candidate: VaultFile) => Promise<Buffer | null>
+): Promise<RotationKeys | null> => {
+  const vaultKey = await unwrap(vaultFile);
+
+  if (vaultKey && vaultFile.wrappedKey === journal.vault.wrappedKey) {
+    // vault.json was already committed
+    return { journal, nextKey: vaultKey, previousKey: decryptWithKey(Buffer.from(journal.previousKey, 'base64'), vaultKey) };
+  }
+
+  if (vaultKey) {
+    return { journal, previousKey: vaultKey, nextKey: decryptWithKey(Buffer.from(journal.nextKey, 'base64'), vaultKey) };
+  }
+
+  const nextKey = await unwrap(journal.vault);
+  if (!nextKey) {
+    return null;
+  }
+  return { journal, nextKey, previousKey: decryptWithKey(Buffer.from(journal.previousKey, 'base64'), nextKey) };
+};
+
+const runRotation = async ({ journal, previousKey, nextKey }: RotationKeys, options: RotationOptions): Promise<void> => {
+  const dataRoot = getVaultDirectory();
+  rotationInProgress = true;
+
+  try {
+    if (journal.state === 'staging') {
+      const fromKeys = options.resolveLegacyPassword
+        ? { key: previousKey, resolveLegacyPassword: options.resolveLegacyPassword }
+        : { key: previousKey };
+      await stageReencryptedItems(dataRoot, dataDirectories, fromKeys, { key: nextKey }, options.onProgress);
+
+      journal = { ...journal, state: 'committing' };
+      await writeJsonAtomic(getJournalPath(), journal);
+    }
+
+    // From here on the new key is authoritative
+    await writeJsonAtomic(getVaultFilePath(), journal.vault);
+    await commitStagedItems(dataRoot, dataDirectories, options.onProgress);
+  } catch (error) {
+    // Keep the keys so the rotation can still be resumed - data access stays blocked until it is
+    pendingRotation = { journal, previousKey, nextKey };
+    throw error;
+  } finally {
+    rotationInProgress = false;
+  }
+
+  // Stay locked if the vault was locked while the rotation ran
+  if (dataKey) {
+    dataKey.fill(0);
+    dataKey = Buffer.from(nextKey);
+  }
+  previousKey.fill(0);
+  nextKey.fill(0);
+};
+
+const validatePassphrase = (passphrase: string): void => {
+  if (!passphrase || typeof passphrase !== 'string') {
+    throw new Error('Passphrase is required and must be a string');
+  }
+
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long`);
+  }
+};
+
+/**
+ * Set the directory holding the vault file and the item directories it protects
+ */
+export function configureVault(directory: string, directories: string[] = []): void {
+  vaultDirectory = directory;
+  dataDirectories = directories;
+}
+
+/**
+ * Whether a vault has been created on this machine
+ */
+export async function isVaultInitialized(): Promise<boolean> {
+  return (await readVaultFile()) !== null;
+}
+
+/**
+ * Whether the data key is currently held in memory
+ */
+export function isVaultUnlocked(): boolean {
+  return dataKey !== null;
+}
+
+/**
+ * Create a new vault protected by the given passphrase and recovery key, and leave it unlocked
+ */
+export async function setupVault(passphrase: string, recoveryKey: string): Promise<void> {
+  validatePassphrase(passphrase);
+  const recoveryKeyBytes = parseRecoveryKey(recoveryKey);
+
+  if (await isVaultInitialized()) {
+    throw new Error('Vault already exists');
+  }
+
+  const newDataKey = generateKey();
+  await writeJsonAtomic(getVaultFilePath(), await wrapDataKey(newDataKey, passphrase, recoveryKeyBytes));
+
+  recoveryKeyBytes.fill(0);
+  dataKey = newDataKey;
+}
+
+/**
+ * Unlock the vault. Returns false if the passphrase is wrong.
+ * If a key rotation was interrupted, either the old or the new passphrase unlocks
+ * the vault and the rotation is left pending for resumeKeyRotation.
+ */
+export async function unlockVault(passphrase: string): Promise<boolean> {
+  const vaultFile = await readVaultFile();
+  if (!vaultFile) {
+    throw new Error('Vault has not been set up');
+  }
+
+  const journal = await readRotationJournal();
+  if (!journal) {
+    const key = await unwrapDataKey(vaultFile, passphrase);
+    if (!key) {
+      return false;
+    }
+    dataKey = key;
+    return true;
+  }
+
+  const rotationKeys = await recoverRotationKeys(journal, vaultFile, candidate => unwrapDataKey(candidate, passphrase));
+  if (!rotationKeys) {
+    return false;
+  }
+
+  pendingRotation = rotationKeys;
+  dataKey = Buffer.from(journal.state === 'staging' ? rotationKeys.previousKey : rotationKeys.nextKey);
+  return true;
+}
+
+/**
+ * Whether an interrupted key rotation is waiting to be resumed
+ */
+export function hasPendingRotation(): boolean {
+  return pendingRotation !== null;
+}
+
+/**
+ * Finish a key rotation that was interrupted before it completed
+ */
+export async function resumeKeyRotation(options: RotationOptions = {}): Promise<void> {
+  if (!pendingRotation) {
+    return;
+  }
+
+  const rotationKeys = pendingRotation;
+  pendingRotation = null;
+  await runRotation(rotationKeys, options);
+}
+
+/**
+ * Change the vault passphrase and rotate the data key, re-encrypting every item.
+ * Returns false if the current passphrase is wrong.
+ */
+export async function changePassphrase(
+  currentPassphrase: string,
+  newPassphrase: string,
+  options: RotationOptions = {}
+): Promise<boolean> {
+  validatePassphrase(newPassphrase);
+
+  if (!dataKey) {
+    throw new VaultLockedError();
+  }
+
+  if (rotationInProgress || pendingRotation || await readRotationJournal()) {
+    throw new VaultRotationInProgressError();
+  }
+
+  const vaultFile = await readVaultFile();
+  if (!vaultFile) {
+    throw new Error('Vault has not been set up');
+  }
+
+  const previousKey = await unwrapDataKey(vaultFile, currentPassphrase);
+  if (!previousKey) {
+    return false;
+  }
+
+  const nextKey = generateKey();
+  const recoveryKey = unsealRecoveryKey(vaultFile, previousKey);
+  const journal: RotationJournal = {
+    version: 1,
+    state: 'staging',
+    vault: await wrapDataKey(nextKey, newPassphrase, recoveryKey),
+    nextKey: encryptWithKey(nextKey, previousKey).toString('base64'),
+    previousKey: encryptWithKey(previousKey, nextKey).toString('base64'),
+    started: new Date().toISOString()
+  };
+  recoveryKey?.fill(0);
+
+  await writeJsonAtomic(getJournalPath(), journal);
+  await runRotation({ journal, previousKey, nextKey }, options);
+  return true;
+}
+
+/**
+ * Set a new passphrase using the recovery key and leave the vault unlocked.
+ * Returns false if the recovery key does not match this vault.
+ */
+export async function recoverVault(
+  recoveryKey: string,
+  newPassphrase: string,
+  options: RotationOptions = {}
+): Promise<boolean> {
+  validatePassphrase(newPassphrase);
+  const recoveryKeyBytes = parseRecoveryKey(recoveryKey);
+
+  try {
+    const journal = await readRotationJournal();
+    if (journal) {
+      // Finish an interrupted passphrase change first so vault.json holds the current data key
+      const vaultFile = await readVaultFile();
+      if (!vaultFile) {
+        throw new Error('Vault has not been set up');
+      }
+
+      const rotationKeys = await recoverRotationKeys(journal, vaultFile, candidate => unwrapDataKeyWithRecovery(candidate, recoveryKeyBytes));
+      if (!rotationKeys) {
+        return false;
+      }
+      await runRotation(rotationKeys, options);
+    }
+
+    const vaultFile = await readVaultFile();
+    if (!vaultFile) {
+      throw new Error('Vault has not been set up');
+    }
+    if (!vaultFile.recovery) {
+      throw new Error('This vault has no recovery key');
+    }
+
+    const key = await unwrapDataKeyWithRecovery(vaultFile, recoveryKeyBytes);
+    if (!key) {
+      return false;
+    }
+
+    // The data key is unchanged, so stored items do not need re-encrypting
+    await writeJsonAtomic(getVaultFilePath(), {
+      ...(await wrapDataKey(key, newPassphrase, recoveryKeyBytes)),
+      created: vaultFile.created
+    });
+
+    dataKey?.fill(0);
+    dataKey = key;
+    return true;
+  } finally {
+    recoveryKeyBytes.fill(0);
+  }
+}
+
+/**
+ * Wipe the data key from memory and notify listeners
+ */
+export function lockVault(): void {
+  if (pendingRotation) {
+    pendingRotation.previousKey.fill(0);
+    pendingRotation.nextKey.fill(0);
+    pendingRotation = null;
+  }
+
+  if (!dataKey) {
+    return;
+  }
+
+  dataKey.fill(0);
+  dataKey = null;
+
+  for (const listener of lockListeners) {
+    listener();
+  }
+}
+
+/**
+ * Get the in-memory data key, refusing access while locked or while the key is being rotated
+ */
+export function getVaultKey(): Buffer {
+  if (!dataKey) {
+    throw new VaultLockedError();
+  }
+  if (rotationInProgress || pendingRotation) {
+    throw new VaultRotationInProgressError();
+  }
+  return dataKey;
+}
+
+/**
+ * Subscribe to lock events. Returns an unsubscribe function.
+ */
+export function onVaultLocked(listener: () => void): () => void {
+  lockListeners.add(listener);
+  return () => {
+    lockListeners.delete(listener);
+  };
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Modal from './Modal';
+import ipcService, { VaultRotationProgress } from '../services/ipcService';
+
+interface ChangePassphraseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const describeRotationProgress = (progress: VaultRotationProgress) => {
+  switch (progress.phase) {
+    case 'reencrypting':
+      return `Re-encrypting items (${progress.completed} of ${progress.total})`;
+    case 'swapping':
+      return 'Replacing stored items...';
+    case 'complete':
+      return 'Done';
+  }
+};
+
+export default function ChangePassphraseModal({ isOpen, onClose }: ChangePassphraseModalProps) {
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<VaultRotationProgress | null>(null);
+  const [changed, setChanged] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    return ipcService.onVaultRotationProgress(setProgress);
+  }, [isOpen]);
+
+  const resetAndClose = () => {
+    // The rotation cannot be cancelled once it has started
+    if (loading) return;
+
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+    setProgress(null);
+    setChanged(false);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loading) return;
+
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+      return;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      setError('Passphrases do not match.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setProgress(null);
+
+    try {
+      const result = await ipcService.changeVaultPassphrase(currentPassphrase, newPassphrase);
+      if (!result.success) {
+        setError(result.error || 'Failed to change passphrase.');
+        return;
+      }
+
+      setChanged(true);
+    } catch (err) {
+      setError('Failed to change passphrase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName = `mb-4 px-4 py-2 rounded bg-[#232323] border border-white/10 focus:outline-none focus:ring-2 focus:ring-blue-500 font-surt-medium ${loading || changed ? 'text-white/60 cursor-not-allowed' : 'text-white'}`;
+
+  return (
+    <Modal isOpen={isOpen} onClose={resetAndClose} maxWidth="md">
+      <form
+        className="flex flex-col flex-1 p-8"
+        style={{ minHeight: 0 }}
+        onSubmit={handleSubmit}
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-white text-lg mb-2 font-surt-medium">Change Passphrase</h2>
+        <p className="text-gray-400 text-sm mb-6 font-surt-medium">
+          Every item is re-encrypted with a new key. Keep the app open until this finishes.
+        </p>
+
+        <label className="text-gray-300 text-sm mb-2 font-surt-medium" htmlFor="current-passphrase">Current passphrase</label>
+        <input
+          id="current-passphrase"
+          className={inputClassName}
+          type="password"
+          value={currentPassphrase}
+          onChange={e => setCurrentPassphrase(e.target.value)}
+          disabled={loading || changed}
+          autoComplete="off"
+        />
+
+        <label className="text-gray-300 text-sm mb-2 font-surt-medium" htmlFor="new-passphrase">New passphrase</label>
+        <input
+          id="new-passphrase"
+          className={inputClassName}
+          type="password"
+          value={newPassphrase}
+          onChange={e => setNewPassphrase(e.target.value)}
+          disabled={loading || changed}
+          autoComplete="off"
+        />
+
+        <label className="text-gray-300 text-sm mb-2 font-surt-medium" htmlFor="confirm-new-passphrase">Confirm new passphrase</label>
+        <input
+          id="confirm-new-passphrase"
+          className={inputClassName}
+          type="password"
+          value={confirmPassphrase}
+          onChange={e => setConfirmPassphrase(e.target.value)}
+          disabled={loading || changed}
+          autoComplete="off"
+        />
+
+        {loading && progress && (
+          <div className="mb-4">
+            <div className="text-gray-300 text-sm mb-2 font-surt-medium">{describeRotationProgress(progress)}</div>
+            <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className="h-full bg-white/60 transition-all duration-200"
+                style={{ width: `${progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {changed && <div className="text-green-400 mb-4 text-sm">Passphrase changed.</div>}
+        {error && <div className="text-red-400 mb-4 text-sm">{error}</div>}
+
+        <div className="flex justify-end gap-3 mt-auto">
+          <button
+            type="button"
+            className={`px-5 py-2 rounded-full transition-colors text-base font-surt-medium shadow-none ${loading ? 'text-white/60 cursor-not-allowed' : 'bg-white/10 text-white hover:bg-white/20'}`}
+            onClick={resetAndClose}
+            disabled={loading}
+          >
+            {changed ? 'Close' : 'Cancel'}
+          </button>
+          {!changed && (
+            <button
+              type="submit"
+              className={`px-5 py-2 rounded-full transition-colors text-base font-surt-medium shadow-none ${loading || !currentPassphrase || !newPassphrase ? 'bg-white/20 text-white/60 cursor-not-allowed' : 'bg-white/20 text-white hover:bg-white/30'}`}
+              disabled={loading || !currentPassphrase || !newPassphrase}
+            >
+              {loading ? 'Changing...' : 'Change Passphrase'}
+            </button>
+          )}
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -24,10 +24,16 @@ const katexOptions = {
 };
 
 import TokenCountDisplay from './TokenCountDisplay';
-import { DEFAULT_SYSTEM_PROMPT } from '@/utils/constants';
+import { DEFAULT_SYSTEM_PROMPT, DEFAULT_MODEL } from '@/utils/constants';
 import SystemPromptsList from './SystemPromptsList';
 import TextareaAutosize from 'react-textarea-autosize';
 import ipcService from '../services/ipcService';
+import { rehypeSourceOffsets, selectionToContent, textToContent } from '../utils/markdownToTiptap';
+import type { ProvenanceSource } from '../utils/provenanceMark';
+import type { JSONContent } from '@tiptap/react';
+import type { ModelInfo } from '../../electron/shared/ipcContract';
+import { useModels } from '../hooks/useModels';
+import { findModel } from '../utils/tokenCount';
 
 
 interface Message {
@@ -40,6 +46,10 @@ interface Message {
     completion_tokens: number;
     total_tokens: number;
   };
+  // The reply was stopped before it finished
+  interrupted?: boolean;
+  // Shown in the chat only: not sent to the model or saved with the conversation
+  localOnly?: boolean;
 }
 
 interface Conversation {
@@ -47,13 +57,13 @@ interface Conversation {
   title: string;
   created: string;
   lastModified: string;
-  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
+  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string; interrupted?: boolean }>;
 }
 
 interface ChatPanelProps {
   currentConversation: Conversation | null;
   onConversationUpdate: (conversation: Conversation) => void;
-  onAddToNarrative?: (text: string) => void;
+  onAddToNarrative?: (content: JSONContent[], source?: ProvenanceSource) => void;
   systemPrompt: string | { title: string; body: string };
   onSystemPromptChange: (prompt: string) => void;
   selectedModel?: string;
@@ -61,10 +71,16 @@ interface ChatPanelProps {
   onOpenSystemPrompts: () => void;
   systemPromptTitle?: string;
   onOpenConversations?: () => void;
+  // A message to scroll to once its conversation is shown
+  focusedMessage?: ProvenanceSource | null;
+  onMessageFocused?: () => void;
 }
 
-const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPanelProps>(({ currentConversation, onConversationUpdate, onAddToNarrative, systemPrompt, onSystemPromptChange, selectedModel = 'grok-4-0709', onModelChange, onOpenSystemPrompts, systemPromptTitle, onOpenConversations }, ref) => {
+const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPanelProps>(({ currentConversation, onConversationUpdate, onAddToNarrative, systemPrompt, onSystemPromptChange, selectedModel = DEFAULT_MODEL, onModelChange, onOpenSystemPrompts, systemPromptTitle, onOpenConversations, focusedMessage, onMessageFocused }, ref) => {
   const [messages, setMessages] = useState<Message[]>([]);
+  // The conversation the loaded messages belong to
+  const [messagesConversationId, setMessagesConversationId] = useState<string | null>(null);
+  const [highlightedMessageIndex, setHighlightedMessageIndex] = useState<number | null>(null);
   const [inputValue, setInputValue] = useState('');
   const [selectedContext, setSelectedContext] = useState<{ id: string; title: string; body: string; created: string; lastModified: string } | null>(null);
 
@@ -81,10 +97,22 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
     }
   }));
   const [isLoading, setIsLoading] = useState(false);
+  // The reply so far while it streams in
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const streamedTextRef = useRef('');
+  const streamFrameRef = useRef<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const availableModels = useModels();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
 
+  // Top-level blocks keep the source offsets from rehypeSourceOffsets, for adding a selection to the narrative
+  const sourceOffsets = (props: any) => ({
+    'data-source-start': props['data-source-start'],
+    'data-source-end': props['data-source-end']
+  });
+
   // Simplified markdown components - focus on styling only
   const markdownComponents = {
     // Remove empty divs
@@ -95,22 +123,22 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
       return <div className={className} {...props}>{children}</div>;
     },
     // Headings
-    h1: ({children}: any) => <h1 className="text-lg font-bold text-gray-100 mb-2 mt-3">{children}</h1>,
-    h2: ({children}: any) => <h2 className="text-base font-bold text-gray-100 mb-2 mt-2">{children}</h2>,
-    h3: ({children}: any) => <h3 className="text-xl font-bold text-gray-100 mb-1 mt-2">{children}</h3>,
+    h1: ({children, ...props}: any) => <h1 className="text-lg font-bold text-gray-100 mb-2 mt-3" {...sourceOffsets(props)}>{children}</h1>,
+    h2: ({children, ...props}: any) => <h2 className="text-base font-bold text-gray-100 mb-2 mt-2" {...sourceOffsets(props)}>{children}</h2>,
+    h3: ({children, ...props}: any) => <h3 className="text-xl font-bold text-gray-100 mb-1 mt-2" {...sourceOffsets(props)}>{children}</h3>,
     // Paragraphs
-    p: ({children}: any) => <p className="text-gray-100 leading-relaxed whitespace-pre-wrap mb-2">{children}</p>,
+    p: ({children, ...props}: any) => <p className="text-gray-100 leading-relaxed whitespace-pre-wrap mb-2" {...sourceOffsets(props)}>{children}</p>,
     // Emphasis
     strong: ({children}: any) => <strong className="font-bold text-gray-50">{children}</strong>,
     em: ({children}: any) => <em className="italic text-gray-200">{children}</em>,
     // Lists
-    ul: ({children}: any) => (
-      <ul className="mb-2 text-gray-100 space-y-1 list-none pl-0 [&>li>ul]:ml-4 [&>li>ol]:ml-4">
+    ul: ({children, ...props}: any) => (
+      <ul className="mb-2 text-gray-100 space-y-1 list-none pl-0 [&>li>ul]:ml-4 [&>li>ol]:ml-4" {...sourceOffsets(props)}>
         {children}
       </ul>
     ),
-    ol: ({children}: any) => (
-      <ol className="mb-2 text-gray-100 space-y-1 list-none pl-0 [&>li>ul]:ml-4 [&>li>ol]:ml-4">
+    ol: ({children, ...props}: any) => (
+      <ol className="mb-2 text-gray-100 space-y-1 list-none pl-0 [&>li>ul]:ml-4 [&>li>ol]:ml-4" {...sourceOffsets(props)}>
         {children}
       </ol>
     ),
@@ -144,14 +172,14 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
         </code>
       );
     },
-    pre: ({children}: any) => (
-      <pre className="bg-gray-600 p-2 rounded overflow-x-auto mb-2 text-xs">
+    pre: ({children, ...props}: any) => (
+      <pre className="bg-gray-600 p-2 rounded overflow-x-auto mb-2 text-xs" {...sourceOffsets(props)}>
         {children}
       </pre>
     ),
     // Blockquotes
-    blockquote: ({children}: any) => (
-      <blockquote className="border-l-4 border-white/10 pl-3 italic text-gray-300 mb-2">
+    blockquote: ({children, ...props}: any) => (
+      <blockquote className="border-l-4 border-white/10 pl-3 italic text-gray-300 mb-2" {...sourceOffsets(props)}>
         {children}
       </blockquote>
     ),
@@ -175,6 +203,12 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
     }
   }, [messages.length]);
 
+  // A model saved before models were keyed by provider is switched to its key
+  useEffect(() => {
+    const model = findModel(availableModels, selectedModel);
+    if (model && model.id !== selectedModel) onModelChange?.(model.id);
+  }, [availableModels, selectedModel, onModelChange]);
+
   // Load messages when conversation changes
   useEffect(() => {
     if (currentConversation) {
@@ -182,12 +216,14 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
         id: `${currentConversation.id}_${index}`,
         role: msg.role,
         content: msg.content,
-        timestamp: new Date(currentConversation.lastModified)
+        timestamp: new Date(currentConversation.lastModified),
+        ...(msg.interrupted ? { interrupted: true } : {})
       }));
       setMessages(loadedMessages);
     } else {
       setMessages([]);
     }
+    setMessagesConversationId(currentConversation?.id ?? null);
   }, [currentConversation]);
 
   // Auto-scroll when new messages are added
@@ -197,6 +233,37 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
     }
   }, [messages.length, scrollToLatestMessage]);
 
+  // Each message's index in the saved conversation, which provenance marks refer to, or null for
+  // messages that are not saved
+  const savedMessageIndexes = useMemo(() => {
+    let savedIndex = 0;
+    return messages.map(msg => (msg.localOnly ? null : savedIndex++));
+  }, [messages]);
+
+  // Scroll to a message a narrative passage came from, once its conversation's messages are loaded
+  useEffect(() => {
+    if (!focusedMessage || focusedMessage.conversationId !== messagesConversationId) return;
+    const messageIndex = savedMessageIndexes.indexOf(focusedMessage.messageIndex);
+    onMessageFocused?.();
+    if (messageIndex < 0) return;
+
+    requestAnimationFrame(() => {
+      const container = messagesContainerRef.current;
+      const messageElement = container?.querySelectorAll<HTMLElement>('.chat-message')[messageIndex];
+      if (container && messageElement) {
+        container.scrollTo({ top: messageElement.offsetTop - 24, behavior: 'smooth' });
+      }
+    });
+    setHighlightedMessageIndex(messageIndex);
+  }, [focusedMessage, messagesConversationId, savedMessageIndexes]);
+
+  // The highlight fades after a moment
+  useEffect(() => {
+    if (highlightedMessageIndex === null) return;
+    const timeoutId = setTimeout(() => setHighlightedMessageIndex(null), 2000);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageIndex]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!inputValue.trim() || isLoading) return;
@@ -212,13 +279,16 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
     setMessages(newMessages);
     setInputValue('');
     setIsLoading(true);
+    streamedTextRef.current = '';
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
       // Send plain text data to server - server handles encryption
 
       // Include the current user message in the conversation history
       const allMessages = [
-        ...messages.map(msg => ({
+        ...messages.filter(msg => !msg.localOnly).map(msg => ({
           role: msg.role,
           content: msg.content
         })),
@@ -237,13 +307,29 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
       const data = await ipcService.sendHealingMessage(
         allMessages,
         selectedModel,
-        typeof systemPrompt === 'string' ? systemPrompt : systemPrompt.body
+        typeof systemPrompt === 'string' ? systemPrompt : systemPrompt.body,
+        {
+          onDelta: delta => {
+            // Deltas arrive faster than it is worth re-rendering, so the text is shown once per frame
+            streamedTextRef.current += delta;
+            if (streamFrameRef.current === null) {
+              streamFrameRef.current = requestAnimationFrame(() => {
+                streamFrameRef.current = null;
+                setStreamingContent(streamedTextRef.current);
+              });
+            }
+          },
+          signal: abortController.signal
+        }
       );
 
       console.log('📨 Healing API response:', data);
 
-      if (data.error) {
-        throw new Error(data.error);
+      // Stopped before any reply: the message is taken back so it can be edited and sent again
+      if (data.interrupted && !data.response.trim()) {
+        setMessages(messages);
+        setInputValue(userMessage.content);
+        return;
       }
 
       // Server returns plain text response
@@ -258,6 +344,7 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
         content: aiResponse,
         timestamp: new Date(),
         usage: actualUsage,
+        ...(data.interrupted ? { interrupted: true } : {})
       };
 
       const updatedMessages = [...newMessages, assistantMessage];
@@ -269,27 +356,44 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
         title: currentConversation?.title || 'New Conversation',
         created: currentConversation?.created || new Date().toISOString(),
         lastModified: new Date().toISOString(),
-        messages: updatedMessages.map(msg => ({
+        messages: updatedMessages.filter(msg => !msg.localOnly).map(msg => ({
           role: msg.role,
-          content: msg.content
+          content: msg.content,
+          ...(msg.interrupted ? { interrupted: true } : {})
         }))
       };
       onConversationUpdate(updatedConversation);
 
     } catch (error) {
       // Silent error handling for privacy
+      if (abortController.signal.aborted) {
+        setMessages(messages);
+        setInputValue(userMessage.content);
+        return;
+      }
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
         content: 'Sorry, I encountered an error. Please try again.',
         timestamp: new Date(),
+        localOnly: true
       };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      if (streamFrameRef.current !== null) {
+        cancelAnimationFrame(streamFrameRef.current);
+        streamFrameRef.current = null;
+      }
+      setStreamingContent(null);
       setIsLoading(false);
+      abortControllerRef.current = null;
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -309,7 +413,7 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
     return (
       <div
         key={message.id}
-        className={`chat-message ${isLastMessage ? '' : 'mb-4'}`}
+        className={`chat-message rounded-lg transition-colors duration-500 ${isLastMessage ? '' : 'mb-4'} ${index === highlightedMessageIndex ? 'bg-white/5' : ''}`}
       >
         {/* Message Header */}
         <div className="flex items-center justify-between mb-2 chat-message-header pl-4 pr-4">
@@ -329,16 +433,19 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
               : 'text-white/95'
           }`}
         >
-          <div className="prose prose-invert max-w-none">
+          <div className="prose prose-invert max-w-none" data-message-index={index}>
             {isAssistant ? (
               <>
                 <ReactMarkdown 
                   remarkPlugins={[remarkGfm, remarkBreaks, remarkMath]}
-                  rehypePlugins={[[rehypeKatex, katexOptions], rehypeHighlight]}
+                  rehypePlugins={[rehypeSourceOffsets, [rehypeKatex, katexOptions], rehypeHighlight]}
                   components={markdownComponents}
                 >
                   {message.content}
                 </ReactMarkdown>
+                {message.interrupted && (
+                  <div className="text-xs text-white/40 italic mb-2">Stopped</div>
+                )}
                 <TokenCountDisplay 
                   messages={messages.slice(0, index + 1).map(msg => ({ 
                     role: msg.role, 
@@ -352,7 +459,7 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
             ) : (
               <ReactMarkdown 
                 remarkPlugins={[remarkGfm, remarkBreaks, remarkMath]}
-                rehypePlugins={[[rehypeKatex, katexOptions], rehypeHighlight]}
+                rehypePlugins={[rehypeSourceOffsets, [rehypeKatex, katexOptions], rehypeHighlight]}
                 components={markdownComponents}
               >
                 {message.content}
@@ -362,13 +469,16 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
         </div>
       </div>
     );
-  }, [messages.length, systemPrompt, selectedModel]);
+  }, [messages.length, systemPrompt, selectedModel, highlightedMessageIndex]);
 
-  // Memoized available models
-  const availableModels = useMemo(() => [
-    { id: 'grok-3', name: 'Grok 3', description: 'xAI\'s powerful model' },
-    { id: 'grok-4-0709', name: 'Grok 4', description: 'xAI\'s latest model' }
-  ], []);
+  // Models grouped by provider for the picker
+  const modelGroups = useMemo(() => {
+    const groups = new Map<string, ModelInfo[]>();
+    for (const model of availableModels) {
+      groups.set(model.providerName, [...(groups.get(model.providerName) ?? []), model]);
+    }
+    return Array.from(groups);
+  }, [availableModels]);
 
   // Memoized rendered messages
   const renderedMessages = useMemo(() => {
@@ -391,38 +501,54 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
                 const selection = window.getSelection();
                 if (!selection || selection.rangeCount === 0) return;
                 
-                // Get the selected text with preserved paragraph breaks
-                let selectedText = '';
-                
-                if (selection.rangeCount > 0) {
-                  const range = selection.getRangeAt(0);
-                  const fragment = range.cloneContents();
-                  
-                  // Convert the fragment to HTML and then process it
-                  const tempDiv = document.createElement('div');
-                  tempDiv.appendChild(fragment);
-                  
-                  // Get the HTML content
-                  const htmlContent = tempDiv.innerHTML;
-                  
-                  // Convert HTML to text while preserving paragraph breaks and bullet points
-                  selectedText = htmlContent
-                    .replace(/<br\s*\/?>/gi, '\n') // Convert <br> tags to newlines
-                    .replace(/<\/p>/gi, '\n\n') // Convert closing </p> tags to double newlines (paragraph breaks)
-                    .replace(/<p[^>]*>/gi, '') // Remove opening <p> tags
-                    .replace(/<\/li>/gi, '\n') // Convert closing </li> tags to newlines
-                    .replace(/<li[^>]*>/gi, '') // Remove opening <li> tags (bullet points are now part of text content)
-                    .replace(/<\/ul>/gi, '\n\n') // Convert closing </ul> tags to double newlines
-                    .replace(/<ul[^>]*>/gi, '') // Remove opening <ul> tags
-                    .replace(/<\/ol>/gi, '\n\n') // Convert closing </ol> tags to double newlines
-                    .replace(/<ol[^>]*>/gi, '') // Remove opening <ol> tags
-                    .replace(/<[^>]*>/g, '') // Remove any other HTML tags
-                    .replace(/\n{3,}/g, '\n\n') // Normalize multiple newlines to double newlines
-                    .trim();
+                const range = selection.getRangeAt(0);
+
+                // Within one message, the selection is taken from the message's markdown so
+                // emphasis, lists and quotes carry over
+                const startElement = range.startContainer instanceof Element ? range.startContainer : range.startContainer.parentElement;
+                const messageElement = startElement?.closest<HTMLElement>('[data-message-index]');
+                if (messageElement && messageElement.contains(range.endContainer)) {
+                  const index = Number(messageElement.dataset.messageIndex);
+                  const message = messages[index];
+                  const messageContent = message ? selectionToContent(range, messageElement, message.content) : null;
+                  if (messageContent) {
+                    const conversationId = currentConversation?.id;
+                    const savedIndex = savedMessageIndexes[index] ?? null;
+                    onAddToNarrative?.(
+                      messageContent,
+                      conversationId && savedIndex !== null ? { conversationId, messageIndex: savedIndex } : undefined
+                    );
+                    return;
+                  }
                 }
                 
+                // Otherwise, get the selected text with preserved paragraph breaks
+                const fragment = range.cloneContents();
+                
+                // Convert the fragment to HTML and then process it
+                const tempDiv = document.createElement('div');
+                tempDiv.appendChild(fragment);
+                
+                // Get the HTML content
+                const htmlContent = tempDiv.innerHTML;
+                
+                // Convert HTML to text while preserving paragraph breaks and bullet points
+                const selectedText = htmlContent
+                  .replace(/<br\s*\/?>/gi, '\n') // Convert <br> tags to newlines
+                  .replace(/<\/p>/gi, '\n\n') // Convert closing </p> tags to double newlines (paragraph breaks)
+                  .replace(/<p[^>]*>/gi, '') // Remove opening <p> tags
+                  .replace(/<\/li>/gi, '\n') // Convert closing </li> tags to newlines
+                  .replace(/<li[^>]*>/gi, '') // Remove opening <li> tags (bullet points are now part of text content)
+                  .replace(/<\/ul>/gi, '\n\n') // Convert closing </ul> tags to double newlines
+                  .replace(/<ul[^>]*>/gi, '') // Remove opening <ul> tags
+                  .replace(/<\/ol>/gi, '\n\n') // Convert closing </ol> tags to double newlines
+                  .replace(/<ol[^>]*>/gi, '') // Remove opening <ol> tags
+                  .replace(/<[^>]*>/g, '') // Remove any other HTML tags
+                  .replace(/\n{3,}/g, '\n\n') // Normalize multiple newlines to double newlines
+                  .trim();
+                
                 if (selectedText.length > 0 && onAddToNarrative) {
-                  onAddToNarrative(selectedText);
+                  onAddToNarrative(textToContent(selectedText));
                   // Don't clear selection - let user keep their selection
                 }
               }
@@ -439,7 +565,27 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
               renderedMessages
             )}
             
-            {isLoading && (
+            {isLoading && streamingContent && (
+              <div className="chat-message">
+                {/* The reply so far, rendered as it streams in */}
+                <div className="flex items-center justify-between mb-2 chat-message-header pl-4 pr-4">
+                  <div className="text-sm font-surt-medium text-gray-300">AI</div>
+                </div>
+                <div className="rounded-lg px-4 pt-3 pb-1 chat-message-content text-white/95">
+                  <div className="prose prose-invert max-w-none">
+                    <ReactMarkdown 
+                      remarkPlugins={[remarkGfm, remarkBreaks, remarkMath]}
+                      rehypePlugins={[[rehypeKatex, katexOptions], rehypeHighlight]}
+                      components={markdownComponents}
+                    >
+                      {streamingContent}
+                    </ReactMarkdown>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isLoading && !streamingContent && (
               <div className="chat-message">
                 {/* Loading Content - Show only the spinner without header */}
                 <div className="text-white/95 rounded-lg px-4 pt-3 pb-1 chat-message-content">
@@ -491,10 +637,19 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
                     }}
                     disabled={isLoading}
                   >
-                    {availableModels.map((model) => (
-                      <option key={model.id} value={model.id} className="bg-gray-800 text-white text-center font-surt-medium">
-                        {model.name}
+                    {!availableModels.some(model => model.id === selectedModel) && (
+                      <option value={selectedModel} className="bg-gray-800 text-white text-center font-surt-medium">
+                        {selectedModel.slice(selectedModel.indexOf(':') + 1)} (unavailable)
                       </option>
+                    )}
+                    {modelGroups.map(([providerName, models]) => (
+                      <optgroup key={providerName} label={providerName} className="bg-gray-800 text-white/60">
+                        {models.map((model) => (
+                          <option key={model.id} value={model.id} title={model.description} className="bg-gray-800 text-white text-center font-surt-medium">
+                            {model.name}
+                          </option>
+                        ))}
+                      </optgroup>
                     ))}
                   </select>
                 </div>
@@ -526,6 +681,18 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
                       </svg>
                     </button>
                   )}
+                  {isLoading ? (
+                    <button
+                      type="button"
+                      onClick={handleStop}
+                      className="w-8 h-8 text-xs rounded-full transition-colors flex items-center justify-center bg-white/10 text-white/60 hover:text-white hover:bg-white/20"
+                      title="Stop generating"
+                    >
+                      <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+                        <rect x="6" y="6" width="12" height="12" rx="1.5" />
+                      </svg>
+                    </button>
+                  ) : (
                   <button
                     type="submit"
                     disabled={!inputValue.trim() || isLoading}
@@ -540,6 +707,7 @@ const ChatPanel = forwardRef<{ addContextText: (text: string) => void }, ChatPan
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" />
                     </svg>
                   </button>
+                  )}
                 </div>
               </div>
           </form>
@@ -245,7 +245,7 @@ export default function ContextsList({
                       <button
                         onClick={e => {
                           e.stopPropagation();
-                          if (confirm('Are you sure you want to delete this context? This action cannot be undone.')) {
+                          if (confirm('Move this context to Trash? You can restore it from Trash.')) {
                             handleDeleteContext(id);
                           }
                         }}
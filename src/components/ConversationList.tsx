@@ -1,16 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
 import ItemListBrowser from './ItemListBrowser';
 import ipcService from '../services/ipcService';
-
-interface ConversationMetadata {
-  id: string;
-  title: string;
-  created: string;
-  lastModified: string;
-  messageCount: number;
-}
+import { usePagedList } from '../hooks/usePagedList';
+import type { ConversationSummary } from '../../electron/shared/ipcContract';
 
 interface ConversationListProps {
   isOpen: boolean;
@@ -19,7 +13,7 @@ interface ConversationListProps {
   onConversationSelect: (conversationId: string) => void;
   onNewConversation: () => void;
   onDeleteConversation: (conversationId: string) => void;
-  preloadedConversations?: Array<{ id: string; title: string; created: string; lastModified: string; messageCount: number }>;
+  refreshTrigger?: number;
 }
 
 export default function ConversationList({
@@ -29,41 +23,29 @@ export default function ConversationList({
   onConversationSelect,
   onNewConversation,
   onDeleteConversation,
-  preloadedConversations
+  refreshTrigger = 0
 }: ConversationListProps) {
-  const [conversations, setConversations] = useState<ConversationMetadata[]>([]);
+  const conversations = usePagedList<ConversationSummary>(async options => {
+    const data = await ipcService.getConversations(options);
+    return { items: data.conversations || [], nextCursor: data.nextCursor ?? null };
+  });
 
-  // Load conversations when the sidebar is opened
+  // Load the first page when the sidebar is opened or when refresh is triggered
   useEffect(() => {
     if (isOpen) {
-      if (preloadedConversations && preloadedConversations.length > 0) {
-        // Use preloaded data if available
-        setConversations(preloadedConversations);
-      } else {
-        // Fallback to API call if no preloaded data
-        loadConversations();
-      }
+      conversations.reload();
     } else {
       // Reset state when modal closes
-      setConversations([]);
-    }
-  }, [isOpen, preloadedConversations]);
-
-  const loadConversations = async () => {
-    try {
-      const data = await ipcService.getConversations();
-      setConversations(data.conversations || []);
-    } catch (error) {
-      // Silent error handling for privacy
+      conversations.clear();
     }
-  };
+  }, [isOpen, refreshTrigger]);
 
   const handleDelete = async (conversationId: string) => {
     try {
       const result = await ipcService.deleteConversation(conversationId);
       
       if (result.success) {
-        setConversations(prev => prev.filter(conv => conv.id !== conversationId));
+        conversations.removeItem(conversationId);
         onDeleteConversation(conversationId);
       } else {
         // Failed to delete conversation
@@ -74,10 +56,13 @@ export default function ConversationList({
   };
 
   return (
-    <ItemListBrowser<ConversationMetadata>
+    <ItemListBrowser<ConversationSummary>
       isOpen={isOpen}
       onClose={onClose}
-      items={conversations}
+      items={conversations.items}
+      hasMore={conversations.hasMore}
+      isLoadingMore={conversations.isLoading}
+      onLoadMore={conversations.loadMore}
       currentItemId={currentConversationId}
       onItemSelect={c => onConversationSelect(c.id)}
       onNewItem={onNewConversation}
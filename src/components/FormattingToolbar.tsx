@@ -0,0 +1,61 @@
+'use client';
+
+import { Editor, useEditorState } from '@tiptap/react';
+import { BubbleMenu } from '@tiptap/react/menus';
+
+interface FormattingToolbarProps {
+  editor: Editor;
+}
+
+const buttonClassName = (isActive: boolean) =>
+  `min-w-7 h-7 px-1.5 rounded text-sm transition-colors ${isActive ? 'bg-white/20 text-white' : 'text-white/70 hover:text-white hover:bg-white/10'}`;
+
+// Floating toolbar shown over a text selection
+export default function FormattingToolbar({ editor }: FormattingToolbarProps) {
+  const active = useEditorState({
+    editor,
+    selector: ({ editor }) => ({
+      bold: editor.isActive('bold'),
+      italic: editor.isActive('italic'),
+      heading1: editor.isActive('heading', { level: 1 }),
+      heading2: editor.isActive('heading', { level: 2 }),
+      heading3: editor.isActive('heading', { level: 3 }),
+      blockquote: editor.isActive('blockquote'),
+      bulletList: editor.isActive('bulletList'),
+      orderedList: editor.isActive('orderedList'),
+    }),
+  });
+
+  const buttons = [
+    { label: 'B', title: 'Bold (⌘+B)', isActive: active.bold, className: 'font-bold', run: () => editor.chain().focus().toggleBold().run() },
+    { label: 'I', title: 'Italic (⌘+I)', isActive: active.italic, className: 'italic', run: () => editor.chain().focus().toggleItalic().run() },
+    { label: 'H1', title: 'Heading 1 (⌘+1)', isActive: active.heading1, run: () => editor.chain().focus().toggleHeading({ level: 1 }).run() },
+    { label: 'H2', title: 'Heading 2 (⌘+2)', isActive: active.heading2, run: () => editor.chain().focus().toggleHeading({ level: 2 }).run() },
+    { label: 'H3', title: 'Heading 3 (⌘+3)', isActive: active.heading3, run: () => editor.chain().focus().toggleHeading({ level: 3 }).run() },
+    { label: '“', title: 'Quote (⌘+Shift+B)', isActive: active.blockquote, run: () => editor.chain().focus().toggleBlockquote().run() },
+    { label: '•', title: 'Bullet list (⌘+Shift+8)', isActive: active.bulletList, run: () => editor.chain().focus().toggleBulletList().run() },
+    { label: '1.', title: 'Numbered list (⌘+Shift+7)', isActive: active.orderedList, run: () => editor.chain().focus().toggleOrderedList().run() },
+    // Inserted after the selection rather than replacing it
+    { label: '—', title: 'Divider (---)', isActive: false, run: () => editor.chain().focus().setTextSelection(editor.state.selection.to).setHorizontalRule().run() },
+  ];
+
+  return (
+    <BubbleMenu
+      editor={editor}
+      className="flex gap-0.5 p-1 bg-[#2a2a2a] border border-white/10 rounded-lg shadow-lg z-20"
+    >
+      {buttons.map(button => (
+        <button
+          key={button.title}
+          type="button"
+          onMouseDown={e => e.preventDefault()}
+          onClick={button.run}
+          className={`${buttonClassName(button.isActive)} ${button.className ?? ''}`}
+          title={button.title}
+        >
+          {button.label}
+        </button>
+      ))}
+    </BubbleMenu>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useCallback } from 'react';
 import ipcService from '../services/ipcService';
+import { MAX_IMAGE_UPLOAD_BYTES } from '../../electron/shared/ipcContract';
 
 interface ImageFormProps {
   isOpen: boolean;
@@ -28,9 +29,9 @@ export default function ImageForm({ isOpen, onClose, onCreated, initialImage, vi
       return;
     }
 
-    // Validate file size (10MB limit)
-    if (file.size > 10 * 1024 * 1024) {
-      setError('Image file size must be less than 10MB.');
+    // Larger files are accepted as long as they fit in 10MB once processed
+    if (file.size > MAX_IMAGE_UPLOAD_BYTES) {
+      setError('Image file size must be less than 50MB.');
       return;
     }
 
@@ -114,7 +115,7 @@ export default function ImageForm({ isOpen, onClose, onCreated, initialImage, vi
       });
 
       if (!result.success) {
-        setError('Failed to upload image.');
+        setError(result.error);
         setLoading(false);
         return;
       }
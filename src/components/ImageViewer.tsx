@@ -1,15 +1,21 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import ipcService from '../services/ipcService';
+
+interface ViewerImage {
+  id: string;
+  title: string;
+  url: string;
+  thumbnailUrl?: string;
+}
 
 interface ImageViewerProps {
   isOpen: boolean;
   onClose: () => void;
   onBackToList: () => void;
-  image: { id: string; title: string; url: string } | null;
-  images?: Array<{ id: string; title: string; url: string }>;
-  onImageChange?: (image: { id: string; title: string; url: string }) => void;
+  image: ViewerImage | null;
+  images?: ViewerImage[];
+  onImageChange?: (image: ViewerImage) => void;
 }
 
 export default function ImageViewer({ 
@@ -24,36 +30,13 @@ export default function ImageViewer({
   const [imageError, setImageError] = useState(false);
   const [displayUrl, setDisplayUrl] = useState<string>('');
 
-  // Load image content when image changes
+  // The full-resolution image is only requested once it is shown; its thumbnail stands in until it loads
   useEffect(() => {
     if (!image) return;
-    
-    const loadImageContent = async () => {
-      setImageLoaded(false);
-      setImageError(false);
-      
-      try {
-        if (image.url.startsWith('ipc://')) {
-          // Handle IPC images
-          const imageId = image.url.replace('ipc://images/', '').replace('/content', '');
-          const result = await ipcService.getImageContent(imageId);
-          
-          if (result.success) {
-            const dataUrl = `data:${result.mimeType};base64,${result.data}`;
-            setDisplayUrl(dataUrl);
-          } else {
-            setImageError(true);
-          }
-        } else {
-          // Handle regular HTTP/HTTPS URLs
-          setDisplayUrl(image.url);
-        }
-      } catch (error) {
-        setImageError(true);
-      }
-    };
-    
-    loadImageContent();
+
+    setImageLoaded(false);
+    setImageError(false);
+    setDisplayUrl(image.url);
   }, [image]);
 
   if (!isOpen || !image) return null;
@@ -176,6 +159,20 @@ export default function ImageViewer({
       {/* Main Content - Centered Image */}
       <div className="flex-1 flex items-center justify-center p-8">
         <div className="relative w-full h-full flex items-center justify-center">
+          {image.thumbnailUrl && !imageLoaded && !imageError && (
+            <img
+              src={image.thumbnailUrl}
+              alt=""
+              aria-hidden="true"
+              className="absolute max-h-full max-w-full object-contain blur-sm opacity-60"
+              style={{
+                height: '100%',
+                width: 'auto',
+                maxWidth: '100%'
+              }}
+            />
+          )}
+
           {(!displayUrl || (!imageLoaded && !imageError)) && (
             <div className="absolute inset-0 flex items-center justify-center">
               <div className="text-gray-400 text-center">
@@ -1,18 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import ItemListBrowser from './ItemListBrowser';
+import { useState } from 'react';
+import ItemListBrowser, { LoadMoreButton } from './ItemListBrowser';
 import ipcService from '../services/ipcService';
 import ImageForm from './ImageForm';
 import Modal from './Modal';
 
-interface Image {
-  id: string;
-  title: string;
-  created: string;
-  lastModified: string;
-  url: string;
-}
+import type { ImageSummary } from '../../electron/shared/ipcContract';
 
 interface ImagesListProps {
   isOpen: boolean;
@@ -21,14 +15,38 @@ interface ImagesListProps {
   onImageSelect: (imageId: string) => void;
   onNewImage: () => void;
   onDeleteImage: (imageId: string) => void;
-  preloadedImages?: Array<{ id: string; title: string; created: string; lastModified: string; url: string }>;
-  refreshTrigger?: number;
-  viewingImage?: { id: string; title: string; url: string } | null;
-  onViewingImageChange?: (image: { id: string; title: string; url: string } | null) => void;
+  // Paged by the parent, which shares the list with the image viewer
+  images: ImageSummary[];
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  viewingImage?: { id: string; title: string; url: string; thumbnailUrl?: string } | null;
+  onViewingImageChange?: (image: { id: string; title: string; url: string; thumbnailUrl?: string } | null) => void;
   isInsideModal?: boolean;
   onImageCreated?: (image: { id: string; title: string; created: string; lastModified: string; url: string }) => void;
 }
 
+// Thumbnails load lazily so only rows scrolled into view are decrypted
+function ImageThumbnail({ image }: { image: ImageSummary }) {
+  return (
+    <img
+      src={image.thumbnailUrl}
+      alt=""
+      loading="lazy"
+      className="w-10 h-10 flex-shrink-0 rounded-md object-cover bg-white/5"
+    />
+  );
+}
+
+function ImageTitle({ image }: { image: ImageSummary }) {
+  return (
+    <div className="flex items-center gap-3 min-w-0">
+      <ImageThumbnail image={image} />
+      <span className="truncate">{image.title}</span>
+    </div>
+  );
+}
+
 export default function ImagesList({
   isOpen,
   onClose,
@@ -36,92 +54,19 @@ export default function ImagesList({
   onImageSelect,
   onNewImage,
   onDeleteImage,
-  preloadedImages,
-  refreshTrigger = 0,
+  images,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
   viewingImage,
   onViewingImageChange,
   isInsideModal = false,
   onImageCreated,
 }: ImagesListProps) {
-  const [images, setImages] = useState<Image[]>([]);
-
-  // Load images when the modal is opened, when preloaded data changes, or when refresh is triggered
-  useEffect(() => {
-    if (isOpen) {
-      if (preloadedImages && preloadedImages.length > 0) {
-
-        
-        // Filter out any invalid images from preloaded data too
-        const validPreloadedImages = preloadedImages.filter(img => {
-          const isValid = img.title && img.title.trim() !== '' && 
-                         img.created && !isNaN(new Date(img.created).getTime()) &&
-                         img.lastModified && !isNaN(new Date(img.lastModified).getTime());
-          
-          if (!isValid) {
-            // Filter out invalid image
-          }
-          
-          return isValid;
-        });
-        
-
-        
-        // Use preloaded data if available, sorted by creation date (newest first)
-        const sortedImages = validPreloadedImages.sort((a, b) => 
-          new Date(b.created).getTime() - new Date(a.created).getTime()
-        );
-        
-
-        setImages(sortedImages);
-      } else {
-        // Fallback to API call if no preloaded data
-        loadImages();
-      }
-    } else {
-      // Reset state when modal closes
-      setImages([]);
-    }
-  }, [isOpen, preloadedImages, refreshTrigger]);
-
-  const loadImages = async () => {
-    try {
-      const data = await ipcService.getImages();
-      
-      if (data.images) {
-        // Filter out any invalid images (empty titles, invalid dates)
-        const validImages = data.images.filter(img => {
-          const isValid = img.title && img.title.trim() !== '' && 
-                         img.created && !isNaN(new Date(img.created).getTime()) &&
-                         img.lastModified && !isNaN(new Date(img.lastModified).getTime());
-          
-          if (!isValid) {
-            // Filter out invalid image
-          }
-          
-          return isValid;
-        });
-        
-
-        
-        // Sort images by last modified date (newest first)
-        const sortedImages = validImages.sort((a, b) => 
-          new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()
-        );
-        
-
-        setImages(sortedImages);
-      }
-    } catch (error) {
-      // Silent error handling for privacy
-    }
-  };
-
   const handleDelete = async (imageId: string) => {
     try {
       const result = await ipcService.deleteImage(imageId);
       if (result.success) {
-        // Update local state immediately for better UX
-        setImages(prev => prev.filter(img => img.id !== imageId));
         onDeleteImage(imageId);
       } else {
         // Failed to delete image
@@ -134,17 +79,20 @@ export default function ImagesList({
   // If not inside a modal, use the full ItemListBrowser component
   if (!isInsideModal) {
     return (
-      <ItemListBrowser<Image>
+      <ItemListBrowser<ImageSummary>
         isOpen={isOpen}
         onClose={onClose}
         items={images}
+        hasMore={hasMore}
+        isLoadingMore={isLoadingMore}
+        onLoadMore={onLoadMore}
         currentItemId={currentImageId}
         onItemSelect={img => {
-          onViewingImageChange?.({ id: img.id, title: img.title, url: img.url });
+          onViewingImageChange?.({ id: img.id, title: img.title, url: img.url, thumbnailUrl: img.thumbnailUrl });
         }}
         onNewItem={onNewImage}
         onDeleteItem={handleDelete}
-        renderItemTitle={img => img.title}
+        renderItemTitle={img => <ImageTitle image={img} />}
         renderItemDate={img => {
           const date = new Date(img.lastModified);
           const month = (date.getMonth() + 1).toString().padStart(2, '0');
@@ -182,7 +130,7 @@ export default function ImagesList({
                 <div key={id}>
                   <div
                     onClick={() => {
-                      onViewingImageChange?.({ id: item.id, title: item.title, url: item.url });
+                      onViewingImageChange?.({ id: item.id, title: item.title, url: item.url, thumbnailUrl: item.thumbnailUrl });
                       onClose();
                     }}
                     className={`flex items-center justify-between px-4 py-4 cursor-pointer transition-all rounded-[12px] ${
@@ -190,8 +138,8 @@ export default function ImagesList({
                         ? 'bg-[rgba(255,255,255,0.1)]' : 'hover:bg-white/5'
                     }`}
                   >
-                    <div className="truncate text-white text-base font-surt-medium">
-                      {item.title}
+                    <div className="min-w-0 text-white text-base font-surt-medium">
+                      <ImageTitle image={item} />
                     </div>
                     <div className="flex items-center gap-4">
                       <span className="text-gray-400 text-sm font-surt-medium">
@@ -206,7 +154,7 @@ export default function ImagesList({
                       <button
                         onClick={e => {
                           e.stopPropagation();
-                          if (confirm('Are you sure you want to delete this image? This action cannot be undone.')) {
+                          if (confirm('Move this image to Trash? You can restore it from Trash.')) {
                             handleDelete(id);
                           }
                         }}
@@ -222,6 +170,9 @@ export default function ImagesList({
                 </div>
               );
             })}
+            {hasMore && onLoadMore && (
+              <LoadMoreButton isLoading={isLoadingMore} onClick={onLoadMore} />
+            )}
           </div>
         ) : (
           <div className="flex items-start justify-center h-full pt-8">
@@ -245,8 +196,10 @@ export function ImagesListModal({
   onImageSelect,
   onNewImage,
   onDeleteImage,
-  preloadedImages,
-  refreshTrigger = 0,
+  images,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
   viewingImage,
   onViewingImageChange,
   onImageCreated,
@@ -277,8 +230,10 @@ export function ImagesListModal({
             onImageSelect={onImageSelect}
             onNewImage={() => setMode('form')}
             onDeleteImage={onDeleteImage}
-            preloadedImages={preloadedImages}
-            refreshTrigger={refreshTrigger}
+            images={images}
+            hasMore={hasMore}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={onLoadMore}
             viewingImage={viewingImage}
             onViewingImageChange={onViewingImageChange}
             isInsideModal={true}
@@ -15,7 +15,28 @@ interface ItemListBrowserProps<T> {
   newItemLabel?: string;
   canDeleteItem?: (item: T) => boolean;
   closeOnNewItem?: boolean;
+  // Keep the list open after an item is clicked
+  closeOnSelect?: boolean;
+  deleteConfirmMessage?: string;
   renderItemActions?: (item: T) => React.ReactNode;
+  // Paging - a "Load more" button is shown at the end of the list while hasMore is set
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+export function LoadMoreButton({ isLoading, onClick }: { isLoading: boolean; onClick: () => void }) {
+  return (
+    <div className="flex justify-center py-4">
+      <button
+        onClick={onClick}
+        disabled={isLoading}
+        className={`px-4 py-1.5 rounded-full text-sm font-surt-medium transition-colors ${isLoading ? 'text-white/30 cursor-not-allowed' : 'text-white/60 hover:text-white hover:bg-white/10'}`}
+      >
+        {isLoading ? 'Loading...' : 'Load more'}
+      </button>
+    </div>
+  );
 }
 
 export default function ItemListBrowser<T>({
@@ -32,7 +53,12 @@ export default function ItemListBrowser<T>({
   newItemLabel = '+ New Item',
   canDeleteItem,
   closeOnNewItem = true,
+  closeOnSelect = true,
+  deleteConfirmMessage = 'Move this item to Trash? You can restore it from Trash.',
   renderItemActions,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }: ItemListBrowserProps<T>) {
   return (
     <Modal isOpen={isOpen} onClose={onClose}>
@@ -61,7 +87,7 @@ export default function ItemListBrowser<T>({
                   <div
                     onClick={() => {
                       onItemSelect(item);
-                      onClose();
+                      if (closeOnSelect) onClose();
                     }}
                     className={`flex items-center justify-between px-4 py-4 cursor-pointer transition-all rounded-[12px] ${
                       currentItemId === id
@@ -80,7 +106,7 @@ export default function ItemListBrowser<T>({
                         onClick={e => {
                           e.stopPropagation();
                           if (!deletable) return;
-                          if (confirm('Are you sure you want to delete this item? This action cannot be undone.')) {
+                          if (confirm(deleteConfirmMessage)) {
                             onDeleteItem(id);
                           }
                         }}
@@ -97,6 +123,9 @@ export default function ItemListBrowser<T>({
                 </div>
               );
             })}
+            {hasMore && onLoadMore && (
+              <LoadMoreButton isLoading={isLoadingMore} onClick={onLoadMore} />
+            )}
           </div>
         ) : (
           <div className="flex items-start justify-center h-full pt-8">
@@ -108,6 +137,8 @@ export default function ItemListBrowser<T>({
                   ? "No conversations yet"
                   : newItemLabel === '+ New Context'
                   ? "No contexts yet"
+                  : newItemLabel === 'Empty Trash'
+                  ? "Trash is empty"
                   : "No items yet"
                 }
               </p>
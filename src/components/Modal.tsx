@@ -4,7 +4,7 @@ interface ModalProps {
   isOpen: boolean;
   onClose: () => void;
   children: React.ReactNode;
-  maxWidth?: 'sm' | 'md' | 'lg' | 'xl' | '2xl';
+  maxWidth?: 'sm' | 'md' | 'lg' | 'xl' | '2xl' | '5xl';
   zIndex?: number;
 }
 
@@ -22,7 +22,8 @@ export default function Modal({
     md: 'max-w-md', 
     lg: 'max-w-lg',
     xl: 'max-w-xl',
-    '2xl': 'max-w-2xl'
+    '2xl': 'max-w-2xl',
+    '5xl': 'max-w-5xl'
   };
 
   const handleScrimClick = (e: React.MouseEvent) => {
@@ -0,0 +1,323 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Modal from './Modal';
+import ipcService from '../services/ipcService';
+import { useModels, reloadModels } from '../hooks/useModels';
+import type { ModelInfo, ModelRegistryEntry, ProviderInfo } from '../../electron/shared/ipcContract';
+
+interface ModelSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Numbers are edited as text so a field can be cleared while typing
+interface ModelForm {
+  provider: string;
+  model: string;
+  name: string;
+  contextWindow: string;
+  maxOutputTokens: string;
+  temperature: string;
+  topP: string;
+  inputPrice: string;
+  outputPrice: string;
+}
+
+const toForm = (model: ModelInfo): ModelForm => ({
+  provider: model.provider,
+  model: model.model,
+  name: model.name,
+  contextWindow: String(model.contextWindow),
+  maxOutputTokens: String(model.maxOutputTokens),
+  temperature: String(model.temperature),
+  topP: model.topP !== undefined ? String(model.topP) : '',
+  inputPrice: model.pricing ? String(model.pricing.input) : '',
+  outputPrice: model.pricing ? String(model.pricing.output) : ''
+});
+
+const emptyForm = (provider: string): ModelForm => ({
+  provider,
+  model: '',
+  name: '',
+  contextWindow: '8192',
+  maxOutputTokens: '1000',
+  temperature: '0.7',
+  topP: '',
+  inputPrice: '',
+  outputPrice: ''
+});
+
+// The registry entry a form describes, or a message saying what is wrong with it
+const toEntry = (form: ModelForm): ModelRegistryEntry | string => {
+  const number = (value: string) => (value.trim() === '' ? NaN : Number(value));
+  const contextWindow = number(form.contextWindow);
+  const maxOutputTokens = number(form.maxOutputTokens);
+  const temperature = number(form.temperature);
+  const topP = form.topP.trim() === '' ? undefined : number(form.topP);
+  const hasPricing = form.inputPrice.trim() !== '' || form.outputPrice.trim() !== '';
+  const input = number(form.inputPrice);
+  const output = number(form.outputPrice);
+
+  if (!form.model.trim()) return 'Enter the model id the provider uses.';
+  if (!Number.isInteger(contextWindow) || contextWindow < 1) return 'Context window must be a whole number of tokens.';
+  if (!Number.isInteger(maxOutputTokens) || maxOutputTokens < 1) return 'Max output must be a whole number of tokens.';
+  if (!(temperature >= 0 && temperature <= 2)) return 'Temperature must be between 0 and 2.';
+  if (topP !== undefined && !(topP >= 0 && topP <= 1)) return 'Top P must be between 0 and 1.';
+  if (hasPricing && !(input >= 0 && output >= 0)) return 'Enter both input and output prices, or neither.';
+
+  return {
+    provider: form.provider,
+    model: form.model.trim(),
+    ...(form.name.trim() ? { name: form.name.trim() } : {}),
+    contextWindow,
+    maxOutputTokens,
+    temperature,
+    ...(topP !== undefined ? { topP } : {}),
+    ...(hasPricing ? { pricing: { input, output } } : {})
+  };
+};
+
+// Lists the models of the configured providers and edits their entries in the model registry
+export default function ModelSettingsModal({ isOpen, onClose }: ModelSettingsModalProps) {
+  const models = useModels();
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  // Key of the model being edited, or null while adding one
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<ModelForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    ipcService.listProviders()
+      .then(setProviders)
+      .catch(() => {
+        // Silent error handling for privacy
+      });
+    reloadModels().catch(() => {
+      // Silent error handling for privacy
+    });
+  }, [isOpen]);
+
+  const selectedModel = models.find(model => model.id === selectedId) ?? null;
+
+  const modelGroups = useMemo(() => {
+    const groups = new Map<string, ModelInfo[]>();
+    for (const model of models) {
+      groups.set(model.providerName, [...(groups.get(model.providerName) ?? []), model]);
+    }
+    return Array.from(groups);
+  }, [models]);
+
+  const resetAndClose = () => {
+    if (saving) return;
+    setSelectedId(null);
+    setForm(null);
+    setError(null);
+    onClose();
+  };
+
+  const selectModel = (model: ModelInfo) => {
+    setSelectedId(model.id);
+    setForm(toForm(model));
+    setError(null);
+  };
+
+  const startAdding = () => {
+    setSelectedId(null);
+    setForm(emptyForm(providers[0]?.id ?? ''));
+    setError(null);
+  };
+
+  const updateForm = (field: keyof ModelForm, value: string) => {
+    setForm(prev => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form || saving) return;
+
+    const entry = toEntry(form);
+    if (typeof entry === 'string') {
+      setError(entry);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await ipcService.saveModelRegistryEntry(entry);
+      await reloadModels();
+      setSelectedId(`${entry.provider}:${entry.model}`);
+    } catch (err) {
+      setError('Failed to save model.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Removes the registry entry, so the model goes back to its provider's settings or is no longer offered
+  const handleRemove = async () => {
+    if (!selectedModel || saving) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await ipcService.deleteModelRegistryEntry(selectedModel.provider, selectedModel.model);
+      const updated = await reloadModels();
+      const model = updated.find(candidate => candidate.id === selectedModel.id);
+      if (model) {
+        setForm(toForm(model));
+      } else {
+        setSelectedId(null);
+        setForm(null);
+      }
+    } catch (err) {
+      setError('Failed to remove model.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-1.5 rounded bg-[#232323] border border-white/10 focus:outline-none focus:ring-2 focus:ring-blue-500 font-surt-medium text-sm text-white disabled:text-white/60';
+  const labelClassName = 'block text-gray-300 text-xs mb-1 font-surt-medium';
+  const isAdding = form !== null && selectedId === null;
+
+  const field = (name: keyof ModelForm, label: string, placeholder?: string) => (
+    <div>
+      <label className={labelClassName} htmlFor={`model-${name}`}>{label}</label>
+      <input
+        id={`model-${name}`}
+        className={inputClassName}
+        value={form?.[name] ?? ''}
+        placeholder={placeholder}
+        onChange={e => updateForm(name, e.target.value)}
+        disabled={saving}
+        autoComplete="off"
+      />
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={resetAndClose} maxWidth="2xl">
+      <div className="flex flex-col flex-1 p-8" style={{ minHeight: 0 }}>
+        <h2 className="text-white text-lg mb-2 font-surt-medium">Models</h2>
+        <p className="text-gray-400 text-sm mb-6 font-surt-medium">
+          Limits, sampling and prices for each model. Changes are saved to the model registry in config.json.
+        </p>
+
+        <div className="flex gap-6 flex-1 min-h-0">
+          <div className="w-56 flex-shrink-0 overflow-y-auto">
+            {modelGroups.map(([providerName, groupModels]) => (
+              <div key={providerName} className="mb-4">
+                <div className="text-xs text-white/40 mb-1 font-surt-medium">{providerName}</div>
+                {groupModels.map(model => (
+                  <button
+                    key={model.id}
+                    type="button"
+                    onClick={() => selectModel(model)}
+                    className={`w-full text-left px-2 py-1.5 rounded text-sm font-surt-medium truncate transition-colors ${model.id === selectedId ? 'bg-white/20 text-white' : 'text-white/70 hover:text-white hover:bg-white/10'}`}
+                    title={model.model}
+                  >
+                    {model.name}
+                    {model.registered && <span className="text-white/40"> · edited</span>}
+                  </button>
+                ))}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={startAdding}
+              className="w-full text-left px-2 py-1.5 rounded text-sm font-surt-medium text-white/60 hover:text-white hover:bg-white/10 transition-colors disabled:cursor-not-allowed"
+              disabled={providers.length === 0}
+            >
+              + Add model
+            </button>
+          </div>
+
+          {form ? (
+            <form className="flex flex-col flex-1 min-w-0 overflow-y-auto" onSubmit={handleSubmit}>
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                <div>
+                  <label className={labelClassName} htmlFor="model-provider">Provider</label>
+                  <select
+                    id="model-provider"
+                    className={inputClassName}
+                    value={form.provider}
+                    onChange={e => updateForm('provider', e.target.value)}
+                    disabled={saving || !isAdding}
+                  >
+                    {providers.map(provider => (
+                      <option key={provider.id} value={provider.id} className="bg-gray-800">{provider.name}</option>
+                    ))}
+                    {!providers.some(provider => provider.id === form.provider) && (
+                      <option value={form.provider} className="bg-gray-800">{form.provider}</option>
+                    )}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClassName} htmlFor="model-model">Model id</label>
+                  <input
+                    id="model-model"
+                    className={inputClassName}
+                    value={form.model}
+                    onChange={e => updateForm('model', e.target.value)}
+                    disabled={saving || !isAdding}
+                    autoComplete="off"
+                  />
+                </div>
+                {field('name', 'Name', form.model)}
+                {field('contextWindow', 'Context window (tokens)')}
+                {field('maxOutputTokens', 'Max output (tokens)')}
+                {field('temperature', 'Temperature')}
+                {field('topP', 'Top P', 'Provider default')}
+                <div />
+                {field('inputPrice', 'Input price ($ per 1M tokens)')}
+                {field('outputPrice', 'Output price ($ per 1M tokens)')}
+              </div>
+
+              {error && <div className="text-red-400 mb-4 text-sm">{error}</div>}
+
+              <div className="flex justify-end gap-3 mt-auto">
+                {selectedModel?.registered && (
+                  <button
+                    type="button"
+                    className={`px-5 py-2 rounded-full transition-colors text-base font-surt-medium shadow-none ${saving ? 'text-white/60 cursor-not-allowed' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                    onClick={handleRemove}
+                    disabled={saving}
+                    title="Models a provider offers go back to the provider's settings"
+                  >
+                    Remove from Registry
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  className={`px-5 py-2 rounded-full transition-colors text-base font-surt-medium shadow-none ${saving ? 'bg-white/20 text-white/60 cursor-not-allowed' : 'bg-white/20 text-white hover:bg-white/30'}`}
+                  disabled={saving}
+                >
+                  {saving ? 'Saving...' : isAdding ? 'Add Model' : 'Save'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-white/40 font-surt-medium">
+              Select a model to edit its settings
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            type="button"
+            className={`px-5 py-2 rounded-full transition-colors text-base font-surt-medium shadow-none ${saving ? 'text-white/60 cursor-not-allowed' : 'bg-white/10 text-white hover:bg-white/20'}`}
+            onClick={resetAndClose}
+            disabled={saving}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
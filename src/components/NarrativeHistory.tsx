@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Modal from './Modal';
+import ParagraphDiffCell from './ParagraphDiffCell';
+import ipcService from '../services/ipcService';
+import { diffParagraphs, splitParagraphs, ParagraphDiffRow } from '../utils/narrativeDiff';
+import type { NarrativeContent } from './NarrativePanel';
+import type { NarrativeSnapshot, NarrativeSnapshotSummary } from '../../electron/shared/ipcContract';
+
+type NarrativeText = 'draft' | 'main';
+
+interface NarrativeHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  narrativeId: string | null;
+  getCurrentContent: () => NarrativeContent | null;
+  // Replaces the draft or main text, resolving with the narrative's text afterwards
+  onRestore: (target: NarrativeText, html: string) => Promise<NarrativeContent | null>;
+}
+
+const textOf = (content: NarrativeContent | NarrativeSnapshot, text: NarrativeText) =>
+  (text === 'draft' ? content.draftContent : content.content) || '';
+
+const formatSnapshotDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+export default function NarrativeHistory({ isOpen, onClose, narrativeId, getCurrentContent, onRestore }: NarrativeHistoryProps) {
+  const [snapshots, setSnapshots] = useState<NarrativeSnapshotSummary[]>([]);
+  const [selected, setSelected] = useState<NarrativeSnapshot | null>(null);
+  const [current, setCurrent] = useState<NarrativeContent | null>(null);
+  const [compared, setCompared] = useState<NarrativeText>('draft');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const selectSnapshot = async (snapshotId: string) => {
+    if (!narrativeId) return;
+    try {
+      setSelected(await ipcService.getNarrativeSnapshot(narrativeId, snapshotId));
+      setCurrent(getCurrentContent());
+    } catch (error) {
+      // Silent error handling for privacy
+    }
+  };
+
+  const loadHistory = async () => {
+    if (!narrativeId) return;
+    try {
+      const data = await ipcService.getNarrativeHistory(narrativeId);
+      setSnapshots(data.snapshots || []);
+      const latest = data.snapshots?.[0];
+      if (latest) {
+        await selectSnapshot(latest.id);
+      }
+    } catch (error) {
+      // Silent error handling for privacy
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setCurrent(getCurrentContent());
+      loadHistory();
+    } else {
+      setSnapshots([]);
+      setSelected(null);
+      setCurrent(null);
+    }
+  }, [isOpen, narrativeId]);
+
+  const rows = useMemo(
+    () => selected && current ? diffParagraphs(textOf(selected, compared), textOf(current, compared)) : [],
+    [selected, current, compared]
+  );
+
+  const restore = async (target: NarrativeText, html: string) => {
+    setIsRestoring(true);
+    try {
+      const updated = await onRestore(target, html);
+      if (updated) {
+        setCurrent(updated);
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const restoreVersion = (target: NarrativeText) => {
+    if (!selected) return;
+    const label = target === 'draft' ? 'draft' : 'main text';
+    if (!confirm(`Replace the ${label} with this version? The current text is kept in history.`)) return;
+    restore(target, textOf(selected, compared));
+  };
+
+  // Puts a paragraph back where it was, replacing the paragraph it was rewritten into
+  const restoreParagraph = (row: ParagraphDiffRow) => {
+    if (!current || row.before === null) return;
+    const paragraphs = splitParagraphs(textOf(current, compared));
+    paragraphs.splice(row.afterIndex, row.type === 'changed' ? 1 : 0, row.before);
+    restore(compared, paragraphs.join(''));
+  };
+
+  // Adds a paragraph to the end of the other text
+  const copyParagraph = (row: ParagraphDiffRow) => {
+    if (!current || row.before === null) return;
+    const other: NarrativeText = compared === 'draft' ? 'main' : 'draft';
+    const paragraphs = splitParagraphs(textOf(current, other));
+    restore(other, [...paragraphs, row.before].join(''));
+  };
+
+  const otherLabel = compared === 'draft' ? 'main' : 'draft';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} maxWidth="5xl">
+      <div className="flex items-center justify-between px-6 pt-6 pb-4 border-b border-white/10">
+        <div className="flex gap-1 bg-white/10 rounded-full p-1">
+          {(['draft', 'main'] as const).map(text => (
+            <button
+              key={text}
+              onClick={() => setCompared(text)}
+              className={`px-4 py-1 rounded-full text-sm font-surt-medium transition-colors ${compared === text ? 'bg-white/20 text-white' : 'text-white/50 hover:text-white'}`}
+            >
+              {text === 'draft' ? 'Draft' : 'Main'}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {(['draft', 'main'] as const).map(target => (
+            <button
+              key={target}
+              onClick={() => restoreVersion(target)}
+              disabled={!selected || isRestoring}
+              className="px-4 py-1.5 bg-white/10 text-white rounded-full hover:bg-white/20 transition-colors text-sm font-surt-medium disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {target === 'draft' ? 'Restore to Draft' : 'Restore to Main'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Snapshots */}
+        <div className="w-52 flex-shrink-0 overflow-y-auto p-2 border-r border-white/10 scrollbar-hide">
+          {snapshots.length > 0 ? snapshots.map(snapshot => (
+            <button
+              key={snapshot.id}
+              onClick={() => selectSnapshot(snapshot.id)}
+              className={`w-full text-left px-3 py-2 rounded-[12px] transition-all ${selected?.id === snapshot.id ? 'bg-[rgba(255,255,255,0.1)]' : 'hover:bg-white/5'}`}
+            >
+              <div className="text-white text-sm font-surt-medium">{formatSnapshotDate(snapshot.created)}</div>
+              <div className="text-gray-400 text-xs">
+                {compared === 'draft' ? snapshot.draftCharacterCount : snapshot.characterCount} chars
+              </div>
+            </button>
+          )) : (
+            <p className="text-gray-400 text-sm text-center pt-8">No versions yet</p>
+          )}
+        </div>
+
+        {/* Side-by-side diff: the selected version on the left, the current text on the right */}
+        <div className="flex-1 min-w-0 overflow-y-auto p-4 scrollbar-hide">
+          {selected && (
+            <div className="grid grid-cols-2 gap-x-4 pb-2 text-xs text-gray-400 font-surt-medium">
+              <div>{formatSnapshotDate(selected.created)}</div>
+              <div>Current</div>
+            </div>
+          )}
+          {rows.map((row, index) => (
+            <div key={index} className="group grid grid-cols-2 gap-x-4 text-sm leading-relaxed text-white">
+              <ParagraphDiffCell
+                row={row}
+                side="before"
+                actions={row.before !== null && (
+                  <>
+                    {row.type !== 'same' && (
+                      <button
+                        onClick={() => restoreParagraph(row)}
+                        disabled={isRestoring}
+                        className="px-2 py-0.5 rounded bg-[#2a2a2a] text-xs text-white/80 hover:text-white"
+                        title={`Put this paragraph back in the ${compared === 'draft' ? 'draft' : 'main text'}`}
+                      >
+                        Restore
+                      </button>
+                    )}
+                    <button
+                      onClick={() => copyParagraph(row)}
+                      disabled={isRestoring}
+                      className="px-2 py-0.5 rounded bg-[#2a2a2a] text-xs text-white/80 hover:text-white"
+                      title={`Add this paragraph to the end of the ${otherLabel === 'draft' ? 'draft' : 'main text'}`}
+                    >
+                      Copy to {otherLabel}
+                    </button>
+                  </>
+                )}
+              />
+              <ParagraphDiffCell row={row} side="after" />
+            </div>
+          ))}
+          {selected && rows.length > 0 && rows.every(row => row.type === 'same') && (
+            <p className="text-gray-400 text-sm text-center pt-4">This version matches the current text</p>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
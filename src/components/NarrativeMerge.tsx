@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Modal from './Modal';
+import ParagraphDiffCell from './ParagraphDiffCell';
+import { diffParagraphs, groupHunks, joinHunks, ParagraphDiffRow } from '../utils/narrativeDiff';
+import type { NarrativeContent } from './NarrativePanel';
+
+// Unchanged runs longer than this are collapsed to their first and last paragraph
+const MAX_CONTEXT_ROWS = 3;
+
+interface NarrativeMergeProps {
+  isOpen: boolean;
+  onClose: () => void;
+  getCurrentContent: () => NarrativeContent | null;
+  // Saves the merged text, resolving with the narrative's text afterwards
+  onMerge: (changes: Partial<NarrativeContent>) => Promise<NarrativeContent | null>;
+}
+
+const actionClassName = 'px-3 py-1 bg-white/10 text-white rounded-full hover:bg-white/20 transition-colors text-xs font-surt-medium disabled:opacity-40 disabled:cursor-not-allowed';
+
+export default function NarrativeMerge({ isOpen, onClose, getCurrentContent, onMerge }: NarrativeMergeProps) {
+  const [current, setCurrent] = useState<NarrativeContent | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    setCurrent(isOpen ? getCurrentContent() : null);
+  }, [isOpen]);
+
+  // Main is the older side and draft the newer one, so additions are what the draft adds
+  const hunks = useMemo(
+    () => current ? groupHunks(diffParagraphs(current.content || '', current.draftContent || '')) : [],
+    [current]
+  );
+  const changeCount = hunks.filter(hunk => hunk.changed).length;
+
+  const merge = async (changes: Partial<NarrativeContent>) => {
+    setIsMerging(true);
+    try {
+      const updated = await onMerge(changes);
+      if (updated) {
+        setCurrent(updated);
+      }
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const acceptIntoMain = (index: number) =>
+    merge({ content: joinHunks(hunks, (hunk, i) => (i === index ? 'after' : 'before')) });
+
+  const pullIntoDraft = (index: number) =>
+    merge({ draftContent: joinHunks(hunks, (hunk, i) => (i === index ? 'before' : 'after')) });
+
+  const renderRows = (rows: ParagraphDiffRow[]) => rows.map((row, index) => (
+    <div key={index} className="grid grid-cols-2 gap-x-4 text-sm leading-relaxed text-white">
+      <ParagraphDiffCell row={row} side="before" />
+      <ParagraphDiffCell row={row} side="after" />
+    </div>
+  ));
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} maxWidth="5xl">
+      <div className="grid grid-cols-2 gap-x-4 px-6 pt-6 pb-4 border-b border-white/10 text-sm text-gray-400 font-surt-medium">
+        <div>Main</div>
+        <div className="flex justify-between">
+          <span>Draft</span>
+          <span>{changeCount === 1 ? '1 difference' : `${changeCount} differences`}</span>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-4 scrollbar-hide">
+        {current && changeCount === 0 && (
+          <p className="text-gray-400 text-sm text-center pt-8">Draft and main are the same</p>
+        )}
+        {changeCount > 0 && hunks.map((hunk, index) => {
+          if (!hunk.changed) {
+            if (hunk.rows.length <= MAX_CONTEXT_ROWS) {
+              return <div key={index}>{renderRows(hunk.rows)}</div>;
+            }
+            return (
+              <div key={index}>
+                {renderRows(hunk.rows.slice(0, 1))}
+                <div className="text-center text-xs text-gray-500 py-1">
+                  {hunk.rows.length - 2} unchanged paragraphs
+                </div>
+                {renderRows(hunk.rows.slice(-1))}
+              </div>
+            );
+          }
+
+          return (
+            <div key={index} className="my-2 border border-white/10 rounded-lg p-1">
+              {renderRows(hunk.rows)}
+              <div className="flex justify-between gap-2 px-2 pt-2 pb-1">
+                <button
+                  onClick={() => acceptIntoMain(index)}
+                  disabled={isMerging}
+                  className={actionClassName}
+                  title="Replace these main paragraphs with the draft"
+                >
+                  ← Accept draft into main
+                </button>
+                <button
+                  onClick={() => pullIntoDraft(index)}
+                  disabled={isMerging}
+                  className={actionClassName}
+                  title="Replace these draft paragraphs with the main text"
+                >
+                  Pull main into draft →
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+}
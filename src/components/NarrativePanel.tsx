@@ -15,27 +15,213 @@
  * - Cmd+B: Bold text
  * - Cmd+I: Italic text
  * - Cmd+1/2/3: Heading levels 1/2/3
+ * - Cmd+Shift+B: Blockquote
+ * - Cmd+Shift+8 / Cmd+Shift+7: Bullet / numbered list
+ * - ---: Horizontal rule
  * - Tab: Insert tab character
  * - Shift+Tab: Remove indentation (outdent)
+ *
+ * Selecting text shows a formatting toolbar with the same options.
+ *
+ * In split mode the draft and main text are edited side by side, each with its own undo
+ * history, and scrolling one keeps the matching paragraphs of the other in view.
  */
 
-import { useEditor, EditorContent } from '@tiptap/react';
+import { useEditor, EditorContent, Editor, JSONContent } from '@tiptap/react';
 import Document from '@tiptap/extension-document';
 import Paragraph from '@tiptap/extension-paragraph';
 import Text from '@tiptap/extension-text';
 import HardBreak from '@tiptap/extension-hard-break';
+import Bold from '@tiptap/extension-bold';
+import Italic from '@tiptap/extension-italic';
+import Heading from '@tiptap/extension-heading';
+import Blockquote from '@tiptap/extension-blockquote';
+import HorizontalRule from '@tiptap/extension-horizontal-rule';
+import { BulletList, OrderedList, ListItem } from '@tiptap/extension-list';
 import Placeholder from '@tiptap/extension-placeholder';
 import CharacterCount from '@tiptap/extension-character-count';
 import Typography from '@tiptap/extension-typography';
 import { UndoRedo } from '@tiptap/extensions';
-import { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle, RefObject } from 'react';
 import { convertQuotesInSelection } from '../utils/quoteConversion';
 import { moveToNextSentence, moveToPreviousSentence } from '../utils/sentenceNavigation';
 import ipcService from '../services/ipcService';
+import FormattingToolbar from './FormattingToolbar';
+import ProvenanceTooltip from './ProvenanceTooltip';
+import { Provenance, ProvenanceSource, withProvenance } from '../utils/provenanceMark';
+import { alignParagraphs, diffParagraphs } from '../utils/narrativeDiff';
 
 // Client-side only check
 const isClient = typeof window !== 'undefined';
 
+// A snapshot is taken once typing has paused this long
+const IDLE_SNAPSHOT_DELAY_MS = 60 * 1000;
+
+const HEADING_LEVELS = [1, 2, 3] as const;
+
+// Cmd+1/2/3 instead of the default Cmd+Alt+1/2/3
+const NarrativeHeading = Heading.extend({
+  addKeyboardShortcuts() {
+    return Object.fromEntries(
+      HEADING_LEVELS.map(level => [`Mod-${level}`, () => this.editor.commands.toggleHeading({ level })])
+    );
+  },
+}).configure({
+  levels: [...HEADING_LEVELS],
+});
+
+// Each editor gets its own instances, and so its own undo history
+const createNarrativeExtensions = () => [
+  Document,
+  Paragraph,
+  Text,
+  HardBreak.configure({
+    keepMarks: true,
+  }),
+  Bold,
+  Italic,
+  NarrativeHeading,
+  Blockquote,
+  BulletList,
+  OrderedList,
+  ListItem,
+  HorizontalRule,
+  Provenance,
+  Typography,
+  Placeholder.configure({
+    placeholder: 'Begin writing your narrative here... Share your thoughts, insights, and the story that emerges from your exploration.',
+  }),
+  CharacterCount,
+  UndoRedo.configure({
+    depth: 100, // Store up to 100 undo steps
+    newGroupDelay: 300, // Group operations within 300ms as one undo step
+  }),
+];
+
+const editorAttributes = {
+  class: [
+    'max-w-none focus:outline-none',
+    '[&_h1]:text-3xl [&_h1]:font-semibold [&_h2]:text-2xl [&_h2]:font-semibold [&_h3]:text-xl [&_h3]:font-semibold',
+    '[&_blockquote]:border-l-2 [&_blockquote]:border-white/30 [&_blockquote]:pl-4 [&_blockquote]:text-white/80',
+    '[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6 [&_hr]:my-4 [&_hr]:border-white/20',
+  ].join(' '),
+  style: 'height: 100%; overflow: visible; white-space: pre-wrap;',
+};
+
+interface EditorPaneProps {
+  editor: Editor;
+  scrollRef: RefObject<HTMLDivElement | null>;
+  onScroll?: () => void;
+  label?: string;
+  onOpenSource?: ((source: ProvenanceSource) => void) | undefined;
+  highlightProvenance?: boolean;
+}
+
+// Passages added from a conversation, when they are highlighted
+const PROVENANCE_HIGHLIGHT_CLASSES = '[&_[data-conversation-id]]:bg-sky-400/20 [&_[data-conversation-id]]:rounded-sm';
+
+// A scrolling editor column
+function EditorPane({ editor, scrollRef, onScroll, label, onOpenSource, highlightProvenance = false }: EditorPaneProps) {
+  return (
+    <div 
+      className="narrative-editor-content flex-1 min-w-0 overflow-y-auto px-6 relative"
+      style={{
+        minHeight: '0', // Critical: allows flex item to shrink below content size
+        paddingTop: '8px', // Set to 8px padding
+        paddingBottom: '0' // Remove bottom padding to eliminate gap
+      }}
+      ref={scrollRef}
+      onScroll={onScroll}
+    >
+      {/* Gradient fade over the text area */}
+      <div 
+        className="absolute left-0 right-0 pointer-events-none z-10"
+        style={{
+          height: '24px',
+          background: 'linear-gradient(to bottom, rgba(20, 20, 20, 1) 0%, rgba(20, 20, 20, 0.9) 30%, rgba(20, 20, 20, 0.6) 60%, transparent 100%)'
+        }}
+      />
+
+      {label && (
+        <div className="text-xs uppercase tracking-wider text-white/40 font-surt-medium pt-2">{label}</div>
+      )}
+      
+      <EditorContent 
+        editor={editor} 
+        className={`narrative-editor bg-[#141414] w-full focus:outline-none ${highlightProvenance ? PROVENANCE_HIGHLIGHT_CLASSES : ''}`}
+        style={{
+          fontFamily: 'var(--font-dm-sans)',
+          fontSize: '16px',
+          lineHeight: '1.6',
+          color: 'white',
+          padding: '16px 0px 560px', // Added 560px bottom padding for typing space
+          margin: '0'
+        }}
+        onClick={() => editor.commands.focus()}
+        onKeyDown={(e) => {
+          // Prevent tab from moving focus to next component
+          if (e.key === 'Tab') {
+            e.preventDefault();
+            // In lists Tab nests the item instead
+            if (editor.isActive('listItem')) return;
+            // Insert non-breaking spaces as indentation
+            editor.chain().focus().insertContent('\u00A0\u00A0\u00A0\u00A0').run();
+          }
+        }}
+      />
+
+      <FormattingToolbar editor={editor} />
+      {onOpenSource && <ProvenanceTooltip containerRef={scrollRef} onOpen={onOpenSource} />}
+    </div>
+  );
+}
+
+interface MainTextEditorProps {
+  initialContent: string;
+  onChange: (html: string) => void;
+  onEditorChange: (editor: Editor | null) => void;
+  onFocus: () => void;
+  scrollRef: RefObject<HTMLDivElement | null>;
+  onScroll: () => void;
+  onOpenSource?: ((source: ProvenanceSource) => void) | undefined;
+  highlightProvenance: boolean;
+}
+
+// The main text's editor, shown next to the draft in split mode
+function MainTextEditor({ initialContent, onChange, onEditorChange, onFocus, scrollRef, onScroll, onOpenSource, highlightProvenance }: MainTextEditorProps) {
+  const editor = useEditor({
+    extensions: createNarrativeExtensions(),
+    content: initialContent || '<p>&nbsp;</p>',
+    immediatelyRender: false,
+    parseOptions: {
+      preserveWhitespace: 'full',
+    },
+    onUpdate: ({ editor }) => onChange(editor.getHTML()),
+    onFocus,
+    editorProps: {
+      attributes: editorAttributes,
+    },
+  });
+
+  useEffect(() => {
+    onEditorChange(editor);
+    return () => onEditorChange(null);
+  }, [editor]);
+
+  if (!editor || editor.isDestroyed) return null;
+
+  return (
+    <EditorPane
+      editor={editor}
+      scrollRef={scrollRef}
+      onScroll={onScroll}
+      label="Main"
+      onOpenSource={onOpenSource}
+      highlightProvenance={highlightProvenance}
+    />
+  );
+}
+
 interface Narrative {
   id: string;
   title: string;
@@ -43,7 +229,7 @@ interface Narrative {
   draftContent?: string;
   created: string;
   lastModified: string;
-  characterCount: number;
+  characterCount?: number;
   preferredMode?: 'draft' | 'main';
 }
 
@@ -53,12 +239,27 @@ interface NarrativePanelProps {
   onSave?: () => void;
   isDraftMode: boolean;
   setIsDraftMode: (v: boolean) => void;
+  // Show the draft and main text side by side; the draft is on the left
+  isSplitMode?: boolean;
+  // Open the conversation message a passage was added from
+  onOpenSource?: (source: ProvenanceSource) => void;
+  // Highlight every passage added from a conversation
+  highlightProvenance?: boolean;
+}
+
+export interface NarrativeContent {
+  content: string;
+  draftContent: string;
 }
 
 export interface NarrativePanelRef {
-  addTextToContent: (text: string) => void;
+  // Insert content, such as a chat reply, into the draft or main text, tagged with where it came from
+  addContent: (content: JSONContent[], source?: ProvenanceSource) => void;
   saveCurrentContent: () => Promise<void>;
   handleModeSwitch: () => Promise<void>;
+  getContent: () => NarrativeContent;
+  // Replace the main and/or draft text and save, returning the narrative's text afterwards
+  updateContent: (changes: Partial<NarrativeContent>) => Promise<NarrativeContent>;
 }
 
 // Simplified narrative state - single source of truth
@@ -71,7 +272,7 @@ interface NarrativeState {
   hasUnsavedChanges: boolean;
 }
 
-const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ currentNarrative, onNarrativeUpdate, onSave, isDraftMode, setIsDraftMode }, ref) => {
+const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ currentNarrative, onNarrativeUpdate, onSave, isDraftMode, setIsDraftMode, isSplitMode = false, onOpenSource, highlightProvenance = false }, ref) => {
   // Simplified state - single source of truth
   const [narrativeState, setNarrativeState] = useState<NarrativeState>({
     id: null,
@@ -91,9 +292,28 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
   
   // Essential refs only
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const snapshotTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Split mode: the main text's editor and scroll container
+  const mainEditorRef = useRef<Editor | null>(null);
+  const mainScrollRef = useRef<HTMLDivElement>(null);
+  // Set while one pane is scrolled to follow the other, so its scroll event is not echoed back
+  const followingScrollRef = useRef<HTMLElement | null>(null);
+  // Which side of split mode was edited last
+  const lastFocusedRef = useRef<'draft' | 'main'>('draft');
+  const alignmentRef = useRef<{ main: string; draft: string; alignment: ReturnType<typeof alignParagraphs> } | null>(null);
   // Guard to prevent onUpdate from firing during programmatic content sets
   const isProgrammaticContentChangeRef = useRef<boolean>(false);
+  // The latest autosave, so a save scheduled by an earlier render sees the current text
+  const autoSaveRef = useRef<() => void>(() => {});
+
+  // Auto-save once typing stops
+  const scheduleAutoSave = () => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    saveTimeoutRef.current = setTimeout(() => autoSaveRef.current(), 1000);
+  };
   
   // Helper function to get editor content
   const getEditorContent = (editor: any): string => {
@@ -136,28 +356,15 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
 
   // Only create editor on client side. Recreate when narrative id changes to isolate history
   const editor = isClient ? useEditor({
-    extensions: [
-      Document,
-      Paragraph,
-      Text,
-      HardBreak.configure({
-        keepMarks: true,
-      }),
-      Typography,
-      Placeholder.configure({
-        placeholder: 'Begin writing your narrative here... Share your thoughts, insights, and the story that emerges from your exploration.',
-      }),
-      CharacterCount,
-      UndoRedo.configure({
-        depth: 100, // Store up to 100 undo steps
-        newGroupDelay: 300, // Group operations within 300ms as one undo step
-      }),
-    ],
+    extensions: createNarrativeExtensions(),
     content: initialContent,
     immediatelyRender: false,
     parseOptions: {
       preserveWhitespace: 'full',
     },
+    onFocus: () => {
+      lastFocusedRef.current = 'draft';
+    },
     onUpdate: ({ editor }) => {
       // ✅ Prevent content updates while loading to avoid race conditions
       if (isLoading || isProgrammaticContentChangeRef.current) return;
@@ -181,20 +388,10 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
       }
       
       // Auto-save after typing stops
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
-      }
-      
-      saveTimeoutRef.current = setTimeout(() => {
-        handleAutoSave();
-      }, 1000);
+      scheduleAutoSave();
     },
     editorProps: {
-      attributes: {
-        class: 'max-w-none focus:outline-none',
-        style: 'height: 100%; overflow: visible; white-space: pre-wrap;',
-      },
-
+      attributes: editorAttributes,
     },
   }, [currentNarrative?.id]) : null;
 
@@ -398,6 +595,16 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
           lastSaved: new Date(),
           hasUnsavedChanges: false
         }));
+
+        // Restarted by every save, so it only fires once typing pauses
+        if (snapshotTimeoutRef.current) {
+          clearTimeout(snapshotTimeoutRef.current);
+        }
+        snapshotTimeoutRef.current = setTimeout(() => {
+          ipcService.snapshotNarrative(narrativeId).catch(() => {
+            // Silent error handling for privacy
+          });
+        }, IDLE_SNAPSHOT_DELAY_MS);
       }
     } catch (error) {
       // Silent error handling for privacy
@@ -405,6 +612,7 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
       setIsSaving(false);
     }
   }, [isSaving, narrativeState, isDraftMode]);
+  autoSaveRef.current = handleAutoSave;
 
   // Simple save function
   const saveNarrative = useCallback(async () => {
@@ -454,6 +662,8 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
   // Simple mode switch function
   const handleModeSwitch = useCallback(async () => {
     if (!editor || isLoading) return; // ✅ Prevent mode switching while loading
+    // Both texts are already shown side by side
+    if (isSplitMode) return;
     
     // Save current content before switching
     await saveNarrative();
@@ -474,71 +684,146 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
       editor.commands.setContent(contentToLoad, { emitUpdate: false, parseOptions: { preserveWhitespace: 'full' } });
       isProgrammaticContentChangeRef.current = false;
     }
-  }, [editor, isDraftMode, narrativeState, saveNarrative, setIsDraftMode, isLoading]);
+  }, [editor, isDraftMode, narrativeState, saveNarrative, setIsDraftMode, isLoading, isSplitMode]);
 
   // Simple save current content function
   const saveCurrentContent = async () => {
     await saveNarrative();
   };
 
-  // Function to add text to the current content
-  const addTextToContent = useCallback((text: string) => {
-    if (!editor) return;
-    
-    // Check if the text contains multiple paragraphs (has double newlines)
-    const hasMultipleParagraphs = text.includes('\n\n') || text.split('\n').filter(line => line.trim().length > 0).length > 1;
-    
-    if (hasMultipleParagraphs) {
-      // Split by double newlines to preserve paragraph structure
-      const paragraphs = text.split('\n\n').filter(paragraph => paragraph.trim().length > 0);
-      
-      paragraphs.forEach((paragraph, paragraphIndex) => {
-        if (paragraphIndex > 0) {
-          // Add paragraph break between paragraphs
-          editor.commands.enter();
-        }
-        
-        // Convert paragraph to HTML to preserve line breaks within paragraphs
-        const lines = paragraph.split('\n').filter(line => line.length > 0);
-        
-        // Handle bullet points more carefully
-        const processedLines = lines.map(line => {
-          // If line starts with a bullet point, ensure it has proper spacing
-          if (line.trim().startsWith('•')) {
-            return line.replace(/^(\s*•\s*)/, '• ');
-          }
-          return line;
+  // Add content at the cursor of the text being edited - in split mode, whichever was focused last
+  const addContent = useCallback((content: JSONContent[], source?: ProvenanceSource) => {
+    const target = isSplitMode && lastFocusedRef.current === 'main' && mainEditorRef.current ? mainEditorRef.current : editor;
+    if (!target || content.length === 0) return;
+    target.chain().focus().insertContent(source ? withProvenance(content, source) : content).run();
+  }, [editor, isSplitMode]);
+
+  const getContent = useCallback((): NarrativeContent => ({
+    content: narrativeState.mainContent,
+    draftContent: narrativeState.draftContent
+  }), [narrativeState]);
+
+  // Used to restore text from history and to merge draft and main
+  const updateContent = useCallback(async (changes: Partial<NarrativeContent>): Promise<NarrativeContent> => {
+    const normalize = (html: string) => preserveLeadingIndentation(normalizeEmptyParagraphs(html || '<p>&nbsp;</p>'));
+    const next: NarrativeContent = {
+      content: changes.content !== undefined ? normalize(changes.content) : narrativeState.mainContent,
+      draftContent: changes.draftContent !== undefined ? normalize(changes.draftContent) : narrativeState.draftContent
+    };
+
+    // The editor only shows the text for the current mode
+    const shownChange = isDraftMode ? changes.draftContent : changes.content;
+    if (editor && shownChange !== undefined) {
+      isProgrammaticContentChangeRef.current = true;
+      editor.commands.setContent(isDraftMode ? next.draftContent : next.content, { emitUpdate: false, parseOptions: { preserveWhitespace: 'full' } });
+      isProgrammaticContentChangeRef.current = false;
+    }
+    // In split mode the main text has an editor of its own
+    if (isSplitMode && mainEditorRef.current && changes.content !== undefined) {
+      mainEditorRef.current.commands.setContent(next.content, { emitUpdate: false, parseOptions: { preserveWhitespace: 'full' } });
+    }
+
+    setNarrativeState(prev => ({
+      ...prev,
+      mainContent: next.content,
+      draftContent: next.draftContent,
+      hasUnsavedChanges: true
+    }));
+
+    if (narrativeState.id) {
+      try {
+        const data = await ipcService.saveNarrative(narrativeState.id, {
+          title: narrativeState.title,
+          content: next.content,
+          draftContent: next.draftContent,
+          preferredMode: isDraftMode ? 'draft' : 'main',
         });
-        
-        const htmlContent = `<p>${processedLines.join('<br>')}</p>`;
-        
-        // Insert as HTML to preserve formatting
-        editor.commands.insertContent(htmlContent);
-      });
-    } else {
-      // If single paragraph, convert to HTML to preserve line breaks
-      const lines = text.split('\n').filter(line => line.length > 0);
-      
-      // Handle bullet points more carefully
-      const processedLines = lines.map(line => {
-        // If line starts with a bullet point, ensure it has proper spacing
-        if (line.trim().startsWith('•')) {
-          return line.replace(/^(\s*•\s*)/, '• ');
+        if (data.success) {
+          setNarrativeState(prev => ({ ...prev, lastSaved: new Date(), hasUnsavedChanges: false }));
         }
-        return line;
-      });
-      
-      const htmlContent = `<p>${processedLines.join('<br>')}</p>`;
-      editor.commands.insertContent(htmlContent);
+      } catch (error) {
+        // Silent error handling for privacy
+      }
     }
-  }, [editor]);
+    return next;
+  }, [editor, isDraftMode, isSplitMode, narrativeState]);
+
+  const handleMainTextChange = (html: string) => {
+    if (isLoading) return;
+    const content = preserveLeadingIndentation(normalizeEmptyParagraphs(html));
+    setNarrativeState(prev => ({
+      ...prev,
+      mainContent: content,
+      hasUnsavedChanges: true
+    }));
+    scheduleAutoSave();
+  };
+
+  const handleMainEditorChange = useCallback((mainEditor: Editor | null) => {
+    mainEditorRef.current = mainEditor;
+  }, []);
+
+  // Index of the paragraph at the top of a pane, and how far it is scrolled past
+  const getTopParagraph = (pane: HTMLElement, paneEditor: Editor) => {
+    const paragraphs = Array.from(paneEditor.view.dom.children) as HTMLElement[];
+    const editorTop = paneEditor.view.dom.getBoundingClientRect().top - pane.getBoundingClientRect().top + pane.scrollTop;
+    for (let index = 0; index < paragraphs.length; index++) {
+      const paragraph = paragraphs[index]!;
+      const top = editorTop + paragraph.offsetTop;
+      if (top + paragraph.offsetHeight > pane.scrollTop) {
+        const fraction = paragraph.offsetHeight > 0 ? Math.max(0, (pane.scrollTop - top) / paragraph.offsetHeight) : 0;
+        return { index, fraction };
+      }
+    }
+    return { index: Math.max(0, paragraphs.length - 1), fraction: 1 };
+  };
+
+  // Split mode: scroll the other pane so the paragraph matching the top of this one is in view
+  const syncScroll = (source: 'draft' | 'main') => {
+    const mainEditor = mainEditorRef.current;
+    const draftPane = scrollContainerRef.current;
+    const mainPane = mainScrollRef.current;
+    if (!editor || !mainEditor || !draftPane || !mainPane) return;
+
+    const [fromPane, fromEditor, toPane, toEditor] = source === 'draft'
+      ? [draftPane, editor, mainPane, mainEditor]
+      : [mainPane, mainEditor, draftPane, editor];
+    if (followingScrollRef.current === fromPane) {
+      followingScrollRef.current = null;
+      return;
+    }
+
+    const { mainContent, draftContent } = narrativeState;
+    if (!alignmentRef.current || alignmentRef.current.main !== mainContent || alignmentRef.current.draft !== draftContent) {
+      alignmentRef.current = { main: mainContent, draft: draftContent, alignment: alignParagraphs(diffParagraphs(mainContent, draftContent)) };
+    }
+    const { beforeToAfter, afterToBefore } = alignmentRef.current.alignment;
+
+    const { index, fraction } = getTopParagraph(fromPane, fromEditor);
+    // Main is the older side of the diff and draft the newer one
+    const targetIndex = (source === 'draft' ? afterToBefore[index] : beforeToAfter[index]) ?? index;
+    const paragraphs = Array.from(toEditor.view.dom.children) as HTMLElement[];
+    const target = paragraphs[Math.min(targetIndex, paragraphs.length - 1)];
+    if (!target) return;
+
+    const editorTop = toEditor.view.dom.getBoundingClientRect().top - toPane.getBoundingClientRect().top + toPane.scrollTop;
+    const scrollTop = Math.round(editorTop + target.offsetTop + fraction * target.offsetHeight);
+    const maxScrollTop = toPane.scrollHeight - toPane.clientHeight;
+    const nextScrollTop = Math.max(0, Math.min(scrollTop, maxScrollTop));
+    if (Math.abs(toPane.scrollTop - nextScrollTop) >= 1) {
+      followingScrollRef.current = toPane;
+      toPane.scrollTop = nextScrollTop;
+    }
+  };
 
   // Expose functions to parent component via ref
   useImperativeHandle(ref, () => ({
-    addTextToContent,
+    addContent,
     saveCurrentContent,
-    handleModeSwitch
-  }), [addTextToContent, saveCurrentContent, handleModeSwitch]);
+    handleModeSwitch,
+    getContent,
+    updateContent
+  }), [addContent, saveCurrentContent, handleModeSwitch, getContent, updateContent]);
 
   // Cleanup timeouts on unmount
   useEffect(() => {
@@ -546,6 +831,9 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current);
       }
+      if (snapshotTimeoutRef.current) {
+        clearTimeout(snapshotTimeoutRef.current);
+      }
     };
   }, []);
 
@@ -572,7 +860,7 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
       
       {/* Title and Editor Content grouped for unified nudge */}
       <div className="narrative-content-wrapper pt-12 pl-4 h-full flex flex-col">
-        <div className="w-[664px] mx-auto h-full flex flex-col">
+        <div className={`${isSplitMode ? 'w-full pr-4' : 'w-[664px] mx-auto'} h-full flex flex-col`}>
           {/* Title is independent of mode changes - remains the same in both main and draft modes */}
           <div className="relative flex-shrink-0">
             <input
@@ -591,13 +879,7 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
                 }));
                 
                 // Auto-save title changes
-                if (saveTimeoutRef.current) {
-                  clearTimeout(saveTimeoutRef.current);
-                }
-                
-                saveTimeoutRef.current = setTimeout(() => {
-                  handleAutoSave();
-                }, 1000);
+                scheduleAutoSave();
               }}
               onBlur={async e => {
                 // Save on blur
@@ -620,48 +902,36 @@ const NarrativePanel = forwardRef<NarrativePanelRef, NarrativePanelProps>(({ cur
           </div>
 
           {/* Editor Content */}
-          <div 
-            className="narrative-editor-content flex-1 overflow-y-auto px-6 relative"
-            style={{
-              minHeight: '0', // Critical: allows flex item to shrink below content size
-              paddingTop: '8px', // Set to 8px padding
-              paddingBottom: '0' // Remove bottom padding to eliminate gap
-            }}
-            ref={scrollContainerRef}
-          >
-            {/* Gradient fade over the text area */}
-            <div 
-              className="absolute left-0 right-0 pointer-events-none z-10"
-              style={{
-                height: '24px',
-                background: 'linear-gradient(to bottom, rgba(20, 20, 20, 1) 0%, rgba(20, 20, 20, 0.9) 30%, rgba(20, 20, 20, 0.6) 60%, transparent 100%)'
-              }}
+          {isSplitMode ? (
+            <div className="flex-1 min-h-0 flex gap-4">
+              <EditorPane
+                editor={editor}
+                scrollRef={scrollContainerRef}
+                onScroll={() => syncScroll('draft')}
+                label="Draft"
+                onOpenSource={onOpenSource}
+                highlightProvenance={highlightProvenance}
+              />
+              <MainTextEditor
+                key={narrativeState.id ?? 'new'}
+                initialContent={narrativeState.mainContent}
+                onChange={handleMainTextChange}
+                onEditorChange={handleMainEditorChange}
+                onFocus={() => { lastFocusedRef.current = 'main'; }}
+                scrollRef={mainScrollRef}
+                onScroll={() => syncScroll('main')}
+                onOpenSource={onOpenSource}
+                highlightProvenance={highlightProvenance}
+              />
+            </div>
+          ) : (
+            <EditorPane
+              editor={editor}
+              scrollRef={scrollContainerRef}
+              onOpenSource={onOpenSource}
+              highlightProvenance={highlightProvenance}
             />
-            
-            <EditorContent 
-              editor={editor} 
-              className="narrative-editor bg-[#141414] w-full focus:outline-none"
-              style={{
-                fontFamily: 'var(--font-dm-sans)',
-                fontSize: '16px',
-                lineHeight: '1.6',
-                color: 'white',
-                padding: '16px 0px 560px', // Added 560px bottom padding for typing space
-                margin: '0'
-              }}
-              onClick={() => editor?.commands.focus()}
-              onKeyDown={(e) => {
-                // Prevent tab from moving focus to next component
-                if (e.key === 'Tab') {
-                  e.preventDefault();
-                  // Insert non-breaking spaces as indentation
-                  if (editor) {
-                    editor.chain().focus().insertContent('\u00A0\u00A0\u00A0\u00A0').run();
-                  }
-                }
-              }}
-            />
-          </div>
+          )}
         </div>
       </div>
     </div>
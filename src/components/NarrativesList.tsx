@@ -1,17 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
 import ItemListBrowser from './ItemListBrowser';
 import ipcService from '../services/ipcService';
-
-interface Narrative {
-  id: string;
-  title: string;
-  created: string;
-  lastModified: string;
-  characterCount: number;
-  preferredMode?: 'draft' | 'main';
-}
+import { usePagedList } from '../hooks/usePagedList';
+import type { NarrativeSummary } from '../../electron/shared/ipcContract';
 
 interface NarrativesListProps {
   isOpen: boolean;
@@ -20,7 +13,6 @@ interface NarrativesListProps {
   onNarrativeSelect: (narrativeId: string) => void;
   onNewNarrative: () => void;
   onDeleteNarrative: (narrativeId: string) => void;
-  preloadedNarratives?: Array<{ id: string; title: string; created: string; lastModified: string; characterCount: number }>;
   refreshTrigger?: number; // Add a refresh trigger that increments when narratives are updated
 }
 
@@ -31,38 +23,22 @@ export default function NarrativesList({
   onNarrativeSelect,
   onNewNarrative,
   onDeleteNarrative,
-  preloadedNarratives,
   refreshTrigger = 0,
 }: NarrativesListProps) {
-  const [narratives, setNarratives] = useState<Narrative[]>([]);
+  const narratives = usePagedList<NarrativeSummary>(async options => {
+    const data = await ipcService.getNarratives(options);
+    return { items: data.narratives || [], nextCursor: data.nextCursor ?? null };
+  });
 
-  // Load narratives when the sidebar is opened, when preloaded data changes, or when refresh is triggered
+  // Load the first page when the sidebar is opened or when refresh is triggered
   useEffect(() => {
     if (isOpen) {
-      if (preloadedNarratives && preloadedNarratives.length > 0) {
-        // Use preloaded data if available
-        setNarratives(preloadedNarratives);
-      } else {
-        // Fallback to API call if no preloaded data
-        loadNarratives();
-      }
+      narratives.reload();
     } else {
       // Reset state when modal closes
-      setNarratives([]);
-    }
-  }, [isOpen, preloadedNarratives, refreshTrigger]);
-
-  const loadNarratives = async () => {
-    try {
-      const data = await ipcService.getNarratives();
-      
-      if (data.narratives) {
-        setNarratives(data.narratives);
-      }
-    } catch (error) {
-      // Silent error handling for privacy
+      narratives.clear();
     }
-  };
+  }, [isOpen, refreshTrigger]);
 
   const handleDelete = async (narrativeId: string) => {
     try {
@@ -71,7 +47,7 @@ export default function NarrativesList({
       
       if (result.success) {
         // Remove from local state after successful deletion
-        setNarratives(prev => prev.filter(n => n.id !== narrativeId));
+        narratives.removeItem(narrativeId);
         onDeleteNarrative(narrativeId);
       } else {
         // Failed to delete narrative
@@ -102,10 +78,13 @@ export default function NarrativesList({
   };
 
   return (
-    <ItemListBrowser<Narrative>
+    <ItemListBrowser<NarrativeSummary>
       isOpen={isOpen}
       onClose={onClose}
-      items={narratives}
+      items={narratives.items}
+      hasMore={narratives.hasMore}
+      isLoadingMore={narratives.isLoading}
+      onLoadMore={narratives.loadMore}
       currentItemId={currentNarrativeId}
       onItemSelect={n => onNarrativeSelect(n.id)}
       onNewItem={onNewNarrative}
@@ -0,0 +1,50 @@
+import React from 'react';
+import { diffRowWords, paragraphText, DiffSegment, ParagraphDiffRow } from '../utils/narrativeDiff';
+
+const CELL_STYLES: Record<ParagraphDiffRow['type'], { before: string; after: string }> = {
+  same: { before: 'text-white/50', after: 'text-white/50' },
+  changed: { before: 'bg-amber-500/10', after: 'bg-amber-500/10' },
+  removed: { before: 'bg-red-500/15', after: '' },
+  added: { before: '', after: 'bg-green-500/15' }
+};
+
+const SEGMENT_HIGHLIGHTS = {
+  before: 'bg-red-500/30 line-through',
+  after: 'bg-green-500/30'
+};
+
+function Segments({ segments, highlight }: { segments: DiffSegment[]; highlight: string }) {
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <span key={index} className={segment.type === 'same' ? '' : highlight}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
+
+interface ParagraphDiffCellProps {
+  row: ParagraphDiffRow;
+  side: 'before' | 'after';
+  // Shown over the cell on hover
+  actions?: React.ReactNode;
+}
+
+// One side of a side-by-side diff row; rewritten paragraphs have their changed words highlighted
+export default function ParagraphDiffCell({ row, side, actions }: ParagraphDiffCellProps) {
+  const html = row[side];
+  const words = diffRowWords(row)?.[side] ?? null;
+
+  return (
+    <div className={`relative whitespace-pre-wrap px-2 py-1 rounded ${CELL_STYLES[row.type][side]}`}>
+      {words ? (
+        <Segments segments={words} highlight={SEGMENT_HIGHLIGHTS[side]} />
+      ) : html !== null && paragraphText(html)}
+      {actions && (
+        <div className="absolute top-1 right-1 hidden group-hover:flex gap-1">
+          {actions}
+        </div>
+      )}
+    </div>
+  );
+}
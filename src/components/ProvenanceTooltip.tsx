@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect, useRef, RefObject } from 'react';
+import ipcService from '../services/ipcService';
+import { getProvenanceSource, ProvenanceSource } from '../utils/provenanceMark';
+
+interface ProvenanceTooltipProps {
+  // The element whose provenance passages show the tooltip
+  containerRef: RefObject<HTMLElement | null>;
+  onOpen: (source: ProvenanceSource) => void;
+}
+
+interface HoveredPassage {
+  source: ProvenanceSource;
+  top: number;
+  left: number;
+}
+
+// Leaves time to move the pointer from the passage onto the tooltip
+const HIDE_DELAY_MS = 250;
+
+// Shows which conversation a passage came from, and opens it when clicked
+export default function ProvenanceTooltip({ containerRef, onOpen }: ProvenanceTooltipProps) {
+  const [hovered, setHovered] = useState<HoveredPassage | null>(null);
+  // Conversation titles by id; null when the conversation no longer exists
+  const [titles, setTitles] = useState<Record<string, string | null>>({});
+  const hideTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const requestedRef = useRef(new Set<string>());
+
+  const cancelHide = () => {
+    if (hideTimeoutRef.current) {
+      clearTimeout(hideTimeoutRef.current);
+      hideTimeoutRef.current = null;
+    }
+  };
+
+  const scheduleHide = () => {
+    cancelHide();
+    hideTimeoutRef.current = setTimeout(() => setHovered(null), HIDE_DELAY_MS);
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleMouseOver = (e: MouseEvent) => {
+      const passage = getProvenanceSource(e.target instanceof Element ? e.target : null);
+      if (!passage) {
+        scheduleHide();
+        return;
+      }
+      cancelHide();
+      const rect = passage.element.getBoundingClientRect();
+      setHovered({ source: passage.source, top: rect.bottom + 4, left: rect.left });
+    };
+
+    container.addEventListener('mouseover', handleMouseOver);
+    container.addEventListener('mouseleave', scheduleHide);
+    return () => {
+      container.removeEventListener('mouseover', handleMouseOver);
+      container.removeEventListener('mouseleave', scheduleHide);
+      cancelHide();
+    };
+  }, [containerRef]);
+
+  // Look up the conversation's title the first time one of its passages is hovered
+  useEffect(() => {
+    const conversationId = hovered?.source.conversationId;
+    if (!conversationId || requestedRef.current.has(conversationId)) return;
+    requestedRef.current.add(conversationId);
+
+    ipcService.getConversation(conversationId)
+      .then(conversation => setTitles(prev => ({ ...prev, [conversationId]: conversation?.title || 'Untitled conversation' })))
+      .catch(() => setTitles(prev => ({ ...prev, [conversationId]: null })));
+  }, [hovered?.source.conversationId]);
+
+  if (!hovered) return null;
+
+  const title = titles[hovered.source.conversationId];
+  const isMissing = title === null;
+
+  return (
+    <button
+      type="button"
+      className="fixed z-50 max-w-xs px-3 py-1.5 rounded-lg bg-[#2a2a2a] border border-white/10 shadow-lg text-left text-xs text-white/80 hover:text-white disabled:cursor-default disabled:hover:text-white/80"
+      style={{ top: hovered.top, left: hovered.left }}
+      onMouseEnter={cancelHide}
+      onMouseLeave={scheduleHide}
+      onMouseDown={e => e.preventDefault()}
+      onClick={() => {
+        onOpen(hovered.source);
+        setHovered(null);
+      }}
+      disabled={isMissing}
+    >
+      {isMissing
+        ? 'From a conversation that no longer exists'
+        : `From “${title ?? '…'}”, message ${hovered.source.messageIndex + 1} · Open`}
+    </button>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import ipcService, { VaultRotationProgress } from '../services/ipcService';
+import { validateEncryptionKey } from '../utils/encryption';
+import { describeRotationProgress } from './ChangePassphraseModal';
+
+interface RecoveryScreenProps {
+  onRecovered: () => void;
+  onCancel: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export default function RecoveryScreen({ onRecovered, onCancel }: RecoveryScreenProps) {
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rotationProgress, setRotationProgress] = useState<VaultRotationProgress | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Recovering finishes an interrupted passphrase change first, which reports progress
+  useEffect(() => {
+    return ipcService.onVaultRotationProgress(setRotationProgress);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loading) return;
+
+    const trimmedKey = recoveryKey.trim();
+    if (!validateEncryptionKey(trimmedKey)) {
+      setError('That does not look like a recovery key.');
+      return;
+    }
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+      return;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      setError('Passphrases do not match.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await ipcService.recoverVault(trimmedKey, newPassphrase);
+      if (!result.success) {
+        setError(result.error || 'Incorrect recovery key.');
+        return;
+      }
+
+      setRecoveryKey('');
+      setNewPassphrase('');
+      setConfirmPassphrase('');
+      onRecovered();
+    } catch (err) {
+      setError('Failed to recover vault.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName = `mb-4 px-4 py-2 rounded bg-[#232323] border border-white/10 focus:outline-none focus:ring-2 focus:ring-blue-500 font-surt-medium ${loading ? 'text-white/60 cursor-not-allowed' : 'text-white'}`;
+
+  return (
+    <div className="h-screen bg-[#141414] flex items-center justify-center">
+      <form
+        className="w-full max-w-sm flex flex-col p-8 bg-[#141414] border border-white/10 rounded-xl"
+        onSubmit={handleSubmit}
+      >
+        <h1
+          className="text-2xl text-white mb-2 text-center"
+          style={{ fontFamily: 'var(--font-apoc-revelations-ultrabold), serif' }}
+        >
+          Temenos
+        </h1>
+        <p className="text-gray-400 text-sm text-center mb-6 font-surt-medium">
+          Enter the recovery key you saved when the vault was created, then choose a new passphrase.
+        </p>
+
+        <label className="text-gray-300 text-sm mb-2 font-surt-medium" htmlFor="recovery-key">
+          Recovery key
+        </label>
+        <input
+          id="recovery-key"
+          ref={inputRef}
+          className={`${inputClassName} font-mono text-sm`}
+          type="text"
+          value={recoveryKey}
+          onChange={e => setRecoveryKey(e.target.value)}
+          disabled={loading}
+          autoComplete="off"
+          autoCorrect="off"
+          autoCapitalize="off"
+          spellCheck="false"
+        />
+
+        <label className="text-gray-300 text-sm mb-2 font-surt-medium" htmlFor="recovery-new-passphrase">
+          New passphrase
+        </label>
+        <input
+          id="recovery-new-passphrase"
+          className={inputClassName}
+          type="password"
+          value={newPassphrase}
+          onChange={e => setNewPassphrase(e.target.value)}
+          disabled={loading}
+          autoComplete="off"
+        />
+
+        <label className="text-gray-300 text-sm mb-2 font-surt-medium" htmlFor="recovery-confirm-passphrase">
+          Confirm new passphrase
+        </label>
+        <input
+          id="recovery-confirm-passphrase"
+          className={inputClassName}
+          type="password"
+          value={confirmPassphrase}
+          onChange={e => setConfirmPassphrase(e.target.value)}
+          disabled={loading}
+          autoComplete="off"
+        />
+
+        {loading && rotationProgress && (
+          <div className="text-gray-400 mb-4 text-sm font-surt-medium">
+            Finishing passphrase change: {describeRotationProgress(rotationProgress)}
+          </div>
+        )}
+
+        {error && <div className="text-red-400 mb-4 text-sm">{error}</div>}
+
+        <button
+          type="submit"
+          className={`px-5 py-2 rounded-full transition-colors text-base font-surt-medium shadow-none ${loading || !recoveryKey || !newPassphrase ? 'bg-white/20 text-white/60 cursor-not-allowed' : 'bg-white/20 text-white hover:bg-white/30'}`}
+          disabled={loading || !recoveryKey || !newPassphrase}
+        >
+          {loading ? 'Recovering...' : 'Recover Vault'}
+        </button>
+        <button
+          type="button"
+          className={`mt-3 text-sm font-surt-medium transition-colors ${loading ? 'text-white/30 cursor-not-allowed' : 'text-white/50 hover:text-white/80'}`}
+          onClick={onCancel}
+          disabled={loading}
+        >
+          Back to unlock
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,24 +1,35 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import NarrativePanel, { NarrativePanelRef } from './NarrativePanel';
+import NarrativePanel, { NarrativePanelRef, NarrativeContent } from './NarrativePanel';
 import ChatPanel from './ChatPanel';
 import ConversationList from './ConversationList';
 import NarrativesList from './NarrativesList';
 import ImagesList, { ImagesListModal } from './ImagesList';
 import ImageViewer from './ImageViewer';
 import BreathworkTimer from './BreathworkTimer';
-import { DEFAULT_SYSTEM_PROMPT } from '@/utils/constants';
+import { DEFAULT_SYSTEM_PROMPT, DEFAULT_MODEL } from '@/utils/constants';
 import SystemPromptsModal from './SystemPromptsModal';
 import ContextsModal from './ContextsModal';
+import UnlockScreen from './UnlockScreen';
+import ChangePassphraseModal from './ChangePassphraseModal';
+import ModelSettingsModal from './ModelSettingsModal';
+import TrashList from './TrashList';
+import NarrativeHistory from './NarrativeHistory';
+import NarrativeMerge from './NarrativeMerge';
+import UndoToast from './UndoToast';
 import ipcService from '@/services/ipcService';
+import { usePagedList } from '@/hooks/usePagedList';
+import type { ImageSummary, TrashItemType } from '../../electron/shared/ipcContract';
+import type { JSONContent } from '@tiptap/react';
+import type { ProvenanceSource } from '@/utils/provenanceMark';
 
 interface Conversation {
   id: string;
   title: string;
   created: string;
   lastModified: string;
-  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
+  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string; interrupted?: boolean }>;
 }
 
 interface Narrative {
@@ -27,7 +38,7 @@ interface Narrative {
   content: string;
   created: string;
   lastModified: string;
-  characterCount: number;
+  characterCount?: number;
   preferredMode?: 'draft' | 'main';
 }
 
@@ -43,6 +54,11 @@ export default function SessionLayout() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isNarrativesOpen, setIsNarrativesOpen] = useState(false);
   const [isImagesOpen, setIsImagesOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  // The most recent delete, offered for undo until the toast goes away
+  const [lastDeleted, setLastDeleted] = useState<{ type: TrashItemType; id: string; key: number } | null>(null);
   const [chatWidth, setChatWidth] = useState(30); // Percentage
   const [isDragging, setIsDragging] = useState(false);
   const [currentConversation, setCurrentConversation] = useState<Conversation | null>(null);
@@ -78,6 +94,7 @@ export default function SessionLayout() {
     preloadSystemPrompts();
     // Trigger refresh of the system prompts list
     setSystemPromptsRefreshTrigger(prev => prev + 1);
+    setLastDeleted({ type: 'system-prompt', id: deletedPromptId, key: Date.now() });
   };
 
   // Memoized callback for system prompt creation to prevent infinite loops
@@ -88,9 +105,9 @@ export default function SessionLayout() {
     // Load saved model from localStorage on component mount
     if (typeof window !== 'undefined') {
       const savedModel = localStorage.getItem('temenos-selected-model');
-      return savedModel || 'grok-4-0709';
+      return savedModel || DEFAULT_MODEL;
     }
-    return 'grok-4-0709';
+    return DEFAULT_MODEL;
   });
 
   // Wrapper function to save model to localStorage when it changes
@@ -102,16 +119,18 @@ export default function SessionLayout() {
   };
   
   // Preloaded data state
-  const [preloadedConversations, setPreloadedConversations] = useState<Array<{ id: string; title: string; created: string; lastModified: string; messageCount: number }>>([]);
-  const [preloadedNarratives, setPreloadedNarratives] = useState<Array<{ id: string; title: string; created: string; lastModified: string; characterCount: number }>>([]);
+  const [conversationsRefreshTrigger, setConversationsRefreshTrigger] = useState(0);
   const [narrativesRefreshTrigger, setNarrativesRefreshTrigger] = useState(0);
   const [preloadedSystemPrompts, setPreloadedSystemPrompts] = useState<Array<{ id: string; title: string; body?: string; created: string; lastModified: string }>>([]);
   const [systemPromptsRefreshTrigger, setSystemPromptsRefreshTrigger] = useState(0);
   const [preloadedContexts, setPreloadedContexts] = useState<Array<{ id: string; title: string; created: string; lastModified: string }>>([]);
   const [contextsRefreshTrigger, setContextsRefreshTrigger] = useState(0);
-  const [preloadedImages, setPreloadedImages] = useState<Array<{ id: string; title: string; created: string; lastModified: string; url: string }>>([]);
-  const [imagesRefreshTrigger, setImagesRefreshTrigger] = useState(0);
-  const [viewingImage, setViewingImage] = useState<{ id: string; title: string; url: string } | null>(null);
+  // Images are paged here rather than in ImagesList because the viewer steps through the same list
+  const images = usePagedList<ImageSummary>(async options => {
+    const data = await ipcService.getImages(options);
+    return { items: data.images || [], nextCursor: data.nextCursor ?? null };
+  });
+  const [viewingImage, setViewingImage] = useState<{ id: string; title: string; url: string; thumbnailUrl?: string } | null>(null);
 
   // Narrative panel ref
   const narrativePanelRef = useRef<NarrativePanelRef>(null);
@@ -120,6 +139,12 @@ export default function SessionLayout() {
 
   // DRAFT/MAIN toggle state
   const [isDraftMode, setIsDraftMode] = useState(true);
+  // Draft and main side by side
+  const [isSplitMode, setIsSplitMode] = useState(false);
+  // Highlight passages added from conversations
+  const [isProvenanceHighlighted, setIsProvenanceHighlighted] = useState(false);
+  // The chat message to scroll to after following a passage back to its conversation
+  const [focusedMessage, setFocusedMessage] = useState<ProvenanceSource | null>(null);
   
   // Breathwork timer full-screen state
   const [isBreathworkFullScreen, setIsBreathworkFullScreen] = useState(false);
@@ -127,6 +152,11 @@ export default function SessionLayout() {
   // UI visibility state for cmd + . shortcut
   const [isUIVisible, setIsUIVisible] = useState(true);
 
+  // Vault state - nothing is loaded until the vault is unlocked
+  const [vaultStatus, setVaultStatus] = useState<{ initialized: boolean; unlocked: boolean } | null>(null);
+  const [isChangePassphraseOpen, setIsChangePassphraseOpen] = useState(false);
+  const [isModelSettingsOpen, setIsModelSettingsOpen] = useState(false);
+
   // Keyboard shortcut handler for cmd + j to toggle draft/main mode and cmd + . to hide/show UI
   useEffect(() => {
     const handleKeyDown = async (e: KeyboardEvent) => {
@@ -156,10 +186,10 @@ export default function SessionLayout() {
   // Helper function to load the latest conversation
   const loadLatestConversation = async () => {
     try {
-      const data = await ipcService.getConversations();
-      if (data.conversations && data.conversations.length > 0) {
-        // The API already sorts by lastModified (newest first), so take the first one
-        const latestConversation = data.conversations[0];
+      const data = await ipcService.getConversations({ limit: 1 });
+      // The API sorts by lastModified (newest first), so the first page holds the latest
+      const latestConversation = data.conversations?.[0];
+      if (latestConversation) {
         await handleConversationSelect(latestConversation.id);
       }
     } catch (error) {
@@ -170,10 +200,10 @@ export default function SessionLayout() {
   // Helper function to load the latest narrative
   const loadLatestNarrative = async () => {
     try {
-      const data = await ipcService.getNarratives();
-      if (data.narratives && data.narratives.length > 0) {
-        // The API already sorts by lastModified (newest first), so take the first one
-        const latestNarrative = data.narratives[0];
+      const data = await ipcService.getNarratives({ limit: 1 });
+      // The API sorts by lastModified (newest first), so the first page holds the latest
+      const latestNarrative = data.narratives?.[0];
+      if (latestNarrative) {
         await handleNarrativeSelect(latestNarrative.id);
       }
     } catch (error) {
@@ -182,24 +212,6 @@ export default function SessionLayout() {
   };
 
   // Preload all data functions
-  const preloadConversations = async () => {
-    try {
-      const data = await ipcService.getConversations();
-      setPreloadedConversations(data.conversations || []);
-    } catch (error) {
-      // Silent error handling for privacy
-    }
-  };
-
-  const preloadNarratives = async () => {
-    try {
-      const data = await ipcService.getNarratives();
-      setPreloadedNarratives(data.narratives || []);
-    } catch (error) {
-      // Silent error handling for privacy
-    }
-  };
-
   const preloadSystemPrompts = async () => {
     try {
       const data = await ipcService.getSystemPrompts();
@@ -237,32 +249,68 @@ export default function SessionLayout() {
     }
     }
 
-  const preloadImages = async () => {
-    try {
-      const data = await ipcService.getImages();
-      setPreloadedImages(data.images || []);
-    } catch (error) {
-      // Silent error handling for privacy
+  // Drop everything loaded from the vault
+  const clearSessionState = () => {
+    setCurrentConversation(null);
+    setCurrentNarrative(null);
+    setCurrentImage(null);
+    setViewingImage(null);
+    setPreloadedSystemPrompts([]);
+    setPreloadedContexts([]);
+    images.clear();
+    setIsSidebarOpen(false);
+    setIsNarrativesOpen(false);
+    setIsImagesOpen(false);
+    setIsTrashOpen(false);
+    setIsHistoryOpen(false);
+    setIsMergeOpen(false);
+    setFocusedMessage(null);
+    setLastDeleted(null);
+    setSystemPromptsOpen(false);
+    setContextsOpen(false);
+    setIsChangePassphraseOpen(false);
+    setIsModelSettingsOpen(false);
+  };
+
+  // Check vault status on mount and drop all state whenever the vault locks
+  useEffect(() => {
+    ipcService.getVaultStatus()
+      .then(setVaultStatus)
+      .catch(() => setVaultStatus({ initialized: true, unlocked: false }));
+
+    const unsubscribe = ipcService.onVaultLocked(() => {
+      clearSessionState();
+      setVaultStatus(prev => ({ initialized: prev?.initialized ?? true, unlocked: false }));
+    });
+
+    return unsubscribe;
+  }, []);
+
+  const handleLockVault = async () => {
+    // Flush pending narrative edits while the key is still available
+    if (narrativePanelRef.current) {
+      await narrativePanelRef.current.saveCurrentContent();
     }
+    await ipcService.lockVault();
   };
 
-  // Load latest conversation and narrative on component mount
+  // Load latest conversation and narrative once the vault is unlocked
   useEffect(() => {
+    if (!vaultStatus?.unlocked) return;
+
     const loadLatestItems = async () => {
       // Preload all data in parallel
       await Promise.all([
-        preloadConversations(),
-        preloadNarratives(),
         preloadSystemPrompts(),
         preloadContexts(),
-        preloadImages(),
+        images.reload(),
         loadLatestConversation(),
         loadLatestNarrative()
       ]);
     };
     
     loadLatestItems();
-  }, []);
+  }, [vaultStatus?.unlocked]);
 
   // Load saved system prompt after component mounts (to avoid hydration mismatch)
   useEffect(() => {
@@ -357,19 +405,14 @@ export default function SessionLayout() {
     if (currentConversation?.id === deletedConversationId) {
       setCurrentConversation(null);
     }
-    // Refresh preloaded conversations after deletion
-    preloadConversations();
+    setLastDeleted({ type: 'conversation', id: deletedConversationId, key: Date.now() });
   };
 
   const handleConversationUpdate = async (updatedConversation: Conversation) => {
     setCurrentConversation(updatedConversation);
     
     try {
-      const result = await ipcService.saveConversation(updatedConversation.id, updatedConversation.messages);
-      if (result.success) {
-        // Refresh preloaded conversations after update
-        await preloadConversations();
-      }
+      await ipcService.saveConversation(updatedConversation.id, updatedConversation.messages);
     } catch (error) {
       // Silent error handling for privacy
     }
@@ -403,8 +446,21 @@ export default function SessionLayout() {
     if (currentNarrative?.id === deletedNarrativeId) {
       setCurrentNarrative(null);
     }
-    // Refresh preloaded narratives after deletion
-    preloadNarratives();
+    setLastDeleted({ type: 'narrative', id: deletedNarrativeId, key: Date.now() });
+  };
+
+  // Restores and merges first save and snapshot the text being replaced, so it can be restored too
+  const handleReplaceNarrativeContent = async (changes: Partial<NarrativeContent>) => {
+    const panel = narrativePanelRef.current;
+    if (!panel || !currentNarrative) return null;
+
+    try {
+      await panel.saveCurrentContent();
+      await ipcService.snapshotNarrative(currentNarrative.id);
+    } catch (error) {
+      // Silent error handling for privacy
+    }
+    return panel.updateContent(changes);
   };
 
   const handleNarrativeUpdate = (updatedNarrative: Narrative | null) => {
@@ -417,44 +473,23 @@ export default function SessionLayout() {
     // are updated together, preventing race conditions
     setCurrentNarrative(updatedNarrative);
     
-    // Refresh preloaded narratives after update
     if (updatedNarrative) {
-      preloadNarratives();
       // Increment refresh trigger to force NarrativesList to update
       setNarrativesRefreshTrigger(prev => prev + 1);
     }
   };
 
-  // Add text to the current narrative (modified to check current mode)
-  const handleAddToNarrative = (text: string) => {
-    if (narrativePanelRef.current) {
-      // Use the narrative panel's addTextToContent function which automatically
-      // adds to the correct section based on current mode
-      narrativePanelRef.current.addTextToContent(text);
-    } else {
-      // Fallback to old behavior if ref is not available
-      if (!currentNarrative) {
-        // Create a new narrative if none exists
-        const newNarrative: Narrative = {
-          id: `narrative_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          title: 'New Narrative',
-          content: `<p>${text}</p>`,
-          created: new Date().toISOString(),
-          lastModified: new Date().toISOString(),
-          characterCount: text.length
-        };
-        setCurrentNarrative(newNarrative);
-      } else {
-        // Add text to the current active paragraph instead of creating a new one
-        const updatedNarrative: Narrative = {
-          ...currentNarrative,
-          content: currentNarrative.content.replace(/<\/p>$/, ` ${text}</p>`),
-          lastModified: new Date().toISOString(),
-          characterCount: currentNarrative.characterCount + text.length
-        };
-        setCurrentNarrative(updatedNarrative);
-      }
+  // Add chat content to the current narrative, in whichever of draft or main is being edited
+  const handleAddToNarrative = (content: JSONContent[], source?: ProvenanceSource) => {
+    narrativePanelRef.current?.addContent(content, source);
+  };
+
+  // Open the conversation a passage came from, scrolled to its message
+  const handleOpenSource = async (source: ProvenanceSource) => {
+    if (currentConversation?.id !== source.conversationId) {
+      await handleConversationSelect(source.conversationId);
     }
+    setFocusedMessage(source);
   };
 
   // Image handlers
@@ -472,23 +507,19 @@ export default function SessionLayout() {
   const handleNewImage = () => {
     // This will be handled by the ImagesList component now
     // The modal will switch to form mode
-    // Increment refresh trigger to force list update
-    setImagesRefreshTrigger(prev => prev + 1);
   };
 
-  const handleImageCreated = (newImage: { id: string; title: string; created: string; lastModified: string; url: string }) => {
-    // Add the new image to the preloaded data
-    setPreloadedImages(prev => [newImage, ...prev]);
-    setImagesRefreshTrigger(prev => prev + 1);
+  const handleImageCreated = () => {
+    // Reload the first page so the new image shows at the top
+    images.reload();
   };
 
   const handleDeleteImage = (deletedImageId: string) => {
     if (currentImage?.id === deletedImageId) {
       setCurrentImage(null);
     }
-    // Remove the deleted image from preloaded data
-    setPreloadedImages(prev => prev.filter(img => img.id !== deletedImageId));
-    setImagesRefreshTrigger(prev => prev + 1);
+    images.removeItem(deletedImageId);
+    setLastDeleted({ type: 'image', id: deletedImageId, key: Date.now() });
   };
 
   const [systemPromptsOpen, setSystemPromptsOpen] = useState(false);
@@ -507,6 +538,41 @@ export default function SessionLayout() {
     // Remove the deleted context from preloaded data
     setPreloadedContexts(prev => prev.filter(ctx => ctx.id !== deletedContextId));
     setContextsRefreshTrigger(prev => prev + 1);
+    setLastDeleted({ type: 'context', id: deletedContextId, key: Date.now() });
+  };
+
+  // Reload whichever list a restored item belongs to
+  const refreshAfterRestore = (type: TrashItemType) => {
+    switch (type) {
+      case 'conversation':
+        setConversationsRefreshTrigger(prev => prev + 1);
+        break;
+      case 'narrative':
+        setNarrativesRefreshTrigger(prev => prev + 1);
+        break;
+      case 'system-prompt':
+        preloadSystemPrompts();
+        setSystemPromptsRefreshTrigger(prev => prev + 1);
+        break;
+      case 'context':
+        preloadContexts();
+        break;
+      case 'image':
+        images.reload();
+        break;
+    }
+  };
+
+  const handleUndoDelete = async () => {
+    if (!lastDeleted) return;
+    try {
+      const result = await ipcService.restoreTrashItem(lastDeleted.type, lastDeleted.id);
+      if (result.success) {
+        refreshAfterRestore(lastDeleted.type);
+      }
+    } catch (error) {
+      // Silent error handling for privacy
+    }
   };
 
   // Context creation handler
@@ -514,25 +580,65 @@ export default function SessionLayout() {
     setContextsOpen(true);
   };
 
+  if (!vaultStatus) {
+    return <div className="h-screen bg-[#141414]" />;
+  }
+
+  if (!vaultStatus.unlocked) {
+    return (
+      <UnlockScreen
+        isInitialized={vaultStatus.initialized}
+        onUnlocked={() => setVaultStatus({ initialized: true, unlocked: true })}
+      />
+    );
+  }
+
   return (
     <div className="h-screen bg-[#141414] flex">
         {/* Main/Draft Toggle Switch - absolute positioned to move with layout */}
         {isUIVisible && !isBreathworkFullScreen && (
           <div className="absolute top-0 left-0 pt-13 z-[100]" style={{ paddingLeft: '6px' }}>
-            <div className="w-16 flex items-center justify-center">
+            <div className="w-16 flex flex-col items-center justify-center gap-2">
+              {!isSplitMode && (
+                <button
+                  className={`w-10 h-6 rounded-full flex items-center transition-colors duration-300 focus:outline-none ${!isDraftMode ? 'bg-green-600' : 'bg-white/10'}`}
+                  onClick={async () => {
+                    // Use the simplified mode switch function
+                    if (narrativePanelRef.current) {
+                      await narrativePanelRef.current.handleModeSwitch();
+                    }
+                  }}
+                  title={!isDraftMode ? 'Switch to Draft (⌘+J)' : 'Switch to Main Narrative (⌘+J)'}
+                >
+                  <span
+                    className={`w-5 h-5 rounded-full bg-white shadow transform transition-transform duration-300 ${!isDraftMode ? 'translate-x-4' : 'translate-x-1'}`}
+                  />
+                </button>
+              )}
               <button
-                className={`w-10 h-6 rounded-full flex items-center transition-colors duration-300 focus:outline-none ${!isDraftMode ? 'bg-green-600' : 'bg-white/10'}`}
+                className={`w-10 h-6 rounded-full flex items-center justify-center transition-colors duration-300 focus:outline-none ${isSplitMode ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`}
                 onClick={async () => {
-                  // Use the simplified mode switch function
-                  if (narrativePanelRef.current) {
+                  if (!isSplitMode && !isDraftMode && narrativePanelRef.current) {
+                    // The left pane is always the draft
                     await narrativePanelRef.current.handleModeSwitch();
                   }
+                  setIsSplitMode(prev => !prev);
                 }}
-                title={!isDraftMode ? 'Switch to Draft (⌘+J)' : 'Switch to Main Narrative (⌘+J)'}
+                title={isSplitMode ? 'Edit one text at a time' : 'Edit draft and main side by side'}
+              >
+                <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <rect x="3" y="4" width="18" height="16" rx="2" strokeWidth={2} />
+                  <path strokeLinecap="round" strokeWidth={2} d="M12 4v16" />
+                </svg>
+              </button>
+              <button
+                className={`w-10 h-6 rounded-full flex items-center justify-center transition-colors duration-300 focus:outline-none ${isProvenanceHighlighted ? 'bg-sky-500/40' : 'bg-white/10 hover:bg-white/20'}`}
+                onClick={() => setIsProvenanceHighlighted(prev => !prev)}
+                title={isProvenanceHighlighted ? 'Stop highlighting text added from conversations' : 'Highlight text added from conversations'}
               >
-                <span
-                  className={`w-5 h-5 rounded-full bg-white shadow transform transition-transform duration-300 ${!isDraftMode ? 'translate-x-4' : 'translate-x-1'}`}
-                />
+                <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                </svg>
               </button>
             </div>
           </div>
@@ -570,6 +676,42 @@ export default function SessionLayout() {
                 </svg>
               </button>
               
+              <button
+                onClick={() => currentNarrative && setIsHistoryOpen(true)}
+                disabled={!currentNarrative}
+                className="w-10 h-10 rounded transition-colors flex items-center justify-center hover:bg-white/20 text-white/40 hover:text-white/95 group disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Narrative History"
+              >
+                <svg 
+                  className="w-5 h-5 transition-colors duration-300 text-white/40 group-hover:text-white/95" 
+                  xmlns="http://www.w3.org/2000/svg" 
+                  fill="none" 
+                  viewBox="0 0 24 24" 
+                  strokeWidth="1.5" 
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
+                </svg>
+              </button>
+              
+              <button
+                onClick={() => currentNarrative && setIsMergeOpen(true)}
+                disabled={!currentNarrative}
+                className="w-10 h-10 rounded transition-colors flex items-center justify-center hover:bg-white/20 text-white/40 hover:text-white/95 group disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Merge Draft into Main"
+              >
+                <svg 
+                  className="w-5 h-5 transition-colors duration-300 text-white/40 group-hover:text-white/95" 
+                  xmlns="http://www.w3.org/2000/svg" 
+                  fill="none" 
+                  viewBox="0 0 24 24" 
+                  strokeWidth="1.5" 
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 21 3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5" />
+                </svg>
+              </button>
+              
               <button
                 onClick={() => setContextsOpen(true)}
                 className="w-10 h-10 rounded transition-colors flex items-center justify-center hover:bg-white/20 text-white/40 hover:text-white/95 group"
@@ -604,8 +746,76 @@ export default function SessionLayout() {
                 </svg>
               </button>
               
+              <button
+                onClick={() => setIsTrashOpen(true)}
+                className="w-10 h-10 rounded transition-colors flex items-center justify-center hover:bg-white/20 text-white/40 hover:text-white/95 group"
+                title="Trash"
+              >
+                <svg 
+                  className="w-5 h-5 transition-colors duration-300 text-white/40 group-hover:text-white/95" 
+                  xmlns="http://www.w3.org/2000/svg" 
+                  fill="none" 
+                  viewBox="0 0 24 24" 
+                  strokeWidth="1.5" 
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" d="m14.74 9-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 0 1-2.244 2.077H8.084a2.25 2.25 0 0 1-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 0 0-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 0 1 3.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 0 0-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 0 0-7.5 0" />
+                </svg>
+              </button>
+              
               <BreathworkTimer onFullScreenChange={setIsBreathworkFullScreen} />
               
+              <button
+                onClick={handleLockVault}
+                className="w-10 h-10 rounded transition-colors flex items-center justify-center hover:bg-white/20 text-white/40 hover:text-white/95 group"
+                title="Lock Vault"
+              >
+                <svg 
+                  className="w-5 h-5 transition-colors duration-300 text-white/40 group-hover:text-white/95" 
+                  xmlns="http://www.w3.org/2000/svg" 
+                  fill="none" 
+                  viewBox="0 0 24 24" 
+                  strokeWidth="1.5" 
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 1 0-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 0 0 2.25-2.25v-6.75a2.25 2.25 0 0 0-2.25-2.25H6.75a2.25 2.25 0 0 0-2.25 2.25v6.75a2.25 2.25 0 0 0 2.25 2.25Z" />
+                </svg>
+              </button>
+              
+              <button
+                onClick={() => setIsChangePassphraseOpen(true)}
+                className="w-10 h-10 rounded transition-colors flex items-center justify-center hover:bg-white/20 text-white/40 hover:text-white/95 group"
+                title="Change Passphrase"
+              >
+                <svg 
+                  className="w-5 h-5 transition-colors duration-300 text-white/40 group-hover:text-white/95" 
+                  xmlns="http://www.w3.org/2000/svg" 
+                  fill="none" 
+                  viewBox="0 0 24 24" 
+                  strokeWidth="1.5" 
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 5.25a3 3 0 0 1 3 3m3 0a6 6 0 0 1-7.029 5.912c-.563-.097-1.159.026-1.563.43L10.5 17.25H8.25v2.25H6v2.25H2.25v-2.818c0-.597.237-1.17.659-1.591l6.499-6.499c.404-.404.527-1 .43-1.563A6 6 0 1 1 21.75 8.25Z" />
+                </svg>
+              </button>
+
+              <button
+                onClick={() => setIsModelSettingsOpen(true)}
+                className="w-10 h-10 rounded transition-colors flex items-center justify-center hover:bg-white/20 text-white/40 hover:text-white/95 group"
+                title="Model Settings"
+              >
+                <svg 
+                  className="w-5 h-5 transition-colors duration-300 text-white/40 group-hover:text-white/95" 
+                  xmlns="http://www.w3.org/2000/svg" 
+                  fill="none" 
+                  viewBox="0 0 24 24" 
+                  strokeWidth="1.5" 
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 1 1-3 0m3 0a1.5 1.5 0 1 0-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m-9.75 0h9.75" />
+                </svg>
+              </button>
+              
 
             </div>
           </div>
@@ -628,6 +838,9 @@ export default function SessionLayout() {
               ref={narrativePanelRef}
               isDraftMode={isDraftMode}
               setIsDraftMode={setIsDraftMode}
+              isSplitMode={isSplitMode}
+              onOpenSource={handleOpenSource}
+              highlightProvenance={isProvenanceHighlighted}
             />
           </div>
 
@@ -662,6 +875,8 @@ export default function SessionLayout() {
                 onOpenSystemPrompts={() => setSystemPromptsOpen(true)}
                 systemPromptTitle={systemPrompt.title}
                 onOpenConversations={() => setIsSidebarOpen(true)}
+                focusedMessage={focusedMessage}
+                onMessageFocused={() => setFocusedMessage(null)}
               />
           </div>
         </div>
@@ -675,7 +890,7 @@ export default function SessionLayout() {
             onConversationSelect={handleConversationSelect}
             onNewConversation={handleNewConversation}
             onDeleteConversation={handleDeleteConversation}
-            preloadedConversations={preloadedConversations}
+            refreshTrigger={conversationsRefreshTrigger}
           />
         )}
 
@@ -688,7 +903,6 @@ export default function SessionLayout() {
             onNarrativeSelect={handleNarrativeSelect}
             onNewNarrative={handleNewNarrative}
             onDeleteNarrative={handleDeleteNarrative}
-            preloadedNarratives={preloadedNarratives}
             refreshTrigger={narrativesRefreshTrigger}
           />
         )}
@@ -718,6 +932,52 @@ export default function SessionLayout() {
           />
         )}
 
+        <ChangePassphraseModal
+          isOpen={isChangePassphraseOpen}
+          onClose={() => setIsChangePassphraseOpen(false)}
+        />
+
+        <ModelSettingsModal
+          isOpen={isModelSettingsOpen}
+          onClose={() => setIsModelSettingsOpen(false)}
+        />
+
+        {isUIVisible && (
+          <NarrativeHistory
+            isOpen={isHistoryOpen}
+            onClose={() => setIsHistoryOpen(false)}
+            narrativeId={currentNarrative?.id || null}
+            getCurrentContent={() => narrativePanelRef.current?.getContent() ?? null}
+            onRestore={(target, html) => handleReplaceNarrativeContent(target === 'draft' ? { draftContent: html } : { content: html })}
+          />
+        )}
+
+        {isUIVisible && (
+          <NarrativeMerge
+            isOpen={isMergeOpen}
+            onClose={() => setIsMergeOpen(false)}
+            getCurrentContent={() => narrativePanelRef.current?.getContent() ?? null}
+            onMerge={handleReplaceNarrativeContent}
+          />
+        )}
+
+        {isUIVisible && (
+          <TrashList
+            isOpen={isTrashOpen}
+            onClose={() => setIsTrashOpen(false)}
+            onRestored={refreshAfterRestore}
+          />
+        )}
+
+        {lastDeleted && (
+          <UndoToast
+            key={lastDeleted.key}
+            message="Moved to Trash"
+            onUndo={handleUndoDelete}
+            onDismiss={() => setLastDeleted(null)}
+          />
+        )}
+
         {/* Images List Modal */}
         {isUIVisible && (
           <ImagesListModal
@@ -727,8 +987,10 @@ export default function SessionLayout() {
             onImageSelect={handleImageSelect}
             onNewImage={handleNewImage}
             onDeleteImage={handleDeleteImage}
-            preloadedImages={preloadedImages}
-            refreshTrigger={imagesRefreshTrigger}
+            images={images.items}
+            hasMore={images.hasMore}
+            isLoadingMore={images.isLoading}
+            onLoadMore={images.loadMore}
             viewingImage={viewingImage}
             onViewingImageChange={setViewingImage}
             onImageCreated={handleImageCreated}
@@ -742,7 +1004,7 @@ export default function SessionLayout() {
             onClose={() => setViewingImage(null)}
             onBackToList={() => setIsImagesOpen(true)}
             image={viewingImage}
-            images={preloadedImages}
+            images={images.items}
             onImageChange={setViewingImage}
           />
         )}
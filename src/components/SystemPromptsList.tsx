@@ -276,7 +276,7 @@ export default function SystemPromptsList({
                         onClick={e => {
                           e.stopPropagation();
                           if (!deletable) return;
-                          if (confirm('Are you sure you want to delete this item? This action cannot be undone.')) {
+                          if (confirm('Move this system prompt to Trash? You can restore it from Trash.')) {
                             handleDelete(id);
                           }
                         }}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useMemo } from 'react';
-import { getTokenInfo, formatTokenCount, getModelContextWindow, estimateTokens } from '@/utils/tokenCount';
+import { getTokenInfo, formatTokenCount, getModelContextWindow, estimateTokens, findModel, getUsageCost, formatCost } from '@/utils/tokenCount';
+import { useModels } from '@/hooks/useModels';
 
 interface TokenCountDisplayProps {
   messages: Array<{ role: string; content: string; usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } }>;
@@ -16,8 +17,10 @@ export default function TokenCountDisplay({
   selectedModel, 
   className = ''
 }: TokenCountDisplayProps) {
+  const models = useModels();
+
   const tokenInfo = useMemo(() => {
-    const maxTokens = getModelContextWindow(selectedModel);
+    const maxTokens = getModelContextWindow(selectedModel, models);
     
     // Calculate cumulative tokens from all messages
     let cumulativeTokens = 0;
@@ -53,7 +56,11 @@ export default function TokenCountDisplay({
       percentageUsed,
       isNearLimit
     };
-  }, [messages, systemPrompt, selectedModel]);
+  }, [messages, systemPrompt, selectedModel, models]);
+
+  // What the last reply cost, from the usage it reported
+  const lastUsage = messages[messages.length - 1]?.usage;
+  const cost = lastUsage ? getUsageCost(lastUsage, findModel(models, selectedModel)) : null;
 
   if (tokenInfo.estimatedTokens === 0) {
     return null;
@@ -65,6 +72,7 @@ export default function TokenCountDisplay({
         {formatTokenCount(tokenInfo.estimatedTokens)} (estimated)
         {tokenInfo.isNearLimit && ' (near limit)'}
       </span>
+      {cost !== null && <span> · {formatCost(cost)}</span>}
     </div>
   );
 } 
\ No newline at end of file
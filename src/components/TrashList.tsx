@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect } from 'react';
+import ItemListBrowser from './ItemListBrowser';
+import ipcService from '../services/ipcService';
+import { usePagedList } from '../hooks/usePagedList';
+import type { TrashItemType, TrashSummary } from '../../electron/shared/ipcContract';
+
+const TYPE_LABELS: Record<TrashItemType, string> = {
+  'conversation': 'Conversation',
+  'narrative': 'Narrative',
+  'system-prompt': 'System prompt',
+  'context': 'Context',
+  'image': 'Image'
+};
+
+interface TrashListProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after an item is restored so the list it came from can reload
+  onRestored: (type: TrashItemType) => void;
+}
+
+export default function TrashList({ isOpen, onClose, onRestored }: TrashListProps) {
+  const trash = usePagedList<TrashSummary>(async options => {
+    const data = await ipcService.getTrash(options);
+    return { items: data.items || [], nextCursor: data.nextCursor ?? null };
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      trash.reload();
+    } else {
+      trash.clear();
+    }
+  }, [isOpen]);
+
+  const handleRestore = async (entry: TrashSummary) => {
+    try {
+      const result = await ipcService.restoreTrashItem(entry.type, entry.itemId);
+      if (result.success) {
+        trash.removeItem(entry.id);
+        onRestored(entry.type);
+      }
+    } catch (error) {
+      // Silent error handling for privacy
+    }
+  };
+
+  const handlePurge = async (entryId: string) => {
+    const entry = trash.items.find(item => item.id === entryId);
+    if (!entry) return;
+
+    try {
+      const result = await ipcService.purgeTrashItem(entry.type, entry.itemId);
+      if (result.success) {
+        trash.removeItem(entryId);
+      }
+    } catch (error) {
+      // Silent error handling for privacy
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (trash.items.length === 0) return;
+    if (!confirm('Permanently delete everything in Trash? This action cannot be undone.')) return;
+
+    try {
+      await ipcService.emptyTrash();
+    } catch (error) {
+      // Silent error handling for privacy
+    }
+    trash.reload();
+  };
+
+  return (
+    <ItemListBrowser<TrashSummary>
+      isOpen={isOpen}
+      onClose={onClose}
+      items={trash.items}
+      hasMore={trash.hasMore}
+      isLoadingMore={trash.isLoading}
+      onLoadMore={trash.loadMore}
+      currentItemId={null}
+      onItemSelect={() => {}}
+      onNewItem={handleEmptyTrash}
+      onDeleteItem={handlePurge}
+      renderItemTitle={t => (
+        <>
+          <span className="text-gray-400">{TYPE_LABELS[t.type]}</span>
+          {' · '}
+          {t.title || 'Untitled'}
+        </>
+      )}
+      renderItemDate={t => {
+        const date = new Date(t.deletedAt);
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        const day = date.getDate().toString().padStart(2, '0');
+        const year = date.getFullYear();
+        return `${month}/${day}/${year}`;
+      }}
+      getItemId={t => t.id}
+      newItemLabel={'Empty Trash'}
+      closeOnNewItem={false}
+      closeOnSelect={false}
+      deleteConfirmMessage={'Permanently delete this item? This action cannot be undone.'}
+      renderItemActions={t => (
+        <button
+          type="button"
+          className="text-gray-400 p-2 transition-all rounded hover:text-white hover:bg-white/10"
+          title="Restore"
+          onClick={e => { e.stopPropagation(); handleRestore(t); }}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 15 3 9m0 0 6-6M3 9h12a6 6 0 0 1 0 12h-3" />
+          </svg>
+        </button>
+      )}
+    />
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+const UNDO_TOAST_DURATION_MS = 6000;
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+// Shown after a delete; render with a new key for each deletion to restart the timer
+export default function UndoToast({ message, onUndo, onDismiss }: UndoToastProps) {
+  const onDismissRef = useRef(onDismiss);
+  onDismissRef.current = onDismiss;
+
+  useEffect(() => {
+    const timer = setTimeout(() => onDismissRef.current(), UNDO_TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <div
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-4 px-5 py-3 rounded-full bg-[#2a2a2a] text-white text-sm font-surt-medium shadow-lg"
+      style={{ zIndex: 1000000 }}
+      role="status"
+    >
+      <span>{message}</span>
+      <button
+        onClick={() => {
+          onUndo();
+          onDismiss();
+        }}
+        className="px-3 py-1 rounded-full text-white/80 hover:text-white hover:bg-white/10 transition-colors"
+      >
+        Undo
+      </button>
+    </div>
+  );
+}
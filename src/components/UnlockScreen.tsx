@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import ipcService, { VaultRotationProgress } from '../services/ipcService';
+import { describeRotationProgress } from './ChangePassphraseModal';
+import RecoveryScreen from './RecoveryScreen';
+import { generateEncryptionKey } from '../utils/encryption';
+
+interface UnlockScreenProps {
+  isInitialized: boolean;
+  onUnlocked: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export default function UnlockScreen({ isInitialized, onUnlocked }: UnlockScreenProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rotationProgress, setRotationProgress] = useState<VaultRotationProgress | null>(null);
+  const [isRecovering, setIsRecovering] = useState(false);
+  // Shown once after the vault is created, then discarded
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+  const [recoveryKeyCopied, setRecoveryKeyCopied] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Unlocking resumes an interrupted passphrase change, which reports progress
+  useEffect(() => {
+    return ipcService.onVaultRotationProgress(setRotationProgress);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loading) return;
+
+    if (!isInitialized) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError('Passphrases do not match.');
+        return;
+      }
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      if (isInitialized) {
+        const result = await ipcService.unlockVault(passphrase);
+        if (!result.success) {
+          setError(result.error || 'Incorrect passphrase.');
+          return;
+        }
+      } else {
+        const newRecoveryKey = generateEncryptionKey();
+        await ipcService.setupVault(passphrase, newRecoveryKey);
+
+        setPassphrase('');
+        setConfirmPassphrase('');
+        setRecoveryKey(newRecoveryKey);
+        return;
+      }
+
+      setPassphrase('');
+      setConfirmPassphrase('');
+      onUnlocked();
+    } catch (err) {
+      setError(isInitialized ? 'Failed to unlock vault.' : 'Failed to create vault.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopyRecoveryKey = async () => {
+    if (!recoveryKey) return;
+    try {
+      await navigator.clipboard.writeText(recoveryKey);
+      setRecoveryKeyCopied(true);
+    } catch (err) {
+      // Clipboard unavailable - the key can still be selected and copied by hand
+    }
+  };
+
+  const handleRecoveryKeySaved = () => {
+    setRecoveryKey(null);
+    setRecoveryKeyCopied(false);
+    onUnlocked();
+  };
+
+  if (isRecovering) {
+    return <RecoveryScreen onRecovered={onUnlocked} onCancel={() => setIsRecovering(false)} />;
+  }
+
+  if (recoveryKey) {
+    return (
+      <div className="h-screen bg-[#141414] flex items-center justify-center">
+        <div className="w-full max-w-sm flex flex-col p-8 bg-[#141414] border border-white/10 rounded-xl">
+          <h1
+            className="text-2xl text-white mb-2 text-center"
+            style={{ fontFamily: 'var(--font-apoc-revelations-ultrabold), serif' }}
+          >
+            Temenos
+          </h1>
+          <p className="text-gray-400 text-sm text-center mb-6 font-surt-medium">
+            This is your recovery key. It is the only way back into your vault if you forget your
+            passphrase, and it will not be shown again. Store it somewhere safe outside this computer.
+          </p>
+
+          <div className="mb-4 px-4 py-3 rounded bg-[#232323] border border-white/10 text-white font-mono text-sm break-all select-all">
+            {recoveryKey}
+          </div>
+
+          <button
+            type="button"
+            className="mb-3 px-5 py-2 rounded-full transition-colors text-base font-surt-medium shadow-none bg-white/10 text-white hover:bg-white/20"
+            onClick={handleCopyRecoveryKey}
+          >
+            {recoveryKeyCopied ? 'Copied' : 'Copy Recovery Key'}
+          </button>
+          <button
+            type="button"
+            className="px-5 py-2 rounded-full transition-colors text-base font-surt-medium shadow-none bg-white/20 text-white hover:bg-white/30"
+            onClick={handleRecoveryKeySaved}
+          >
+            I Have Saved It
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen bg-[#141414] flex items-center justify-center">
+      <form
+        className="w-full max-w-sm flex flex-col p-8 bg-[#141414] border border-white/10 rounded-xl"
+        onSubmit={handleSubmit}
+      >
+        <h1
+          className="text-2xl text-white mb-2 text-center"
+          style={{ fontFamily: 'var(--font-apoc-revelations-ultrabold), serif' }}
+        >
+          Temenos
+        </h1>
+        <p className="text-gray-400 text-sm text-center mb-6 font-surt-medium">
+          {isInitialized
+            ? 'Enter your passphrase to unlock your vault.'
+            : 'Choose a passphrase to protect your vault. You will also get a recovery key in case you forget it.'}
+        </p>
+
+        <label className="text-gray-300 text-sm mb-2 font-surt-medium" htmlFor="vault-passphrase">
+          Passphrase
+        </label>
+        <input
+          id="vault-passphrase"
+          ref={inputRef}
+          className={`mb-4 px-4 py-2 rounded bg-[#232323] border border-white/10 focus:outline-none focus:ring-2 focus:ring-blue-500 font-surt-medium ${loading ? 'text-white/60 cursor-not-allowed' : 'text-white'}`}
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          disabled={loading}
+          autoComplete="off"
+        />
+
+        {!isInitialized && (
+          <>
+            <label className="text-gray-300 text-sm mb-2 font-surt-medium" htmlFor="vault-passphrase-confirm">
+              Confirm passphrase
+            </label>
+            <input
+              id="vault-passphrase-confirm"
+              className={`mb-4 px-4 py-2 rounded bg-[#232323] border border-white/10 focus:outline-none focus:ring-2 focus:ring-blue-500 font-surt-medium ${loading ? 'text-white/60 cursor-not-allowed' : 'text-white'}`}
+              type="password"
+              value={confirmPassphrase}
+              onChange={e => setConfirmPassphrase(e.target.value)}
+              disabled={loading}
+              autoComplete="off"
+            />
+          </>
+        )}
+
+        {loading && rotationProgress && (
+          <div className="text-gray-400 mb-4 text-sm font-surt-medium">
+            Finishing passphrase change: {describeRotationProgress(rotationProgress)}
+          </div>
+        )}
+
+        {error && <div className="text-red-400 mb-4 text-sm">{error}</div>}
+
+        <button
+          type="submit"
+          className={`px-5 py-2 rounded-full transition-colors text-base font-surt-medium shadow-none ${loading || !passphrase ? 'bg-white/20 text-white/60 cursor-not-allowed' : 'bg-white/20 text-white hover:bg-white/30'}`}
+          disabled={loading || !passphrase}
+        >
+          {loading
+            ? (isInitialized ? 'Unlocking...' : 'Creating...')
+            : (isInitialized ? 'Unlock' : 'Create Vault')}
+        </button>
+
+        {isInitialized && (
+          <button
+            type="button"
+            className={`mt-3 text-sm font-surt-medium transition-colors ${loading ? 'text-white/30 cursor-not-allowed' : 'text-white/50 hover:text-white/80'}`}
+            onClick={() => { setError(null); setIsRecovering(true); }}
+            disabled={loading}
+          >
+            Forgot passphrase?
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import ipcService from '../services/ipcService';
+import type { ModelInfo } from '../../electron/shared/ipcContract';
+
+// The models are shared by every component that shows them, and loaded once until reloaded
+let loadedModels: ModelInfo[] | null = null;
+let pendingLoad: Promise<ModelInfo[]> | null = null;
+const listeners = new Set<(models: ModelInfo[]) => void>();
+
+// Load the models again, such as after the model registry has changed
+export const reloadModels = (): Promise<ModelInfo[]> => {
+  pendingLoad = ipcService.listModels()
+    .then(models => {
+      loadedModels = models;
+      listeners.forEach(listener => listener(models));
+      return models;
+    })
+    .finally(() => {
+      pendingLoad = null;
+    });
+  return pendingLoad;
+};
+
+// Models offered by the configured providers, with their registry settings
+export function useModels(): ModelInfo[] {
+  const [models, setModels] = useState<ModelInfo[]>(() => loadedModels ?? []);
+
+  useEffect(() => {
+    listeners.add(setModels);
+    if (loadedModels) {
+      setModels(loadedModels);
+    } else if (!pendingLoad) {
+      reloadModels().catch(() => {
+        // Silent error handling for privacy
+      });
+    }
+    return () => {
+      listeners.delete(setModels);
+    };
+  }, []);
+
+  return models;
+}
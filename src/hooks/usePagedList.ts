@@ -0,0 +1,103 @@
+import { useState, useCallback, useRef } from 'react';
+import type { PageOptions } from '../../electron/shared/ipcContract';
+
+export const LIST_PAGE_SIZE = 50;
+
+export interface ListPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface UsePagedListReturn<T> {
+  items: T[];
+  hasMore: boolean;
+  isLoading: boolean;
+  reload: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  removeItem: (id: string) => void;
+  clear: () => void;
+}
+
+// Pages through a list channel, newest first. `fetchPage` may change between renders.
+export const usePagedList = <T extends { id: string }>(
+  fetchPage: (options: PageOptions) => Promise<ListPage<T>>
+): UsePagedListReturn<T> => {
+  const [items, setItems] = useState<T[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  // Bumped on every reload or clear so a page that arrives late is dropped
+  const requestRef = useRef(0);
+  const loadingRef = useRef(false);
+
+  const reload = useCallback(async () => {
+    const request = ++requestRef.current;
+    loadingRef.current = true;
+    setIsLoading(true);
+
+    try {
+      const page = await fetchPageRef.current({ limit: LIST_PAGE_SIZE });
+      if (request !== requestRef.current) return;
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      // Silent error handling for privacy
+    } finally {
+      if (request === requestRef.current) {
+        loadingRef.current = false;
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingRef.current) return;
+
+    const request = requestRef.current;
+    loadingRef.current = true;
+    setIsLoading(true);
+
+    try {
+      const page = await fetchPageRef.current({ cursor: nextCursor, limit: LIST_PAGE_SIZE });
+      if (request !== requestRef.current) return;
+      // Skip anything already shown in case the list changed between pages
+      setItems(prev => {
+        const shown = new Set(prev.map(item => item.id));
+        return [...prev, ...page.items.filter(item => !shown.has(item.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      // Silent error handling for privacy
+    } finally {
+      if (request === requestRef.current) {
+        loadingRef.current = false;
+        setIsLoading(false);
+      }
+    }
+  }, [nextCursor]);
+
+  const removeItem = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    requestRef.current++;
+    loadingRef.current = false;
+    setIsLoading(false);
+    setItems([]);
+    setNextCursor(null);
+  }, []);
+
+  return {
+    items,
+    hasMore: nextCursor !== null,
+    isLoading,
+    reload,
+    loadMore,
+    removeItem,
+    clear
+  };
+};
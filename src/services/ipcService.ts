@@ -1,47 +1,25 @@
 // IPC Service Layer - Replaces Next.js API routes with Electron IPC calls
 
-interface Conversation {
-  id: string;
-  title: string;
-  created: string;
-  lastModified: string;
-  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
-}
+import type {
+  ChatMessage,
+  Conversation,
+  Narrative,
+  NarrativeInput,
+  SystemPrompt,
+  SystemPromptInput,
+  Context,
+  ContextInput,
+  Image,
+  ImageInput,
+  ImageUploadInput,
+  IpcResponse,
+  ModelRegistryEntry,
+  PageOptions,
+  TrashItemType,
+  RotationProgress
+} from '../../electron/shared/ipcContract';
 
-interface Narrative {
-  id: string;
-  title: string;
-  content: string;
-  draftContent?: string;
-  created: string;
-  lastModified: string;
-  characterCount: number;
-  preferredMode?: 'draft' | 'main';
-}
-
-interface SystemPrompt {
-  id: string;
-  title: string;
-  body: string;
-  created: string;
-  lastModified: string;
-}
-
-interface Context {
-  id: string;
-  title: string;
-  body: string;
-  created: string;
-  lastModified: string;
-}
-
-interface Image {
-  id: string;
-  title: string;
-  created: string;
-  lastModified: string;
-  url: string;
-}
+export type VaultRotationProgress = RotationProgress;
 
 // Check if we're running in Electron
 const isElectron = typeof window !== 'undefined' && 'electronAPI' in window;
@@ -49,29 +27,39 @@ const isElectron = typeof window !== 'undefined' && 'electronAPI' in window;
 // Fallback to API routes if not in Electron (for development)
 const API_BASE = '/api';
 
+// Query string for a paged list request in the web fallback
+const pageQuery = (options?: PageOptions) => {
+  const params = new URLSearchParams();
+  if (options?.cursor) params.set('cursor', options.cursor);
+  if (options?.limit) params.set('limit', String(options.limit));
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
 class IPCService {
   // Conversations
-  async getConversations(): Promise<{ conversations: Array<{ id: string; title: string; created: string; lastModified: string; messageCount: number }> }> {
+  // Pass a limit to page through the list; without one every summary is returned
+  async getConversations(options?: PageOptions): Promise<IpcResponse<'get-conversations'>> {
     if (isElectron) {
-      return (window as any).electronAPI.getConversations();
+      return window.electronAPI.getConversations(options);
     } else {
-      const response = await fetch(`${API_BASE}/conversations`);
+      const response = await fetch(`${API_BASE}/conversations${pageQuery(options)}`);
       return response.json();
     }
   }
 
   async getConversation(id: string): Promise<Conversation> {
     if (isElectron) {
-      return (window as any).electronAPI.getConversation(id);
+      return window.electronAPI.getConversation(id);
     } else {
       const response = await fetch(`${API_BASE}/conversations/${id}`);
       return response.json();
     }
   }
 
-  async saveConversation(id: string, messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>): Promise<{ success: boolean; conversationId: string; title: string }> {
+  async saveConversation(id: string, messages: ChatMessage[]): Promise<IpcResponse<'save-conversation'>> {
     if (isElectron) {
-      return (window as any).electronAPI.saveConversation(id, messages);
+      return window.electronAPI.saveConversation(id, messages);
     } else {
       const response = await fetch(`${API_BASE}/conversations`, {
         method: 'POST',
@@ -82,9 +70,9 @@ class IPCService {
     }
   }
 
-  async deleteConversation(id: string): Promise<{ success: boolean }> {
+  async deleteConversation(id: string): Promise<IpcResponse<'delete-conversation'>> {
     if (isElectron) {
-      return (window as any).electronAPI.deleteConversation(id);
+      return window.electronAPI.deleteConversation(id);
     } else {
       const response = await fetch(`${API_BASE}/conversations/${id}`, {
         method: 'DELETE'
@@ -94,27 +82,27 @@ class IPCService {
   }
 
   // Narratives
-  async getNarratives(): Promise<{ narratives: Array<{ id: string; title: string; created: string; lastModified: string; characterCount: number }> }> {
+  async getNarratives(options?: PageOptions): Promise<IpcResponse<'get-narratives'>> {
     if (isElectron) {
-      return (window as any).electronAPI.getNarratives();
+      return window.electronAPI.getNarratives(options);
     } else {
-      const response = await fetch(`${API_BASE}/narratives`);
+      const response = await fetch(`${API_BASE}/narratives${pageQuery(options)}`);
       return response.json();
     }
   }
 
   async getNarrative(id: string): Promise<Narrative> {
     if (isElectron) {
-      return (window as any).electronAPI.getNarrative(id);
+      return window.electronAPI.getNarrative(id);
     } else {
       const response = await fetch(`${API_BASE}/narratives/${id}`);
       return response.json();
     }
   }
 
-  async saveNarrative(id: string, narrative: Partial<Narrative>): Promise<{ success: boolean; narrativeId: string; title: string }> {
+  async saveNarrative(id: string, narrative: NarrativeInput): Promise<IpcResponse<'save-narrative'>> {
     if (isElectron) {
-      const result = await (window as any).electronAPI.saveNarrative(id, narrative);
+      const result = await window.electronAPI.saveNarrative(id, narrative);
       return result;
     } else {
       const response = await fetch(`${API_BASE}/narratives`, {
@@ -126,9 +114,9 @@ class IPCService {
     }
   }
 
-  async deleteNarrative(id: string): Promise<{ success: boolean }> {
+  async deleteNarrative(id: string): Promise<IpcResponse<'delete-narrative'>> {
     if (isElectron) {
-      return (window as any).electronAPI.deleteNarrative(id);
+      return window.electronAPI.deleteNarrative(id);
     } else {
       const response = await fetch(`${API_BASE}/narratives/${id}`, {
         method: 'DELETE'
@@ -137,28 +125,57 @@ class IPCService {
     }
   }
 
+  async getNarrativeHistory(id: string): Promise<IpcResponse<'get-narrative-history'>> {
+    if (isElectron) {
+      return window.electronAPI.getNarrativeHistory(id);
+    } else {
+      const response = await fetch(`${API_BASE}/narratives/${id}/history`);
+      return response.json();
+    }
+  }
+
+  async getNarrativeSnapshot(id: string, snapshotId: string): Promise<IpcResponse<'get-narrative-snapshot'>> {
+    if (isElectron) {
+      return window.electronAPI.getNarrativeSnapshot(id, snapshotId);
+    } else {
+      const response = await fetch(`${API_BASE}/narratives/${id}/history/${snapshotId}`);
+      return response.json();
+    }
+  }
+
+  async snapshotNarrative(id: string): Promise<IpcResponse<'snapshot-narrative'>> {
+    if (isElectron) {
+      return window.electronAPI.snapshotNarrative(id);
+    } else {
+      const response = await fetch(`${API_BASE}/narratives/${id}/history`, {
+        method: 'POST'
+      });
+      return response.json();
+    }
+  }
+
   // System Prompts
-  async getSystemPrompts(): Promise<{ prompts: Array<{ id: string; title: string; body?: string; created: string; lastModified: string }> }> {
+  async getSystemPrompts(options?: PageOptions): Promise<IpcResponse<'get-system-prompts'>> {
     if (isElectron) {
-      return (window as any).electronAPI.getSystemPrompts();
+      return window.electronAPI.getSystemPrompts(options);
     } else {
-      const response = await fetch(`${API_BASE}/system-prompts`);
+      const response = await fetch(`${API_BASE}/system-prompts${pageQuery(options)}`);
       return response.json();
     }
   }
 
   async getSystemPrompt(id: string): Promise<SystemPrompt> {
     if (isElectron) {
-      return (window as any).electronAPI.getSystemPrompt(id);
+      return window.electronAPI.getSystemPrompt(id);
     } else {
       const response = await fetch(`${API_BASE}/system-prompts/${id}`);
       return response.json();
     }
   }
 
-  async saveSystemPrompt(id: string, prompt: Partial<SystemPrompt>): Promise<{ success: boolean; promptId: string; title: string }> {
+  async saveSystemPrompt(id: string, prompt: SystemPromptInput): Promise<IpcResponse<'save-system-prompt'>> {
     if (isElectron) {
-      return (window as any).electronAPI.saveSystemPrompt(id, prompt);
+      return window.electronAPI.saveSystemPrompt(id, prompt);
     } else {
       const response = await fetch(`${API_BASE}/system-prompts`, {
         method: 'POST',
@@ -169,9 +186,9 @@ class IPCService {
     }
   }
 
-  async deleteSystemPrompt(id: string): Promise<{ success: boolean }> {
+  async deleteSystemPrompt(id: string): Promise<IpcResponse<'delete-system-prompt'>> {
     if (isElectron) {
-      return (window as any).electronAPI.deleteSystemPrompt(id);
+      return window.electronAPI.deleteSystemPrompt(id);
     } else {
       const response = await fetch(`${API_BASE}/system-prompts/${id}`, {
         method: 'DELETE'
@@ -181,27 +198,27 @@ class IPCService {
   }
 
   // Contexts
-  async getContexts(): Promise<{ contexts: Array<{ id: string; title: string; created: string; lastModified: string }> }> {
+  async getContexts(options?: PageOptions): Promise<IpcResponse<'get-contexts'>> {
     if (isElectron) {
-      return (window as any).electronAPI.getContexts();
+      return window.electronAPI.getContexts(options);
     } else {
-      const response = await fetch(`${API_BASE}/contexts`);
+      const response = await fetch(`${API_BASE}/contexts${pageQuery(options)}`);
       return response.json();
     }
   }
 
   async getContext(id: string): Promise<Context> {
     if (isElectron) {
-      return (window as any).electronAPI.getContext(id);
+      return window.electronAPI.getContext(id);
     } else {
       const response = await fetch(`${API_BASE}/contexts/${id}`);
       return response.json();
     }
   }
 
-  async saveContext(id: string, context: Partial<Context>): Promise<{ success: boolean; contextId: string; title: string }> {
+  async saveContext(id: string, context: ContextInput): Promise<IpcResponse<'save-context'>> {
     if (isElectron) {
-      return (window as any).electronAPI.saveContext(id, context);
+      return window.electronAPI.saveContext(id, context);
     } else {
       const response = await fetch(`${API_BASE}/contexts`, {
         method: 'POST',
@@ -212,9 +229,9 @@ class IPCService {
     }
   }
 
-  async deleteContext(id: string): Promise<{ success: boolean }> {
+  async deleteContext(id: string): Promise<IpcResponse<'delete-context'>> {
     if (isElectron) {
-      return (window as any).electronAPI.deleteContext(id);
+      return window.electronAPI.deleteContext(id);
     } else {
       const response = await fetch(`${API_BASE}/contexts/${id}`, {
         method: 'DELETE'
@@ -224,27 +241,27 @@ class IPCService {
   }
 
   // Images
-  async getImages(): Promise<{ images: Array<{ id: string; title: string; created: string; lastModified: string; url: string }> }> {
+  async getImages(options?: PageOptions): Promise<IpcResponse<'get-images'>> {
     if (isElectron) {
-      return (window as any).electronAPI.getImages();
+      return window.electronAPI.getImages(options);
     } else {
-      const response = await fetch(`${API_BASE}/images`);
+      const response = await fetch(`${API_BASE}/images${pageQuery(options)}`);
       return response.json();
     }
   }
 
   async getImage(id: string): Promise<Image> {
     if (isElectron) {
-      return (window as any).electronAPI.getImage(id);
+      return window.electronAPI.getImage(id);
     } else {
       const response = await fetch(`${API_BASE}/images/${id}`);
       return response.json();
     }
   }
 
-  async saveImage(id: string, image: Partial<Image>): Promise<{ success: boolean; imageId: string; title: string }> {
+  async saveImage(id: string, image: ImageInput): Promise<IpcResponse<'save-image'>> {
     if (isElectron) {
-      return (window as any).electronAPI.saveImage(id, image);
+      return window.electronAPI.saveImage(id, image);
     } else {
       const response = await fetch(`${API_BASE}/images`, {
         method: 'POST',
@@ -255,9 +272,9 @@ class IPCService {
     }
   }
 
-  async deleteImage(id: string): Promise<{ success: boolean }> {
+  async deleteImage(id: string): Promise<IpcResponse<'delete-image'>> {
     if (isElectron) {
-      return (window as any).electronAPI.deleteImage(id);
+      return window.electronAPI.deleteImage(id);
     } else {
       const response = await fetch(`${API_BASE}/images/${id}`, {
         method: 'DELETE'
@@ -267,32 +284,23 @@ class IPCService {
   }
 
   // Image upload (new method)
-  async uploadImage(imageData: { title: string; imageFile?: File; imageUrl?: string }): Promise<{ success: boolean; image: any }> {
+  async uploadImage(imageData: { title: string; imageFile?: File; imageUrl?: string }): Promise<IpcResponse<'upload-image'>> {
     if (isElectron) {
-      // Convert File to base64 for IPC
-      let processedData: any = { title: imageData.title };
+      // Files are sent as raw bytes - IPC copies typed arrays without encoding them
+      const processedData: ImageUploadInput = { title: imageData.title };
       
       if (imageData.imageFile) {
-        const arrayBuffer = await imageData.imageFile.arrayBuffer();
-        // Convert ArrayBuffer to base64 without using Node.js Buffer
-        const bytes = new Uint8Array(arrayBuffer);
-        let binary = '';
-        for (let i = 0; i < bytes.byteLength; i++) {
-          binary += String.fromCharCode(bytes[i]);
-        }
-        const base64 = btoa(binary);
-        
         processedData.imageFile = {
           name: imageData.imageFile.name,
           type: imageData.imageFile.type,
           size: imageData.imageFile.size,
-          data: base64
+          data: new Uint8Array(await imageData.imageFile.arrayBuffer())
         };
       } else if (imageData.imageUrl) {
         processedData.imageUrl = imageData.imageUrl;
       }
       
-      return (window as any).electronAPI.uploadImage(processedData);
+      return window.electronAPI.uploadImage(processedData);
     } else {
       // Use FormData for web API
       const formData = new FormData();
@@ -312,45 +320,215 @@ class IPCService {
     }
   }
 
-  // Get image content (new method)
-  async getImageContent(id: string): Promise<{ success: boolean; data: string; mimeType: string; size: number }> {
+  // Trash
+  async getTrash(options?: PageOptions): Promise<IpcResponse<'get-trash'>> {
     if (isElectron) {
-      return (window as any).electronAPI.getImageContent(id);
+      return window.electronAPI.getTrash(options);
     } else {
-      const response = await fetch(`${API_BASE}/images/${id}/content`);
-      const blob = await response.blob();
-      const arrayBuffer = await blob.arrayBuffer();
-      // Convert ArrayBuffer to base64 without using Node.js Buffer
-      const bytes = new Uint8Array(arrayBuffer);
-      let binary = '';
-      for (let i = 0; i < bytes.byteLength; i++) {
-        binary += String.fromCharCode(bytes[i]);
-      }
-      const base64 = btoa(binary);
-      
-      return {
-        success: true,
-        data: base64,
-        mimeType: blob.type,
-        size: blob.size
-      };
+      const response = await fetch(`${API_BASE}/trash${pageQuery(options)}`);
+      return response.json();
     }
   }
 
-  // Healing API (special case)
-  async sendHealingMessage(messages: Array<{ role: string; content: string }>, model: string, systemPrompt: string): Promise<any> {
+  async restoreTrashItem(type: TrashItemType, id: string): Promise<IpcResponse<'restore-trash-item'>> {
     if (isElectron) {
-      const result = await (window as any).electronAPI.sendHealingMessage(messages, model, systemPrompt);
-      return result;
+      return window.electronAPI.restoreTrashItem(type, id);
     } else {
-      const response = await fetch(`${API_BASE}/healing`, {
-        method: 'POST',
+      const response = await fetch(`${API_BASE}/trash/${type}/${id}/restore`, {
+        method: 'POST'
+      });
+      return response.json();
+    }
+  }
+
+  async purgeTrashItem(type: TrashItemType, id: string): Promise<IpcResponse<'purge-trash-item'>> {
+    if (isElectron) {
+      return window.electronAPI.purgeTrashItem(type, id);
+    } else {
+      const response = await fetch(`${API_BASE}/trash/${type}/${id}`, {
+        method: 'DELETE'
+      });
+      return response.json();
+    }
+  }
+
+  async emptyTrash(): Promise<IpcResponse<'empty-trash'>> {
+    if (isElectron) {
+      return window.electronAPI.emptyTrash();
+    } else {
+      const response = await fetch(`${API_BASE}/trash`, {
+        method: 'DELETE'
+      });
+      return response.json();
+    }
+  }
+
+  // Vault
+  async getVaultStatus(): Promise<IpcResponse<'get-vault-status'>> {
+    if (isElectron) {
+      return window.electronAPI.getVaultStatus();
+    } else {
+      // The web fallback has no vault - data access is always allowed
+      return { initialized: true, unlocked: true };
+    }
+  }
+
+  async setupVault(passphrase: string, recoveryKey: string): Promise<IpcResponse<'setup-vault'>> {
+    if (isElectron) {
+      return window.electronAPI.setupVault(passphrase, recoveryKey);
+    } else {
+      return { success: true };
+    }
+  }
+
+  async unlockVault(passphrase: string): Promise<IpcResponse<'unlock-vault'>> {
+    if (isElectron) {
+      return window.electronAPI.unlockVault(passphrase);
+    } else {
+      return { success: true };
+    }
+  }
+
+  async recoverVault(recoveryKey: string, newPassphrase: string): Promise<IpcResponse<'recover-vault'>> {
+    if (isElectron) {
+      return window.electronAPI.recoverVault(recoveryKey, newPassphrase);
+    } else {
+      return { success: true };
+    }
+  }
+
+  async lockVault(): Promise<IpcResponse<'lock-vault'>> {
+    if (isElectron) {
+      return window.electronAPI.lockVault();
+    } else {
+      return { success: true };
+    }
+  }
+
+  async changeVaultPassphrase(currentPassphrase: string, newPassphrase: string): Promise<IpcResponse<'change-vault-passphrase'>> {
+    if (isElectron) {
+      return window.electronAPI.changeVaultPassphrase(currentPassphrase, newPassphrase);
+    } else {
+      return { success: false, error: 'Passphrase changes are only available in the desktop app' };
+    }
+  }
+
+  // Subscribe to key rotation progress. Returns an unsubscribe function.
+  onVaultRotationProgress(callback: (progress: VaultRotationProgress) => void): () => void {
+    if (isElectron) {
+      return window.electronAPI.onVaultRotationProgress(callback);
+    } else {
+      return () => {};
+    }
+  }
+
+  // Subscribe to vault lock events. Returns an unsubscribe function.
+  onVaultLocked(callback: () => void): () => void {
+    if (isElectron) {
+      return window.electronAPI.onVaultLocked(callback);
+    } else {
+      return () => {};
+    }
+  }
+
+  // Models of the configured providers
+  async listModels(): Promise<IpcResponse<'list-models'>> {
+    if (isElectron) {
+      return window.electronAPI.listModels();
+    } else {
+      const response = await fetch(`${API_BASE}/models`);
+      return response.json();
+    }
+  }
+
+  async listProviders(): Promise<IpcResponse<'list-providers'>> {
+    if (isElectron) {
+      return window.electronAPI.listProviders();
+    } else {
+      const response = await fetch(`${API_BASE}/providers`);
+      return response.json();
+    }
+  }
+
+  // Adds a model to the registry in the user config, or replaces its entry
+  async saveModelRegistryEntry(entry: ModelRegistryEntry): Promise<IpcResponse<'save-model-registry-entry'>> {
+    if (isElectron) {
+      return window.electronAPI.saveModelRegistryEntry(entry);
+    } else {
+      const response = await fetch(`${API_BASE}/models`, {
+        method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages, model, systemPrompt })
+        body: JSON.stringify(entry)
       });
       return response.json();
     }
   }
+
+  async deleteModelRegistryEntry(provider: string, model: string): Promise<IpcResponse<'delete-model-registry-entry'>> {
+    if (isElectron) {
+      return window.electronAPI.deleteModelRegistryEntry(provider, model);
+    } else {
+      const response = await fetch(`${API_BASE}/models/${encodeURIComponent(provider)}/${encodeURIComponent(model)}`, {
+        method: 'DELETE'
+      });
+      return response.json();
+    }
+  }
+
+  // Healing API (special case)
+  // onDelta receives the reply's text as it streams in; the web API returns it all at once.
+  // Aborting the signal stops the reply, which resolves with what was generated so far.
+  async sendHealingMessage(
+    messages: ChatMessage[],
+    model: string,
+    systemPrompt: string,
+    options: { onDelta?: (delta: string) => void; signal?: AbortSignal } = {}
+  ): Promise<IpcResponse<'send-healing-message'>> {
+    const { onDelta, signal } = options;
+    // A request stopped before anything was generated, answered the same way on both paths
+    const stoppedEarly = {
+      response: '',
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      interrupted: true
+    };
+    if (signal?.aborted) {
+      return stoppedEarly;
+    }
+    if (isElectron) {
+      const requestId = `healing_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+      const unsubscribe = window.electronAPI.onHealingMessageDelta(({ requestId: id, delta }) => {
+        if (id === requestId) {
+          onDelta?.(delta);
+        }
+      });
+      const cancel = () => {
+        window.electronAPI.cancelHealingMessage(requestId).catch(() => undefined);
+      };
+      signal?.addEventListener('abort', cancel);
+      try {
+        return await window.electronAPI.sendHealingMessage(requestId, messages, model, systemPrompt);
+      } finally {
+        signal?.removeEventListener('abort', cancel);
+        unsubscribe();
+      }
+    } else {
+      try {
+        const response = await fetch(`${API_BASE}/healing`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ messages, model, systemPrompt }),
+          ...(signal ? { signal } : {})
+        });
+        return await response.json();
+      } catch (error) {
+        // The web API does not stream, so a stopped request has no partial reply to keep
+        if (signal?.aborted) {
+          return stoppedEarly;
+        }
+        throw error;
+      }
+    }
+  }
 }
 
 export const ipcService = new IPCService();
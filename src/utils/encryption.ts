@@ -1,10 +1,20 @@
 // Encryption utilities using Web Crypto API with AES-GCM
 // Secure implementation with random salts and proper validation
+// Output uses the versioned envelope shared with the main process.
+import {
+  hasEnvelopeHeader,
+  parseEnvelope,
+  serializeEnvelope,
+  KDF_PBKDF2_SHA256
+} from '../../electron/shared/envelope';
 
 const ALGORITHM = 'AES-GCM';
 const KEY_LENGTH = 256;
 const IV_LENGTH = 12; // 96 bits for GCM
 const SALT_LENGTH = 16; // 128 bits for salt
+const TAG_LENGTH = 16; // 128 bits, appended to the ciphertext by Web Crypto
+const ITERATIONS = 100000;
+const CLIENT_SIDE_ITERATIONS = 10000; // Lower iterations for client-side performance
 
 /**
  * Validate password strength
@@ -22,12 +32,25 @@ function validatePassword(password: string): void {
   // For example: require uppercase, lowercase, numbers, special characters
 }
 
+/**
+ * Copy bytes into a fresh ArrayBuffer-backed array accepted by Web Crypto
+ */
+function toBufferSource(bytes: Uint8Array) {
+  return new Uint8Array(bytes);
+}
+
 /**
  * Convert a string encryption key to a CryptoKey object with random salt
  */
-async function deriveKey(password: string, salt?: Uint8Array): Promise<{ key: CryptoKey; salt: Uint8Array }> {
+async function deriveKey(password: string, salt?: Uint8Array, iterations: number = ITERATIONS): Promise<{ key: CryptoKey; salt: Uint8Array }> {
   validatePassword(password);
-  
+  return deriveKeyUnchecked(password, salt, iterations);
+}
+
+/**
+ * Key derivation without password strength validation (client-side keys)
+ */
+async function deriveKeyUnchecked(password: string, salt?: Uint8Array, iterations: number = ITERATIONS): Promise<{ key: CryptoKey; salt: Uint8Array }> {
   const encoder = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
@@ -43,8 +66,8 @@ async function deriveKey(password: string, salt?: Uint8Array): Promise<{ key: Cr
   const key = await crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
-      salt: finalSalt,
-      iterations: 100000,
+      salt: toBufferSource(finalSalt),
+      iterations,
       hash: 'SHA-256'
     },
     keyMaterial,
@@ -112,6 +135,73 @@ function base64ToArrayBuffer(base64: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Encrypt with a derived key and wrap the result in an envelope
+ */
+async function sealEnvelope(text: string, key: CryptoKey, salt: Uint8Array, iterations: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt(
+    {
+      name: ALGORITHM,
+      iv: iv
+    },
+    key,
+    encoder.encode(text)
+  ));
+
+  // Web Crypto appends the tag to the ciphertext; the envelope stores it separately
+  const envelope = serializeEnvelope({
+    kdf: { id: KDF_PBKDF2_SHA256, iterations },
+    salt,
+    iv,
+    tag: encrypted.slice(encrypted.length - TAG_LENGTH),
+    ciphertext: encrypted.slice(0, encrypted.length - TAG_LENGTH)
+  });
+
+  return arrayBufferToBase64(envelope);
+}
+
+/**
+ * Decrypt envelope bytes, deriving the key with the parameters the envelope records
+ */
+async function openEnvelope(bytes: Uint8Array, password: string): Promise<string> {
+  const envelope = parseEnvelope(bytes);
+
+  if (envelope.kdf.id !== KDF_PBKDF2_SHA256) {
+    throw new Error('Envelope requires a raw key');
+  }
+
+  const { key } = await deriveKeyUnchecked(password, envelope.salt, envelope.kdf.iterations);
+
+  const combined = new Uint8Array(envelope.ciphertext.length + envelope.tag.length);
+  combined.set(envelope.ciphertext, 0);
+  combined.set(envelope.tag, envelope.ciphertext.length);
+
+  const decrypted = await crypto.subtle.decrypt(
+    {
+      name: ALGORITHM,
+      iv: toBufferSource(envelope.iv)
+    },
+    key,
+    combined
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
+
+/**
+ * Whether encrypted text uses the versioned envelope
+ */
+export function isEnvelopeFormat(encryptedText: string): boolean {
+  try {
+    return hasEnvelopeHeader(base64ToArrayBuffer(encryptedText));
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Encrypt a text string with random salt (for server-side storage)
  */
@@ -121,30 +211,8 @@ export async function encrypt(text: string, password: string): Promise<string> {
       throw new Error('Text to encrypt must be a string');
     }
     
-    const encoder = new TextEncoder();
     const { key, salt } = await deriveKey(password);
-    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
-    const data = encoder.encode(text);
-
-    const encrypted = await crypto.subtle.encrypt(
-      {
-        name: ALGORITHM,
-        iv: iv
-      },
-      key,
-      data
-    );
-
-    // Combine salt, IV, and encrypted data
-    // Format: [salt (16 bytes)] + [iv (12 bytes)] + [encrypted data]
-    const combined = new Uint8Array(salt.length + iv.length + encrypted.byteLength);
-    combined.set(salt, 0);
-    combined.set(iv, salt.length);
-    combined.set(new Uint8Array(encrypted), salt.length + iv.length);
-
-    // Convert to base64 using proper binary handling
-    const result = arrayBufferToBase64(combined);
-    return result;
+    return await sealEnvelope(text, key, salt, ITERATIONS);
   } catch (error) {
     throw new Error('Failed to encrypt data');
   }
@@ -164,12 +232,15 @@ export async function decrypt(encryptedText: string, password: string): Promise<
     // Convert from base64 using proper binary handling
     const combined = base64ToArrayBuffer(encryptedText);
 
-    // Check minimum length (salt + iv)
+    if (hasEnvelopeHeader(combined)) {
+      return await openEnvelope(combined, password);
+    }
+
+    // Legacy layout: [salt (16 bytes)] + [iv (12 bytes)] + [encrypted data]
     if (combined.length < SALT_LENGTH + IV_LENGTH) {
       throw new Error('Invalid encrypted data: too short');
     }
 
-    // Split salt, IV, and encrypted data
     const salt = combined.slice(0, SALT_LENGTH);
     const iv = combined.slice(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
     const encrypted = combined.slice(SALT_LENGTH + IV_LENGTH);
@@ -207,56 +278,8 @@ export async function encryptClientSide(text: string, key: string): Promise<stri
       throw new Error('Encryption key is required');
     }
     
-    const encoder = new TextEncoder();
-    
-    // For client-side, we'll use a simpler key derivation
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(key),
-      'PBKDF2',
-      false,
-      ['deriveKey']
-    );
-
-    // Use a fixed salt for client-side (less secure but necessary for compatibility)
-    const salt = encoder.encode('client-salt');
-    
-    const derivedKey = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt: salt,
-        iterations: 10000, // Lower iterations for client-side performance
-        hash: 'SHA-256'
-      },
-      keyMaterial,
-      {
-        name: ALGORITHM,
-        length: KEY_LENGTH
-      },
-      false,
-      ['encrypt', 'decrypt']
-    );
-
-    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
-    const data = encoder.encode(text);
-
-    const encrypted = await crypto.subtle.encrypt(
-      {
-        name: ALGORITHM,
-        iv: iv
-      },
-      derivedKey,
-      data
-    );
-
-    // Combine IV and encrypted data (no salt for client-side)
-    const combined = new Uint8Array(iv.length + encrypted.byteLength);
-    combined.set(iv);
-    combined.set(new Uint8Array(encrypted), iv.length);
-
-    // Convert to base64
-    const result = arrayBufferToBase64(combined);
-    return result;
+    const { key: derivedKey, salt } = await deriveKeyUnchecked(key, undefined, CLIENT_SIDE_ITERATIONS);
+    return await sealEnvelope(text, derivedKey, salt, CLIENT_SIDE_ITERATIONS);
   } catch (error) {
     throw new Error('Failed to encrypt data');
   }
@@ -275,46 +298,23 @@ export async function decryptClientSide(encryptedText: string, key: string): Pro
       throw new Error('Encryption key is required');
     }
     
-    const encoder = new TextEncoder();
-    
     // Convert from base64
     const combined = base64ToArrayBuffer(encryptedText);
 
-    // Check minimum length (iv only for client-side)
+    if (hasEnvelopeHeader(combined)) {
+      return await openEnvelope(combined, key);
+    }
+
+    // Legacy client-side layout: [iv (12 bytes)] + [encrypted data] with a fixed salt
     if (combined.length < IV_LENGTH) {
       throw new Error('Invalid encrypted data: too short');
     }
 
-    // Split IV and encrypted data
     const iv = combined.slice(0, IV_LENGTH);
     const encrypted = combined.slice(IV_LENGTH);
 
-    // Use the same key derivation as encryption
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(key),
-      'PBKDF2',
-      false,
-      ['deriveKey']
-    );
-
-    const salt = encoder.encode('client-salt');
-    
-    const derivedKey = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt: salt,
-        iterations: 10000,
-        hash: 'SHA-256'
-      },
-      keyMaterial,
-      {
-        name: ALGORITHM,
-        length: KEY_LENGTH
-      },
-      false,
-      ['encrypt', 'decrypt']
-    );
+    const encoder = new TextEncoder();
+    const { key: derivedKey } = await deriveKeyUnchecked(key, encoder.encode('client-salt'), CLIENT_SIDE_ITERATIONS);
 
     const decrypted = await crypto.subtle.decrypt(
       {
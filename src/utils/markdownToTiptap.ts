@@ -0,0 +1,192 @@
+/**
+ * Convert chat markdown into TipTap content, so replies added to a narrative keep their
+ * emphasis, headings, lists and quotes
+ */
+
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkBreaks from 'remark-breaks';
+import remarkMath from 'remark-math';
+import type { JSONContent } from '@tiptap/react';
+import type { BlockContent, DefinitionContent, ListItem, PhrasingContent, Root, RootContent } from 'mdast';
+import type { Root as HastRoot } from 'hast';
+
+type Marks = NonNullable<JSONContent['marks']>;
+
+// The same plugins the chat renders with, so the parsed tree matches what is on screen
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkBreaks).use(remarkMath);
+
+const textNodes = (text: string, marks: Marks): JSONContent[] =>
+  text ? [{ type: 'text', text, ...(marks.length > 0 ? { marks } : {}) }] : [];
+
+const withMark = (marks: Marks, type: string): Marks =>
+  marks.some(mark => mark.type === type) ? marks : [...marks, { type }];
+
+// Inline content keeps exactly the text the chat shows, so a selection can be cut by text offset
+const inlineContent = (nodes: PhrasingContent[], marks: Marks = []): JSONContent[] =>
+  nodes.flatMap((node): JSONContent[] => {
+    switch (node.type) {
+      case 'text':
+      case 'inlineCode':
+      case 'inlineMath':
+        return textNodes(node.value, marks);
+      case 'emphasis':
+        return inlineContent(node.children, withMark(marks, 'italic'));
+      case 'strong':
+        return inlineContent(node.children, withMark(marks, 'bold'));
+      case 'delete':
+      case 'link':
+      case 'linkReference':
+        return inlineContent(node.children, marks);
+      case 'break':
+        return [{ type: 'hardBreak' }];
+      default:
+        // Images, raw HTML and footnote references are not shown as text
+        return [];
+    }
+  });
+
+const paragraph = (content: JSONContent[]): JSONContent =>
+  content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' };
+
+// Lines of preformatted text as one paragraph with line breaks
+const linesParagraph = (text: string): JSONContent =>
+  paragraph(text.split('\n').flatMap((line, index) => [
+    ...(index > 0 ? [{ type: 'hardBreak' }] : []),
+    ...textNodes(line, [])
+  ]));
+
+const listItem = (item: ListItem): JSONContent => {
+  const content = blockContent(item.children);
+  // A list item has to start with a paragraph
+  if (content[0]?.type !== 'paragraph') {
+    content.unshift(paragraph([]));
+  }
+  return { type: 'listItem', content };
+};
+
+const blockContent = (nodes: Array<RootContent | BlockContent | DefinitionContent>): JSONContent[] =>
+  nodes.flatMap((node): JSONContent[] => {
+    switch (node.type) {
+      case 'paragraph':
+        return [paragraph(inlineContent(node.children))];
+      case 'heading': {
+        const content = inlineContent(node.children);
+        return [{ type: 'heading', attrs: { level: Math.min(node.depth, 3) }, ...(content.length > 0 ? { content } : {}) }];
+      }
+      case 'blockquote': {
+        const content = blockContent(node.children);
+        return [{ type: 'blockquote', content: content.length > 0 ? content : [paragraph([])] }];
+      }
+      case 'list':
+        return [{
+          type: node.ordered ? 'orderedList' : 'bulletList',
+          ...(node.ordered && typeof node.start === 'number' && node.start !== 1 ? { attrs: { start: node.start } } : {}),
+          content: node.children.map(listItem)
+        }];
+      case 'thematicBreak':
+        return [{ type: 'horizontalRule' }];
+      case 'code':
+      case 'math':
+        return [linesParagraph(node.value)];
+      case 'table':
+        // Tables become one paragraph per row
+        return node.children.map(row => paragraph(row.children.flatMap((cell, index) => [
+          ...(index > 0 ? textNodes(' | ', []) : []),
+          ...inlineContent(cell.children)
+        ])));
+      default:
+        return [];
+    }
+  });
+
+/**
+ * Convert markdown into TipTap block content
+ */
+export function markdownToContent(markdown: string): JSONContent[] {
+  // Line breaks are added by a transform, so the plugins have to run as well as the parser
+  const tree = parser.runSync(parser.parse(markdown)) as Root;
+  return blockContent(tree.children);
+}
+
+/**
+ * Convert plain text into paragraphs, split on blank lines, with line breaks kept
+ */
+export function textToContent(text: string): JSONContent[] {
+  return text
+    .split(/\n{2,}/)
+    .filter(block => block.trim().length > 0)
+    .map(linesParagraph);
+}
+
+// The inline nodes between two text offsets of the rendered text
+const sliceInline = (content: JSONContent[], from: number, to: number): JSONContent[] => {
+  const sliced: JSONContent[] = [];
+  let offset = 0;
+  for (const node of content) {
+    // A rendered line break is followed by a newline
+    const length = node.type === 'hardBreak' ? 1 : node.text?.length ?? 0;
+    if (node.type === 'text') {
+      const start = Math.max(from - offset, 0);
+      const end = Math.min(to - offset, length);
+      if (end > start) sliced.push({ ...node, text: node.text!.slice(start, end) });
+    } else if (offset >= from && offset < to) {
+      sliced.push(node);
+    }
+    offset += length;
+  }
+  return sliced;
+};
+
+/**
+ * Rehype plugin marking each top-level element of rendered markdown with the source offsets it
+ * came from, as data-source-start and data-source-end
+ */
+export function rehypeSourceOffsets() {
+  return (tree: HastRoot) => {
+    for (const node of tree.children) {
+      if (node.type !== 'element') continue;
+      const start = node.position?.start.offset;
+      const end = node.position?.end.offset;
+      if (typeof start === 'number' && typeof end === 'number') {
+        node.properties = { ...node.properties, dataSourceStart: start, dataSourceEnd: end };
+      }
+    }
+  };
+}
+
+// Text length from the start of an element to a point inside it
+const textOffset = (element: Element, container: Node, offset: number): number => {
+  const range = document.createRange();
+  range.selectNodeContents(element);
+  range.setEnd(container, offset);
+  return range.toString().length;
+};
+
+/**
+ * Convert the part of a rendered message that is selected back into content, from the message's
+ * markdown source. Paragraphs and headings selected partway are cut to the selected text; other
+ * blocks are taken whole. Returns null when nothing in the message is selected.
+ */
+export function selectionToContent(range: Range, messageElement: HTMLElement, source: string): JSONContent[] | null {
+  const blocks = Array.from(messageElement.querySelectorAll<HTMLElement>('[data-source-start]'))
+    .filter(block => range.intersectsNode(block));
+
+  const content = blocks.flatMap(block => {
+    const markdown = source.slice(Number(block.dataset.sourceStart), Number(block.dataset.sourceEnd));
+    const converted = markdownToContent(markdown);
+    if (!/^(P|H[1-6])$/.test(block.tagName) || converted.length !== 1) {
+      return converted;
+    }
+
+    const node = converted[0]!;
+    const from = block.contains(range.startContainer) ? textOffset(block, range.startContainer, range.startOffset) : 0;
+    const to = block.contains(range.endContainer) ? textOffset(block, range.endContainer, range.endOffset) : Infinity;
+    const sliced = sliceInline(node.content ?? [], from, to);
+    if (sliced.length === 0) return [];
+    return [{ ...node, content: sliced }];
+  });
+
+  return content.length > 0 ? content : null;
+}
@@ -1,15 +1,23 @@
 // Migration utilities for transitioning from old to new encryption format
-import { decrypt as newDecrypt, encrypt as newEncrypt, decryptClientSide, encryptClientSide } from './encryption';
+import { decrypt as newDecrypt, encrypt as newEncrypt, decryptClientSide, encryptClientSide, isEnvelopeFormat } from './encryption';
 
 const OLD_ALGORITHM = 'AES-GCM';
 const OLD_KEY_LENGTH = 256;
 const OLD_IV_LENGTH = 12;
 const OLD_SALT_LENGTH = 0; // Old format had no salt
 
+// Layout written by the main process before the shared envelope:
+// [salt (16 bytes)] + [iv (16 bytes)] + [tag (16 bytes)] + [encrypted data]
+const NODE_SALT_LENGTH = 16;
+const NODE_IV_LENGTH = 16;
+const NODE_TAG_LENGTH = 16;
+
+export type EncryptedFormat = 'envelope' | 'legacy';
+
 /**
  * Legacy key derivation function (for backward compatibility)
  */
-async function deriveKeyLegacy(password: string): Promise<CryptoKey> {
+async function deriveKeyLegacy(password: string, salt: Uint8Array = new TextEncoder().encode('temenos-salt')): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
@@ -22,7 +30,7 @@ async function deriveKeyLegacy(password: string): Promise<CryptoKey> {
   return crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
-      salt: encoder.encode('temenos-salt'), // Old fixed salt
+      salt: new Uint8Array(salt), // Old fixed salt unless the layout stored one
       iterations: 100000,
       hash: 'SHA-256'
     },
@@ -99,55 +107,84 @@ export async function decryptLegacy(encryptedText: string, password: string): Pr
 }
 
 /**
- * Detect if encrypted data is in old format
+ * Decrypt data written by the main process before the shared envelope (for migration)
  */
-export function isLegacyFormat(encryptedText: string): boolean {
+export async function decryptLegacyNode(encryptedText: string, password: string): Promise<string> {
   try {
-    if (!isValidBase64Legacy(encryptedText)) {
-      return false;
-    }
-    
     const combined = base64ToArrayBufferLegacy(encryptedText);
-    
-    // Old format: minimum 12 bytes (IV only)
-    // New format: minimum 28 bytes (16 bytes salt + 12 bytes IV)
-    // Client format: minimum 12 bytes (IV only, but different key derivation)
-    return combined.length >= OLD_IV_LENGTH && combined.length < 28;
-  } catch {
-    return false;
+
+    const headerLength = NODE_SALT_LENGTH + NODE_IV_LENGTH + NODE_TAG_LENGTH;
+    if (combined.length < headerLength) {
+      throw new Error('Invalid encrypted data: too short');
+    }
+
+    const salt = combined.slice(0, NODE_SALT_LENGTH);
+    const iv = combined.slice(NODE_SALT_LENGTH, NODE_SALT_LENGTH + NODE_IV_LENGTH);
+    const tag = combined.slice(NODE_SALT_LENGTH + NODE_IV_LENGTH, headerLength);
+    const encrypted = combined.slice(headerLength);
+
+    // Web Crypto expects the tag appended to the ciphertext
+    const data = new Uint8Array(encrypted.length + tag.length);
+    data.set(encrypted, 0);
+    data.set(tag, encrypted.length);
+
+    const key = await deriveKeyLegacy(password, salt);
+    const decrypted = await crypto.subtle.decrypt(
+      {
+        name: OLD_ALGORITHM,
+        iv: iv
+      },
+      key,
+      data
+    );
+
+    const decoder = new TextDecoder();
+    return decoder.decode(decrypted);
+  } catch (error) {
+    throw new Error('Failed to decrypt legacy data');
   }
 }
 
 /**
- * Detect if encrypted data is in client-side format
+ * Detect the format of encrypted data from its header
  */
-export function isClientSideFormat(encryptedText: string): boolean {
-  try {
-    if (!isValidBase64Legacy(encryptedText)) {
-      return false;
+export function detectEncryptedFormat(encryptedText: string): EncryptedFormat {
+  return isEnvelopeFormat(encryptedText) ? 'envelope' : 'legacy';
+}
+
+/**
+ * Try each headerless layout in turn. They carry no marker, so the only way
+ * to tell them apart is whether GCM authentication succeeds.
+ */
+async function decryptHeaderless(
+  encryptedText: string,
+  password: string,
+  attempts: Array<(text: string, password: string) => Promise<string>>
+): Promise<string> {
+  for (const attempt of attempts) {
+    try {
+      return await attempt(encryptedText, password);
+    } catch {
+      // Not this layout, try the next one
     }
-    
-    const combined = base64ToArrayBufferLegacy(encryptedText);
-    
-    // Client format: exactly 12 bytes (IV only) or more (IV + encrypted data)
-    // But we can't distinguish from legacy format by length alone
-    // We'll need to try decryption to determine format
-    return combined.length >= OLD_IV_LENGTH;
-  } catch {
-    return false;
   }
+  throw new Error('Failed to decrypt data');
 }
 
 /**
- * Migrate data from old format to new format
+ * Migrate data from any older format to the envelope format
  */
 export async function migrateEncryptedData(
   encryptedText: string, 
   password: string
 ): Promise<string> {
   try {
-    // Decrypt using old format
-    const decryptedData = await decryptLegacy(encryptedText, password);
+    if (detectEncryptedFormat(encryptedText) === 'envelope') {
+      return encryptedText;
+    }
+
+    // Decrypt using whichever legacy layout matches
+    const decryptedData = await smartDecrypt(encryptedText, password);
     
     // Re-encrypt using new format
     const newEncryptedData = await newEncrypt(decryptedData, password);
@@ -159,35 +196,27 @@ export async function migrateEncryptedData(
 }
 
 /**
- * Smart decrypt function that handles both old and new formats
+ * Smart decrypt function that handles the envelope and all legacy layouts
  */
 export async function smartDecrypt(encryptedText: string, password: string): Promise<string> {
-  try {
-    // First try new format
-    return await newDecrypt(encryptedText, password);
-  } catch (error) {
-    // If new format fails, try legacy format
-    if (isLegacyFormat(encryptedText)) {
-      return await decryptLegacy(encryptedText, password);
-    }
-    throw error;
+  if (detectEncryptedFormat(encryptedText) === 'envelope') {
+    return newDecrypt(encryptedText, password);
   }
+
+  // Renderer salted layout, then main-process layout, then fixed-salt IV-only layout
+  return decryptHeaderless(encryptedText, password, [newDecrypt, decryptLegacyNode, decryptLegacy]);
 }
 
 /**
  * Smart client-side decrypt function that handles multiple formats
  */
 export async function smartDecryptClientSide(encryptedText: string, key: string): Promise<string> {
-  try {
-    // First try client-side format
-    return await decryptClientSide(encryptedText, key);
-  } catch (error) {
-    // If client-side format fails, try legacy format
-    if (isLegacyFormat(encryptedText)) {
-      return await decryptLegacy(encryptedText, key);
-    }
-    throw error;
+  if (detectEncryptedFormat(encryptedText) === 'envelope') {
+    return decryptClientSide(encryptedText, key);
   }
+
+  // Client-side IV-only layout, then the same legacy layouts as smartDecrypt
+  return decryptHeaderless(encryptedText, key, [decryptClientSide, newDecrypt, decryptLegacyNode, decryptLegacy]);
 }
 
 /**
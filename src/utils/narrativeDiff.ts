@@ -0,0 +1,281 @@
+/**
+ * Paragraph and word diffs between two versions of narrative HTML
+ */
+
+export type DiffType = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffType;
+  text: string;
+}
+
+/**
+ * One row of a side-by-side paragraph diff. `before` is the older version's paragraph HTML and
+ * `after` the newer one's; a paragraph that was rewritten pairs both as 'changed'.
+ */
+export interface ParagraphDiffRow {
+  type: DiffType | 'changed';
+  before: string | null;
+  after: string | null;
+  // Index in the newer paragraphs this row lines up with - where a removed paragraph goes back
+  afterIndex: number;
+}
+
+// Most paragraphs or words on either side of the changed part that are diffed in detail. The
+// table takes one cell per pair, so beyond this the changed part is marked as a whole.
+const MAX_DIFF_TOKENS = 1000;
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g;
+// Elements without a closing tag
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img']);
+
+const ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'"
+};
+
+/**
+ * Split editor HTML into its top-level blocks - paragraphs, headings, quotes, lists and rules
+ */
+export function splitParagraphs(html: string): string[] {
+  const paragraphs: string[] = [];
+  let depth = 0;
+  let blockStart = 0;
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const isClosing = match[1] === '/';
+    const name = match[2]!.toLowerCase();
+    if (VOID_ELEMENTS.has(name)) {
+      if (depth === 0) paragraphs.push(match[0]);
+      continue;
+    }
+    if (!isClosing) {
+      if (depth === 0) blockStart = match.index;
+      depth++;
+    } else if (depth > 0) {
+      depth--;
+      if (depth === 0) paragraphs.push(html.slice(blockStart, match.index + match[0].length));
+    }
+  }
+
+  if (paragraphs.length > 0) return paragraphs;
+  return html.trim() ? [html] : [];
+}
+
+/**
+ * Plain text of a paragraph, with line breaks kept
+ */
+export function paragraphText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/g, '\n')
+    .replace(/<hr\s*\/?>/g, '———')
+    // Blocks nested in quotes and lists go on lines of their own
+    .replace(/(?:<\/(?:p|h[1-6]|li)>)+(?=[\s\S]*<(?:p|h[1-6]|li)\b)/g, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;|&amp;|&lt;|&gt;|&quot;|&#39;/g, entity => ENTITIES[entity] ?? entity);
+}
+
+// Longest common subsequence of two lists, as a sequence of same/removed/added steps.
+// A changed part too long to diff in detail is all removed, then all added.
+const diffSequences = <T>(before: T[], after: T[]): Array<{ type: DiffType; beforeIndex: number; afterIndex: number }> => {
+  // Common ends are matched directly so the table only covers the part that changed
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const rows = endBefore - start;
+  const columns = endAfter - start;
+  const detailed = rows <= MAX_DIFF_TOKENS && columns <= MAX_DIFF_TOKENS;
+  // lengths[i][j] is the LCS length of before[start + i..] and after[start + j..]
+  const lengths = new Uint32Array(detailed ? (rows + 1) * (columns + 1) : 0);
+  if (detailed) {
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i * (columns + 1) + j] = before[start + i] === after[start + j]
+          ? lengths[(i + 1) * (columns + 1) + j + 1]! + 1
+          : Math.max(lengths[(i + 1) * (columns + 1) + j]!, lengths[i * (columns + 1) + j + 1]!);
+      }
+    }
+  }
+
+  const steps: Array<{ type: DiffType; beforeIndex: number; afterIndex: number }> = [];
+  for (let k = 0; k < start; k++) {
+    steps.push({ type: 'same', beforeIndex: k, afterIndex: k });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < columns) {
+    if (detailed && i < rows && j < columns && before[start + i] === after[start + j]) {
+      steps.push({ type: 'same', beforeIndex: start + i, afterIndex: start + j });
+      i++;
+      j++;
+    } else if (j < columns && (i === rows || (detailed && lengths[i * (columns + 1) + j + 1]! >= lengths[(i + 1) * (columns + 1) + j]!))) {
+      steps.push({ type: 'added', beforeIndex: start + i, afterIndex: start + j });
+      j++;
+    } else {
+      steps.push({ type: 'removed', beforeIndex: start + i, afterIndex: start + j });
+      i++;
+    }
+  }
+
+  for (let k = 0; k < before.length - endBefore; k++) {
+    steps.push({ type: 'same', beforeIndex: endBefore + k, afterIndex: endAfter + k });
+  }
+  return steps;
+};
+
+/**
+ * Diff two versions paragraph by paragraph. Runs of removed and added paragraphs are paired up
+ * as changed paragraphs so they line up side by side.
+ */
+export function diffParagraphs(beforeHtml: string, afterHtml: string): ParagraphDiffRow[] {
+  const before = splitParagraphs(beforeHtml);
+  const after = splitParagraphs(afterHtml);
+  const steps = diffSequences(before, after);
+
+  const rows: ParagraphDiffRow[] = [];
+  let index = 0;
+  while (index < steps.length) {
+    const step = steps[index]!;
+    if (step.type === 'same') {
+      rows.push({ type: 'same', before: before[step.beforeIndex]!, after: after[step.afterIndex]!, afterIndex: step.afterIndex });
+      index++;
+      continue;
+    }
+
+    // Collect the run of changes up to the next unchanged paragraph
+    const removed: number[] = [];
+    const added: number[] = [];
+    const runStart = step.afterIndex;
+    while (index < steps.length && steps[index]!.type !== 'same') {
+      const change = steps[index]!;
+      if (change.type === 'removed') removed.push(change.beforeIndex);
+      else added.push(change.afterIndex);
+      index++;
+    }
+
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: 'changed', before: before[removed[k]!]!, after: after[added[k]!]!, afterIndex: added[k]! });
+    }
+    for (let k = paired; k < removed.length; k++) {
+      // Removed paragraphs go back after whatever was paired ahead of them
+      rows.push({ type: 'removed', before: before[removed[k]!]!, after: null, afterIndex: runStart + paired });
+    }
+    for (let k = paired; k < added.length; k++) {
+      rows.push({ type: 'added', before: null, after: after[added[k]!]!, afterIndex: added[k]! });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Word-level diff of two paragraphs' text, for highlighting a changed paragraph. Paragraphs too
+ * long to diff word by word are highlighted whole.
+ */
+export function diffWords(before: string, after: string): { before: DiffSegment[]; after: DiffSegment[] } {
+  const beforeWords = before.split(/(\s+)/).filter(Boolean);
+  const afterWords = after.split(/(\s+)/).filter(Boolean);
+  if (beforeWords.length > MAX_DIFF_TOKENS || afterWords.length > MAX_DIFF_TOKENS) {
+    return { before: [{ type: 'removed', text: before }], after: [{ type: 'added', text: after }] };
+  }
+  const result: { before: DiffSegment[]; after: DiffSegment[] } = { before: [], after: [] };
+
+  const append = (segments: DiffSegment[], type: DiffType, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  for (const step of diffSequences(beforeWords, afterWords)) {
+    if (step.type === 'same') {
+      append(result.before, 'same', beforeWords[step.beforeIndex]!);
+      append(result.after, 'same', afterWords[step.afterIndex]!);
+    } else if (step.type === 'removed') {
+      append(result.before, 'removed', beforeWords[step.beforeIndex]!);
+    } else {
+      append(result.after, 'added', afterWords[step.afterIndex]!);
+    }
+  }
+  return result;
+}
+
+// Word diffs of changed rows, worked out once per row and shared by both of its cells
+const rowWordDiffs = new WeakMap<ParagraphDiffRow, { before: DiffSegment[]; after: DiffSegment[] }>();
+
+/**
+ * Word-level diff of a changed row's two paragraphs, or null for any other row
+ */
+export function diffRowWords(row: ParagraphDiffRow): { before: DiffSegment[]; after: DiffSegment[] } | null {
+  if (row.type !== 'changed' || row.before === null || row.after === null) return null;
+  let words = rowWordDiffs.get(row);
+  if (!words) {
+    words = diffWords(paragraphText(row.before), paragraphText(row.after));
+    rowWordDiffs.set(row, words);
+  }
+  return words;
+}
+
+/**
+ * A run of unchanged paragraphs, or a run of changes between two unchanged ones
+ */
+export interface DiffHunk {
+  changed: boolean;
+  rows: ParagraphDiffRow[];
+}
+
+/**
+ * Group diff rows into hunks that can be accepted or rejected as a whole
+ */
+export function groupHunks(rows: ParagraphDiffRow[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  for (const row of rows) {
+    const changed = row.type !== 'same';
+    const last = hunks[hunks.length - 1];
+    if (last && last.changed === changed) last.rows.push(row);
+    else hunks.push({ changed, rows: [row] });
+  }
+  return hunks;
+}
+
+/**
+ * Rebuild HTML from hunks, taking each hunk's older or newer side
+ */
+export function joinHunks(hunks: DiffHunk[], pick: (hunk: DiffHunk, index: number) => 'before' | 'after'): string {
+  return hunks
+    .flatMap((hunk, index) => {
+      const side = pick(hunk, index);
+      return hunk.rows.map(row => row[side] ?? '');
+    })
+    .join('');
+}
+
+/**
+ * For each paragraph on either side of a diff, the index of the paragraph it lines up with on
+ * the other side. Paragraphs with no counterpart map to where one would be inserted.
+ */
+export function alignParagraphs(rows: ParagraphDiffRow[]): { beforeToAfter: number[]; afterToBefore: number[] } {
+  const beforeToAfter: number[] = [];
+  const afterToBefore: number[] = [];
+  let beforeIndex = 0;
+  let afterIndex = 0;
+
+  for (const row of rows) {
+    if (row.before !== null) beforeToAfter[beforeIndex] = afterIndex;
+    if (row.after !== null) afterToBefore[afterIndex] = beforeIndex;
+    if (row.before !== null) beforeIndex++;
+    if (row.after !== null) afterIndex++;
+  }
+  return { beforeToAfter, afterToBefore };
+}
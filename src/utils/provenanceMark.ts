@@ -0,0 +1,67 @@
+/**
+ * TipTap mark recording which conversation message a passage of the narrative came from
+ */
+
+import { Mark, mergeAttributes, JSONContent } from '@tiptap/react';
+
+export interface ProvenanceSource {
+  conversationId: string;
+  // Index of the message in the saved conversation
+  messageIndex: number;
+}
+
+export const Provenance = Mark.create({
+  name: 'provenance',
+
+  // Typing at the end of a passage is the writer's own text
+  inclusive: false,
+
+  addAttributes() {
+    return {
+      conversationId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-conversation-id'),
+        renderHTML: attributes => ({ 'data-conversation-id': attributes.conversationId }),
+      },
+      messageIndex: {
+        default: null,
+        parseHTML: element => {
+          const index = Number(element.getAttribute('data-message-index'));
+          return Number.isInteger(index) ? index : null;
+        },
+        renderHTML: attributes => ({ 'data-message-index': attributes.messageIndex }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-conversation-id]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes, { class: 'narrative-provenance' }), 0];
+  },
+});
+
+/**
+ * Mark all text in some content as coming from a conversation message
+ */
+export function withProvenance(content: JSONContent[], source: ProvenanceSource): JSONContent[] {
+  return content.map(node => {
+    if (node.type === 'text') {
+      return { ...node, marks: [...(node.marks ?? []), { type: 'provenance', attrs: { ...source } }] };
+    }
+    return node.content ? { ...node, content: withProvenance(node.content, source) } : node;
+  });
+}
+
+/**
+ * The source of a provenance passage under a DOM element, if any
+ */
+export function getProvenanceSource(element: Element | null): { element: HTMLElement; source: ProvenanceSource } | null {
+  const passage = element?.closest<HTMLElement>('[data-conversation-id]');
+  const conversationId = passage?.dataset.conversationId;
+  const messageIndex = Number(passage?.dataset.messageIndex);
+  if (!passage || !conversationId || !Number.isInteger(messageIndex)) return null;
+  return { element: passage, source: { conversationId, messageIndex } };
+}
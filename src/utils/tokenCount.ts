@@ -1,6 +1,11 @@
 // Simple token estimation utility
 // This is a rough approximation - actual token counts may vary by model
 
+import type { ModelInfo } from '../../electron/shared/ipcContract';
+
+// Context window assumed for a model that is not in the registry
+const DEFAULT_CONTEXT_WINDOW = 32000;
+
 export interface TokenUsage {
   prompt_tokens: number;
   completion_tokens: number;
@@ -124,7 +129,7 @@ export function calculateConversationTokens(
 export function getTokenInfo(
   messages: Array<{ role: string; content: string }>,
   systemPrompt: string = '',
-  maxTokens: number = 32000 // Default context window
+  maxTokens: number = DEFAULT_CONTEXT_WINDOW
 ): ConversationTokenInfo {
   const estimatedTokens = calculateConversationTokens(messages, systemPrompt);
   const percentageUsed = (estimatedTokens / maxTokens) * 100;
@@ -149,13 +154,24 @@ export function formatTokenCount(tokens: number): string {
   }
 }
 
-// Get context window size for different models
-export function getModelContextWindow(model: string): number {
-  const contextWindows: Record<string, number> = {
-    'grok-3': 8192,
-    'grok-4-0709': 256000,
-    'default': 256000
-  };
-  
-  return contextWindows[model] || contextWindows.default;
-} 
\ No newline at end of file
+// The model a key refers to, by `provider:model` key or by the bare model id saved before
+// models were keyed by provider
+export function findModel(models: ModelInfo[], key: string): ModelInfo | undefined {
+  return models.find(model => model.id === key) ?? models.find(model => model.model === key);
+}
+
+// Get context window size of a model from the model registry
+export function getModelContextWindow(model: string, models: ModelInfo[]): number {
+  return findModel(models, model)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+// Cost in US dollars of a reply's token usage, or null when the model has no prices
+export function getUsageCost(usage: TokenUsage, model: ModelInfo | undefined): number | null {
+  if (!model?.pricing || usage.total_tokens === 0) return null;
+  return (usage.prompt_tokens * model.pricing.input + usage.completion_tokens * model.pricing.output) / 1000000;
+}
+
+// Format a cost for display, with more digits for the small costs of single replies
+export function formatCost(cost: number): string {
+  return `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}